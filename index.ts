@@ -22,6 +22,38 @@ export type {
   CrosswordEnvConfig,
 } from "./src/environments/CrosswordEnv.js";
 
+// Model Providers
+export { ProviderError } from "./src/client/types.js";
+export type {
+  ModelProvider,
+  ModelInfo,
+  ChatMessage,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionResult,
+  ChatCompletionChunk,
+  ProviderUsage,
+  ToolCall,
+  ToolDefinition,
+} from "./src/client/types.js";
+export {
+  OpenAICompatibleClient,
+  createOpenAICompatibleClient,
+} from "./src/client/openai-compatible.js";
+export type { OpenAICompatibleConfig } from "./src/client/openai-compatible.js";
+export { MockProvider, createMockProvider } from "./src/client/mock.js";
+export type { MockProviderConfig, MockScript } from "./src/client/mock.js";
+export { ResponseCache, createResponseCache } from "./src/client/cache.js";
+export type { CacheMode } from "./src/client/cache.js";
+export {
+  DEFAULT_PROVIDER,
+  MOCK_PROVIDER,
+  createModelProvider,
+  getProviderName,
+  getProviderSettings,
+  getReasoningSettings,
+} from "./src/client/provider.js";
+
 // OpenRouter Client
 export {
   OpenRouterClient,
@@ -30,10 +62,6 @@ export {
 } from "./src/client/openrouter.js";
 export type {
   OpenRouterConfig,
-  ChatMessage,
-  ChatCompletionRequest,
-  ChatCompletionResponse,
-  ChatCompletionResult,
   OpenRouterUsage,
 } from "./src/client/openrouter.js";
 
@@ -41,6 +69,59 @@ export type {
 export { BenchmarkRunner, createRunner } from "./src/runner/runner.js";
 export type { RunContext, RunResult, Puzzle } from "./src/runner/runner.js";
 
+// Suite contestants (models with their resolved settings)
+export { resolveContestants } from "./src/runner/contestants.js";
+export type { Contestant } from "./src/runner/contestants.js";
+
+// Action protocols (json_schema, tool_calls, freeform_json)
+export {
+  buildActionRequestFormat,
+  getActionReply,
+} from "./src/runner/action-protocol.js";
+export type { ActionProtocol } from "./src/runner/action-protocol.js";
+
+// Action parsing (structured errors for unusable replies)
+export { parseAction } from "./src/runner/action-parser.js";
+export {
+  extractJson,
+  normalizeAction,
+} from "./src/runner/action-extraction.js";
+export type { ReplyFix } from "./src/runner/action-extraction.js";
+export type {
+  ActionParseResult,
+  ParsedAction,
+} from "./src/runner/action-parser.js";
+
+// Spend caps and cost estimates
+export { BudgetTracker } from "./src/runner/budget.js";
+export { estimateSuiteCost } from "./src/runner/cost-estimate.js";
+export type {
+  ModelCostEstimate,
+  SuiteCostEstimate,
+} from "./src/runner/cost-estimate.js";
+
+// Event log and timeline
+export {
+  EVENT_LOG_FILE,
+  EventLog,
+  isSuiteEvent,
+  readEventLog,
+} from "./src/runner/event-log.js";
+export type { EventLogEntry, SuiteEvent } from "./src/runner/event-log.js";
+export { buildTimeline, showTimeline } from "./src/timeline/index.js";
+export type {
+  Timeline,
+  TimelineModel,
+  TimelineRun,
+} from "./src/timeline/index.js";
+
+// Adaptive rate limiting
+export { AdaptiveLimiter } from "./src/runner/adaptive-limiter.js";
+export type {
+  AdaptiveLimiterOptions,
+  AdaptiveLimiterState,
+} from "./src/runner/adaptive-limiter.js";
+
 // Concurrent Runner (recommended)
 export {
   ConcurrentRunner,
@@ -59,6 +140,20 @@ export type {
   GlobalStats,
 } from "./src/dashboard/types.js";
 
+// Web dashboard
+export {
+  DashboardServer,
+  buildDashboardState,
+  createDashboardServer,
+  followEventLog,
+  listRuns,
+} from "./src/server/index.js";
+export type {
+  DashboardServerOptions,
+  RunDetails,
+  SerializedDashboardState,
+} from "./src/server/index.js";
+
 // Leaderboard
 export { showLeaderboard } from "./src/leaderboard/index.js";
 export type {
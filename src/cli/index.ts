@@ -3,7 +3,11 @@ import chalk from "chalk";
 import { join } from "path";
 import pino from "pino";
 
-import { SuiteConfigSchema, type SuiteConfig } from "../schemas/config.js";
+import {
+  CacheSettingsSchema,
+  SuiteConfigSchema,
+  type SuiteConfig,
+} from "../schemas/config.js";
 import type {
   ConnectionsPuzzle,
   CrosswordPuzzle,
@@ -11,15 +15,50 @@ import type {
 } from "../schemas/puzzles.js";
 import { visualizeRun } from "../visualizer/index.js";
 import { showLeaderboard } from "../leaderboard/index.js";
+import { showTimeline } from "../timeline/index.js";
+import {
+  countCompletedByModel,
+  findCompletedRuns,
+  loadSuiteSnapshot,
+  parseSuiteRunDir,
+  type ResumeState,
+} from "../runner/resume.js";
+import { resolveContestants } from "../runner/contestants.js";
+import {
+  estimateSuiteCost,
+  type SuiteCostEstimate,
+} from "../runner/cost-estimate.js";
+import { getProviderSettings } from "../client/provider.js";
+import type { ModelProvider } from "../client/types.js";
+import { seededShuffle } from "../utils/random.js";
+import {
+  createInitialDashboardState,
+  type RunEvent,
+} from "../dashboard/types.js";
+import {
+  DEFAULT_HOSTNAME,
+  createDashboardServer,
+  followEventLog,
+  type DashboardServer,
+} from "../server/index.js";
+import {
+  PlainProgressReporter,
+  PROGRESS_MODES,
+  writeJsonEvent,
+  writeJsonSummary,
+} from "./progress.js";
 
 // ========================================
 // Logger
 // ========================================
 
-const logger = pino({
-  name: "cli",
-  level: process.env.LOG_LEVEL || "warn",
-});
+const logger = pino(
+  {
+    name: "cli",
+    level: process.env.LOG_LEVEL || "warn",
+  },
+  pino.destination(2), // stderr: stdout may carry --progress json
+);
 
 // ========================================
 // CLI Setup
@@ -39,53 +78,200 @@ program
 program
   .command("run")
   .description("Run a benchmark suite")
-  .requiredOption("-s, --suite <path>", "Path to suite configuration file")
+  .option("-s, --suite <path>", "Path to suite configuration file")
   .option("-o, --output <dir>", "Output directory for runs", "runs")
+  .option(
+    "--resume <dir>",
+    "Resume an interrupted suite run directory (runs/<suite>/<timestamp>)",
+  )
   .option("--dry-run", "Show what would be run without executing")
   .option("--no-dashboard", "Run without interactive dashboard")
+  .option(
+    "--progress <mode>",
+    "Headless progress output: json (NDJSON events on stdout) or plain",
+  )
+  .option(
+    "--progress-interval <seconds>",
+    "Seconds between plain progress lines",
+    "10",
+  )
+  .option(
+    "--cache <mode>",
+    "Response cache mode: off, read-write, read-only or replay-only",
+  )
+  .option("--serve <port>", "Serve a web dashboard of the run on this port")
+  .option(
+    "--serve-host <host>",
+    "Interface the web dashboard listens on (0.0.0.0 for every interface)",
+    DEFAULT_HOSTNAME,
+  )
   .action(async (options) => {
+    // JSON progress owns stdout, so everything meant for people goes to stderr
+    const jsonProgress = options.progress === "json";
+    const info = jsonProgress ? console.error : console.log;
+
     try {
-      console.log(chalk.blue.bold("\n🎯 NYT Arena Benchmark Runner\n"));
+      if (options.progress && !PROGRESS_MODES.includes(options.progress)) {
+        console.error(
+          chalk.red(
+            `Unknown progress mode "${options.progress}" (expected ${PROGRESS_MODES.join(" or ")})`,
+          ),
+        );
+        process.exit(1);
+      }
+
+      info(chalk.blue.bold("\n🎯 NYT Arena Benchmark Runner\n"));
+
+      if (!options.suite && !options.resume) {
+        console.error(chalk.red("Either --suite or --resume is required"));
+        process.exit(1);
+      }
+
+      const resumeTarget = options.resume
+        ? parseSuiteRunDir(options.resume)
+        : null;
+
+      // Load suite config (a resumed run falls back to its stored snapshot)
+      let config: SuiteConfig;
+      if (options.suite) {
+        const suitePath = options.suite;
+        info(chalk.gray(`Loading suite config from: ${suitePath}`));
+
+        const suiteFile = Bun.file(suitePath);
+        if (!(await suiteFile.exists())) {
+          console.error(chalk.red(`Suite config not found: ${suitePath}`));
+          process.exit(1);
+        }
 
-      // Load suite config
-      const suitePath = options.suite;
-      console.log(chalk.gray(`Loading suite config from: ${suitePath}`));
+        const rawConfig = await suiteFile.json();
+        config = SuiteConfigSchema.parse(rawConfig);
+      } else {
+        info(
+          chalk.gray(
+            `Loading suite config from: ${resumeTarget!.suiteRunDir}`,
+          ),
+        );
+
+        const snapshot = await loadSuiteSnapshot(resumeTarget!.suiteRunDir);
+        if (!snapshot) {
+          console.error(
+            chalk.red(
+              `No suite snapshot in ${resumeTarget!.suiteRunDir}. Pass the original config with --suite.`,
+            ),
+          );
+          process.exit(1);
+        }
+        config = snapshot;
+      }
 
-      const suiteFile = Bun.file(suitePath);
-      if (!(await suiteFile.exists())) {
-        console.error(chalk.red(`Suite config not found: ${suitePath}`));
+      if (resumeTarget && resumeTarget.suiteName !== config.name) {
+        console.error(
+          chalk.red(
+            `Suite name mismatch: ${resumeTarget.suiteRunDir} belongs to "${resumeTarget.suiteName}", config is "${config.name}"`,
+          ),
+        );
         process.exit(1);
       }
 
-      const rawConfig = await suiteFile.json();
-      const config = SuiteConfigSchema.parse(rawConfig);
+      if (options.cache) {
+        config.cache = CacheSettingsSchema.parse({
+          ...config.cache,
+          mode: options.cache,
+        });
+      }
 
-      console.log(chalk.green(`✓ Loaded suite: ${config.name}`));
-      console.log(chalk.gray(`  Models: ${config.models.join(", ")}`));
-      console.log(chalk.gray(`  Task: ${config.puzzles.type}`));
-      console.log(chalk.gray(`  Max steps: ${config.maxSteps}`));
-      console.log(chalk.gray(`  Repeats: ${config.repeats}`));
+      const contestants = resolveContestants(config);
+
+      info(chalk.green(`✓ Loaded suite: ${config.name}`));
+      info(
+        chalk.gray(
+          `  Models: ${contestants
+            .map((c) => (c.name ? `${c.name} (${c.modelId})` : c.modelId))
+            .join(", ")}`,
+        ),
+      );
+      info(chalk.gray(`  Task: ${config.puzzles.type}`));
+      info(chalk.gray(`  Max steps: ${config.maxSteps}`));
+      info(chalk.gray(`  Repeats: ${config.repeats}`));
+      if (config.cache && config.cache.mode !== "off") {
+        info(
+          chalk.gray(`  Cache: ${config.cache.mode} (${config.cache.dir})`),
+        );
+      }
 
       // Load puzzles
       const puzzles = await loadPuzzles(config);
-      console.log(chalk.green(`✓ Loaded ${puzzles.length} puzzles`));
+      info(chalk.green(`✓ Loaded ${puzzles.length} puzzles`));
+
+      // Find runs already completed by the interrupted invocation
+      let resume: ResumeState | undefined;
+      let completedByModel: Map<string, number> | undefined;
+      let completedCount = 0;
+      if (resumeTarget) {
+        const completed = await findCompletedRuns(resumeTarget.suiteRunDir);
+        resume = { timestamp: resumeTarget.timestamp, completed };
+        options.output = resumeTarget.runsDir;
+
+        completedByModel = countCompletedByModel(
+          completed,
+          contestants.map((c) => c.key),
+          puzzles.map((p) => p.id),
+          config.repeats,
+        );
+        completedCount = Array.from(completedByModel.values()).reduce(
+          (sum, n) => sum + n,
+          0,
+        );
+        info(
+          chalk.green(
+            `✓ Resuming ${resumeTarget.timestamp}: ${completedCount} runs already complete`,
+          ),
+        );
+      }
 
       if (options.dryRun) {
         const totalRuns =
-          config.models.length * puzzles.length * config.repeats;
-        console.log(
-          chalk.yellow(`\nDry run mode - would execute ${totalRuns} runs`),
+          contestants.length * puzzles.length * config.repeats;
+        const pendingRuns = totalRuns - completedCount;
+        info(
+          chalk.yellow(`\nDry run mode - would execute ${pendingRuns} runs`),
         );
-        console.log(
+        info(
           chalk.gray(
-            `  ${config.models.length} models × ${puzzles.length} puzzles × ${config.repeats} repeats`,
+            `  ${contestants.length} models × ${puzzles.length} puzzles × ${config.repeats} repeats`,
           ),
         );
+
+        const pendingByModel = countCompletedByModel(
+          resume?.completed ?? new Set(),
+          contestants.map((c) => c.key),
+          puzzles.map((p) => p.id),
+          config.repeats,
+        );
+        for (const [key, done] of pendingByModel) {
+          pendingByModel.set(key, puzzles.length * config.repeats - done);
+        }
+
+        const estimate = await estimateSuiteCost(
+          config,
+          contestants,
+          pendingByModel,
+          options.output,
+        );
+        printCostEstimate(estimate, config);
         return;
       }
 
-      // Check for API key
-      if (!process.env.OPENROUTER_API_KEY) {
+      // Check for API key (only needed when a model is served by OpenRouter,
+      // and not at all when replaying cached replies)
+      const replayOnly = config.cache?.mode === "replay-only";
+      const needsOpenRouterKey =
+        !replayOnly &&
+        contestants.some((contestant) => {
+          const settings = getProviderSettings(config, contestant.providerName);
+          return settings.type === "openrouter" && !settings.apiKeyEnv;
+        });
+      if (needsOpenRouterKey && !process.env.OPENROUTER_API_KEY) {
         console.error(
           chalk.red("\n✗ OPENROUTER_API_KEY environment variable not set"),
         );
@@ -95,11 +281,36 @@ program
         process.exit(1);
       }
 
+      // Progress state as the dashboard shows it
+      const createRunState = () =>
+        createInitialDashboardState(
+          config.name,
+          contestants.map((c) => c.key),
+          puzzles.length,
+          config.repeats,
+          completedByModel,
+        );
+
+      // Web dashboard fed with the same events
+      let server: DashboardServer | null = null;
+      if (options.serve) {
+        server = createDashboardServer({
+          port: parseInt(options.serve, 10),
+          hostname: options.serveHost,
+          runsDir: options.output,
+        });
+        server.setState(createRunState());
+        info(chalk.green(`✓ Web dashboard: ${server.start()}`));
+      }
+      const onEvent = server
+        ? (event: RunEvent) => server.handleEvent(event)
+        : undefined;
+
       let results: any[];
 
-      if (options.dashboard !== false) {
+      if (options.dashboard !== false && !options.progress) {
         // Run with dashboard
-        console.log(
+        info(
           chalk.blue("\n🚀 Starting benchmark with live dashboard...\n"),
         );
 
@@ -111,40 +322,72 @@ program
           config,
           puzzles,
           runsDir: options.output,
+          resume,
+          onEvent,
         });
 
         // Dashboard handles its own output
       } else {
         // Run without dashboard
-        console.log(chalk.blue("\n🚀 Starting benchmark...\n"));
+        info(chalk.blue("\n🚀 Starting benchmark...\n"));
 
         const { createConcurrentRunner } = await import(
           "../runner/concurrent-runner.js"
         );
-        const runner = createConcurrentRunner(config, options.output);
-
-        // Simple event logging
-        runner.on("event", (event: any) => {
-          if (event.type === "run_complete") {
-            const statusIcon =
-              event.status === "success"
-                ? chalk.green("✓")
-                : event.status === "fail"
-                  ? chalk.red("✗")
-                  : chalk.yellow("⏱");
-            console.log(
-              `${statusIcon} ${event.modelId} - ${event.puzzleId} (${event.status})`,
-            );
-          }
+        const runner = createConcurrentRunner(config, options.output, {
+          resume,
+          onEvent,
         });
 
-        results = await runner.runSuite(puzzles);
+        if (jsonProgress) {
+          // Every event as NDJSON, then the run summaries
+          runner.on("event", writeJsonEvent);
+          results = await runner.runSuite(puzzles);
+          writeJsonSummary(results);
+        } else if (options.progress === "plain") {
+          const reporter = new PlainProgressReporter(
+            createRunState(),
+            parseInt(options.progressInterval, 10) * 1000,
+          );
+          runner.on("event", (event: RunEvent) => reporter.handleEvent(event));
+
+          reporter.start();
+          try {
+            results = await runner.runSuite(puzzles);
+          } finally {
+            reporter.stop();
+          }
+
+          printSummary(results);
+        } else {
+          // Simple event logging
+          runner.on("event", (event: any) => {
+            if (event.type === "run_complete") {
+              const statusIcon =
+                event.status === "success"
+                  ? chalk.green("✓")
+                  : event.status === "fail"
+                    ? chalk.red("✗")
+                    : chalk.yellow("⏱");
+              info(
+                `${statusIcon} ${event.modelId} - ${event.puzzleId} (${event.status})`,
+              );
+            }
+          });
+
+          results = await runner.runSuite(puzzles);
+
+          // Print summary
+          printSummary(results);
+        }
+      }
 
-        // Print summary
-        printSummary(results);
+      if (server) {
+        server.markComplete();
+        await server.stop();
       }
 
-      console.log(chalk.green(`\n✓ Results saved to: ${options.output}/\n`));
+      info(chalk.green(`\n✓ Results saved to: ${options.output}/\n`));
     } catch (error) {
       console.error(chalk.red("\nError:"), error);
       process.exit(1);
@@ -173,11 +416,9 @@ program
         await import("../data/normalize-connections.js");
       } else if (options.type === "crossword") {
         console.log(
-          chalk.yellow("Crossword normalization not yet implemented"),
-        );
-        console.log(
-          chalk.gray("The crossword data source may need to be updated."),
+          chalk.gray("Running crossword normalization (.puz and .ipuz)..."),
         );
+        await import("../data/normalize-crosswords.js");
       } else {
         console.error(chalk.red(`Unknown puzzle type: ${options.type}`));
         process.exit(1);
@@ -259,21 +500,37 @@ program
   .command("models")
   .description("List available OpenRouter models")
   .option("-f, --filter <query>", "Filter models by name")
+  .option(
+    "--base-url <url>",
+    "List models of an OpenAI-compatible server instead of OpenRouter",
+  )
   .action(async (options) => {
     try {
-      console.log(chalk.blue.bold("\n🤖 OpenRouter Models\n"));
+      let client: ModelProvider;
 
-      if (!process.env.OPENROUTER_API_KEY) {
-        console.error(
-          chalk.red("OPENROUTER_API_KEY environment variable not set"),
+      if (options.baseUrl) {
+        console.log(chalk.blue.bold(`\n🤖 Models at ${options.baseUrl}\n`));
+
+        const { createOpenAICompatibleClient } = await import(
+          "../client/openai-compatible.js"
         );
-        process.exit(1);
+        client = createOpenAICompatibleClient({ baseUrl: options.baseUrl });
+      } else {
+        console.log(chalk.blue.bold("\n🤖 OpenRouter Models\n"));
+
+        if (!process.env.OPENROUTER_API_KEY) {
+          console.error(
+            chalk.red("OPENROUTER_API_KEY environment variable not set"),
+          );
+          process.exit(1);
+        }
+
+        const { createOpenRouterClient } = await import(
+          "../client/openrouter.js"
+        );
+        client = createOpenRouterClient();
       }
 
-      const { createOpenRouterClient } = await import(
-        "../client/openrouter.js"
-      );
-      const client = createOpenRouterClient();
       const models = await client.getModels();
 
       let filtered = models;
@@ -290,16 +547,20 @@ program
 
       for (const model of filtered.slice(0, 20)) {
         console.log(`  ${chalk.cyan(model.id)}`);
-        console.log(
-          chalk.gray(
-            `    Context: ${model.context_length.toLocaleString()} tokens`,
-          ),
-        );
-        console.log(
-          chalk.gray(
-            `    Pricing: $${model.pricing.prompt}/1K prompt, $${model.pricing.completion}/1K completion`,
-          ),
-        );
+        if (model.context_length !== undefined) {
+          console.log(
+            chalk.gray(
+              `    Context: ${model.context_length.toLocaleString()} tokens`,
+            ),
+          );
+        }
+        if (model.pricing) {
+          console.log(
+            chalk.gray(
+              `    Pricing: $${model.pricing.prompt}/1K prompt, $${model.pricing.completion}/1K completion`,
+            ),
+          );
+        }
         console.log();
       }
 
@@ -389,25 +650,61 @@ async function loadPuzzles(
   return puzzles;
 }
 
-function seededShuffle<T>(array: T[], seed: number): T[] {
-  const result = [...array];
-  let m = result.length;
-  let i: number;
-
-  // Simple seeded random
-  const random = () => {
-    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
-    return seed / 0x7fffffff;
-  };
-
-  while (m) {
-    i = Math.floor(random() * m--);
-    const t = result[m]!;
-    result[m] = result[i]!;
-    result[i] = t;
+function printCostEstimate(estimate: SuiteCostEstimate, config: SuiteConfig) {
+  console.log(chalk.blue.bold("\n💰 Cost Estimate\n"));
+
+  for (const model of estimate.models) {
+    const tokens =
+      model.promptTokensPerRun !== null
+        ? `${Math.round(model.promptTokensPerRun).toLocaleString()} + ${Math.round(model.completionTokensPerRun ?? 0).toLocaleString()} tokens/run`
+        : "no run history";
+    const source =
+      model.historySource === "model"
+        ? `${model.historyRuns} earlier runs`
+        : model.historySource === "task"
+          ? `${model.historyRuns} runs of other models`
+          : "";
+    const cost =
+      model.estimatedUsd !== null
+        ? chalk.white(`$${model.estimatedUsd.toFixed(4)}`)
+        : chalk.yellow(model.pricing ? "unknown" : "unknown (no pricing)");
+
+    console.log(
+      `  ${model.key}: ${cost} ${chalk.gray(`(${model.pendingRuns} runs × ${tokens}${source ? `, from ${source}` : ""})`)}`,
+    );
+
+    const maxUsdPerModel = config.budget?.maxUsdPerModel;
+    if (
+      maxUsdPerModel !== undefined &&
+      model.estimatedUsd !== null &&
+      model.estimatedUsd > maxUsdPerModel
+    ) {
+      console.log(
+        chalk.yellow(`    ⚠ Above budget.maxUsdPerModel ($${maxUsdPerModel})`),
+      );
+    }
+  }
+
+  if (estimate.totalUsd !== null) {
+    console.log(chalk.green(`\n  Estimated total: $${estimate.totalUsd.toFixed(4)}`));
+  } else {
+    console.log(
+      chalk.yellow("\n  Estimated total: unknown (some models lack history or pricing)"),
+    );
   }
 
-  return result;
+  const maxTotalUsd = config.budget?.maxTotalUsd;
+  if (
+    maxTotalUsd !== undefined &&
+    estimate.totalUsd !== null &&
+    estimate.totalUsd > maxTotalUsd
+  ) {
+    console.log(
+      chalk.yellow(
+        `  ⚠ Above budget.maxTotalUsd ($${maxTotalUsd}): the suite will stop early`,
+      ),
+    );
+  }
 }
 
 function printSummary(results: any[]) {
@@ -423,11 +720,17 @@ function printSummary(results: any[]) {
     (r) => r.summary.status === "timeout",
   ).length;
   const errorCount = results.filter((r) => r.summary.status === "error").length;
+  const budgetCount = results.filter(
+    (r) => r.summary.status === "budget_exceeded",
+  ).length;
 
   console.log(chalk.green(`  ✓ Success: ${successCount}`));
   console.log(chalk.red(`  ✗ Failed: ${failCount}`));
   console.log(chalk.yellow(`  ⏱ Timeout: ${timeoutCount}`));
   console.log(chalk.gray(`  ⚠ Errors: ${errorCount}`));
+  if (budgetCount > 0) {
+    console.log(chalk.yellow(`  $ Budget exceeded: ${budgetCount}`));
+  }
 
   const totalCost = results.reduce(
     (sum, r) => sum + (r.summary.costCreditsTotal || 0),
@@ -443,13 +746,77 @@ function printSummary(results: any[]) {
     console.log(chalk.gray(`  Total cost: $${totalCost.toFixed(4)}`));
   }
 
+  const completionTokens = results.reduce(
+    (sum, r) => sum + r.summary.usage.completionTokens,
+    0,
+  );
+  const reasoningTokens = results.reduce(
+    (sum, r) => sum + (r.summary.usage.reasoningTokens || 0),
+    0,
+  );
+  if (reasoningTokens > 0) {
+    console.log(
+      chalk.gray(
+        `  Reasoning tokens: ${reasoningTokens.toLocaleString()} (${((reasoningTokens / completionTokens) * 100).toFixed(1)}% of completion tokens)`,
+      ),
+    );
+  }
+
+  const tokensSaved = results.reduce(
+    (sum, r) => sum + (r.summary.promptSavings?.estimatedTokensSaved || 0),
+    0,
+  );
+  if (tokensSaved !== 0) {
+    console.log(
+      chalk.gray(
+        `  Prompt tokens saved vs JSON observations: ~${tokensSaved.toLocaleString()}`,
+      ),
+    );
+  }
+
+  const parseFailures = results.reduce(
+    (sum, r) => sum + (r.summary.parseFailures || 0),
+    0,
+  );
+  const ruleViolations = results.reduce(
+    (sum, r) => sum + (r.summary.ruleViolations || 0),
+    0,
+  );
+  const repairAttempts = results.reduce(
+    (sum, r) => sum + (r.summary.repairAttempts || 0),
+    0,
+  );
+  if (parseFailures + ruleViolations + repairAttempts > 0) {
+    console.log(
+      chalk.gray(
+        `  Invalid actions: ${parseFailures} unparseable, ${ruleViolations} against the rules (${repairAttempts} repair requests)`,
+      ),
+    );
+  }
+
+  const strictReplies = results.reduce(
+    (sum, r) => sum + (r.summary.strictReplies || 0),
+    0,
+  );
+  const fixedReplies = results.reduce(
+    (sum, r) => sum + (r.summary.fixedReplies || 0),
+    0,
+  );
+  if (fixedReplies > 0) {
+    console.log(
+      chalk.gray(
+        `  Strict compliance: ${((strictReplies / (strictReplies + fixedReplies + parseFailures)) * 100).toFixed(1)}% (${fixedReplies} replies needed fixes or repairs)`,
+      ),
+    );
+  }
+
   // Per-model breakdown
   const byModel = new Map<
     string,
     { success: number; fail: number; tokens: number; cost: number }
   >();
   for (const result of results) {
-    const model = result.summary.modelId;
+    const model = result.summary.modelLabel ?? result.summary.modelId;
     const existing = byModel.get(model) || {
       success: 0,
       fail: 0,
@@ -536,6 +903,83 @@ program
     }
   });
 
+// ========================================
+// Timeline Command
+// ========================================
+
+program
+  .command("timeline")
+  .description("Show a Gantt-style timeline of a suite run from its event log")
+  .argument("<path>", "Suite run directory (runs/<suite>/<timestamp>) or events.jsonl")
+  .option("-w, --width <n>", "Width of the timeline in characters", "60")
+  .option("-m, --model <modelId>", "Only show this model")
+  .action(async (path, options) => {
+    try {
+      await showTimeline({
+        path,
+        width: parseInt(options.width, 10),
+        model: options.model,
+      });
+    } catch (error) {
+      console.error(chalk.red("\nError:"), error);
+      process.exit(1);
+    }
+  });
+
+// ========================================
+// Serve Command
+// ========================================
+
+program
+  .command("serve")
+  .description("Serve a web dashboard of the latest suite run and run replays")
+  .option("-p, --port <port>", "Port to listen on", "4173")
+  .option(
+    "--host <host>",
+    "Interface to listen on (0.0.0.0 for every interface)",
+    DEFAULT_HOSTNAME,
+  )
+  .option("-o, --output <dir>", "Runs directory", "runs")
+  .option(
+    "--suite-run <dir>",
+    "Follow this suite run (runs/<suite>/<timestamp>) instead of the latest",
+  )
+  .action(async (options) => {
+    try {
+      const server = createDashboardServer({
+        port: parseInt(options.port, 10),
+        hostname: options.host,
+        runsDir: options.output,
+      });
+      const url = server.start();
+      const stopFollowing = followEventLog(
+        server,
+        options.output,
+        options.suiteRun,
+      );
+
+      console.log(chalk.blue.bold("\n🌐 NYT Arena Web Dashboard\n"));
+      console.log(chalk.green(`✓ Serving ${url}`));
+      console.log(
+        chalk.gray(
+          options.suiteRun
+            ? `  Following ${options.suiteRun}`
+            : `  Following the latest suite run in ${options.output}/`,
+        ),
+      );
+      console.log(chalk.gray("  Press Ctrl+C to stop\n"));
+
+      process.once("SIGINT", async () => {
+        stopFollowing();
+        await server.stop();
+        process.exit(0);
+      });
+    } catch (error) {
+      console.error(chalk.red("\nError:"), error);
+      process.exit(1);
+    }
+  });
+
 // ========================================
 // Leaderboard Command
 // ========================================
@@ -548,9 +992,11 @@ program
   .option("-l, --limit <n>", "Number of models to display", "20")
   .option(
     "--sort <by>",
-    "Sort by: wins, rate, cost, tokens, speed",
+    "Sort by: wins, rate, score, cost, tokens, speed",
     "rate",
   )
+  .option("--prompt <version>", "Only include runs with this prompt version or hash")
+  .option("--by-prompt", "Show one row per model and prompt version")
   .option("-o, --output <dir>", "Runs directory", "runs")
   .action(async (options) => {
     try {
@@ -562,7 +1008,7 @@ program
         process.exit(1);
       }
 
-      const validSortOptions = ["wins", "rate", "cost", "tokens", "speed"];
+      const validSortOptions = ["wins", "rate", "score", "cost", "tokens", "speed"];
       if (options.sort && !validSortOptions.includes(options.sort)) {
         console.error(
           chalk.red(`Invalid sort option: ${options.sort}. Must be one of: ${validSortOptions.join(", ")}`),
@@ -576,6 +1022,8 @@ program
         since: options.since,
         limit: parseInt(options.limit, 10),
         sortBy: options.sort,
+        prompt: options.prompt,
+        groupByPrompt: options.byPrompt,
       });
     } catch (error) {
       console.error(chalk.red("\nError:"), error);
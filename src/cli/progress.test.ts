@@ -0,0 +1,45 @@
+import { describe, test, expect } from "bun:test";
+import { formatProgressLine } from "./progress";
+import { createInitialDashboardState, updateWorkerState } from "../dashboard/types";
+
+describe("formatProgressLine", () => {
+  test("extrapolates an ETA from the finished runs", () => {
+    let state = createInitialDashboardState("demo", ["mock/oracle"], 4, 1);
+    state = { ...state, startTime: 0 };
+    state = updateWorkerState(state, {
+      type: "step_complete",
+      modelId: "mock/oracle",
+      tokens: 600,
+      timestamp: 20000,
+    });
+    state = updateWorkerState(state, {
+      type: "run_complete",
+      modelId: "mock/oracle",
+      status: "success",
+      tokens: 600,
+      latencyMs: 30000,
+      timestamp: 30000,
+    });
+
+    expect(formatProgressLine(state, 60000)).toBe(
+      "[progress] 1/4 runs (25.0%) | elapsed 1m 0s | 1 solved, 0 failed, 0 timeout/error | 1.0 runs/min | 10 tok/s | ETA 3m 0s",
+    );
+  });
+
+  test("counts runs stopped by a budget cap on their own", () => {
+    let state = createInitialDashboardState("demo", ["mock/oracle"], 2, 1);
+    state = { ...state, startTime: 0 };
+    state = updateWorkerState(state, {
+      type: "run_complete",
+      modelId: "mock/oracle",
+      status: "budget_exceeded",
+      timestamp: 30000,
+    });
+
+    expect(state.workers.get("mock/oracle")?.budgetExceededCount).toBe(1);
+    expect(state.globalStats.timeoutCount).toBe(0);
+    expect(formatProgressLine(state, 60000)).toContain(
+      "0 solved, 0 failed, 0 timeout/error, 1 over budget",
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import type { RunEvent, DashboardState } from "../dashboard/types.js";
+import { updateWorkerState } from "../dashboard/types.js";
+import type { RunResult } from "../runner/concurrent-runner.js";
+
+// ========================================
+// Types
+// ========================================
+
+export const PROGRESS_MODES = ["json", "plain"] as const;
+
+export type ProgressMode = (typeof PROGRESS_MODES)[number];
+
+/** Last line of `--progress json` output */
+export interface ProgressSummaryLine {
+  type: "summary";
+  runs: RunResult["summary"][];
+  timestamp: number;
+}
+
+// ========================================
+// JSON Progress
+// ========================================
+
+/**
+ * Write one run event as a line of NDJSON to stdout
+ */
+export function writeJsonEvent(event: RunEvent): void {
+  process.stdout.write(JSON.stringify(event) + "\n");
+}
+
+/**
+ * Write the summaries of all runs as the final NDJSON line
+ */
+export function writeJsonSummary(results: RunResult[]): void {
+  const line: ProgressSummaryLine = {
+    type: "summary",
+    runs: results.map((result) => result.summary),
+    timestamp: Date.now(),
+  };
+  process.stdout.write(JSON.stringify(line) + "\n");
+}
+
+// ========================================
+// Plain Progress
+// ========================================
+
+/**
+ * Uncolored progress lines for logs and CI: one line per finished run and,
+ * every `intervalMs`, a line with throughput and an ETA
+ */
+export class PlainProgressReporter {
+  private state: DashboardState;
+  private intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(state: DashboardState, intervalMs: number) {
+    this.state = state;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Start printing periodic progress lines
+   */
+  start(): void {
+    this.timer ??= setInterval(() => this.printProgress(), this.intervalMs);
+  }
+
+  /**
+   * Stop the periodic lines and print a last one
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.printProgress();
+  }
+
+  /**
+   * Track a run event, printing finished runs and errors
+   */
+  handleEvent(event: RunEvent): void {
+    this.state = updateWorkerState(this.state, event);
+
+    if (event.type === "run_complete") {
+      const details = [
+        formatDuration(event.latencyMs ?? 0),
+        `${event.tokens ?? 0} tokens`,
+      ];
+      console.log(
+        `[run ${this.state.completedRuns}/${this.state.totalRuns}] ` +
+          `${event.modelId} ${event.puzzleId}: ${event.status} (${details.join(", ")})`,
+      );
+    } else if (event.type === "error") {
+      console.log(
+        `[error] ${event.modelId}${event.puzzleId ? ` ${event.puzzleId}` : ""}: ${event.error}`,
+      );
+    }
+  }
+
+  private printProgress(): void {
+    console.log(formatProgressLine(this.state, Date.now()));
+  }
+}
+
+// ========================================
+// Utility Functions
+// ========================================
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms.toFixed(0)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  const minutes = Math.floor(ms / 60000);
+  const seconds = ((ms % 60000) / 1000).toFixed(0);
+  return `${minutes}m ${seconds}s`;
+}
+
+/**
+ * Completed runs, outcome counts, run and token throughput, and an ETA
+ * extrapolated from the runs finished so far
+ */
+export function formatProgressLine(state: DashboardState, now: number): string {
+  const { completedRuns, totalRuns, globalStats } = state;
+  const elapsedMs = Math.max(1, now - state.startTime);
+  const percent = totalRuns > 0 ? (completedRuns / totalRuns) * 100 : 100;
+  const runsPerMinute = completedRuns / (elapsedMs / 60000);
+  const tokensPerSecond = globalStats.totalTokens / (elapsedMs / 1000);
+  const otherCount = globalStats.timeoutCount + globalStats.errorCount;
+  const budgetCount = globalStats.budgetExceededCount;
+
+  const eta =
+    completedRuns >= totalRuns
+      ? "done"
+      : completedRuns > 0
+        ? formatDuration((elapsedMs / completedRuns) * (totalRuns - completedRuns))
+        : "unknown";
+
+  return [
+    `[progress] ${completedRuns}/${totalRuns} runs (${percent.toFixed(1)}%)`,
+    `elapsed ${formatDuration(elapsedMs)}`,
+    `${globalStats.successCount} solved, ${globalStats.failCount} failed, ${otherCount} timeout/error` +
+      (budgetCount > 0 ? `, ${budgetCount} over budget` : ""),
+    `${runsPerMinute.toFixed(1)} runs/min`,
+    `${tokensPerSecond.toFixed(0)} tok/s`,
+    `ETA ${eta}`,
+  ].join(" | ");
+}
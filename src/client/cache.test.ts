@@ -0,0 +1,111 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { ResponseCache } from "./cache";
+import { OpenAICompatibleClient } from "./openai-compatible";
+import {
+  ProviderError,
+  type ChatCompletionRequest,
+  type ChatCompletionResult,
+} from "./types";
+
+const request: ChatCompletionRequest = {
+  model: "local/model",
+  messages: [{ role: "user", content: "Hello" }],
+};
+
+describe("ResponseCache", () => {
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), "nyt-arena-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  test("keys ignore object key order but not the provider", () => {
+    const body = { model: "m", messages: [{ role: "user", content: "Hi" }] };
+    const key = ResponseCache.key("local", body);
+
+    expect(
+      ResponseCache.key("local", {
+        messages: [{ content: "Hi", role: "user" }],
+        model: "m",
+      }),
+    ).toBe(key);
+    expect(ResponseCache.key("other", body)).not.toBe(key);
+  });
+
+  test("replays recorded replies offline, and fails on a miss", async () => {
+    let served = 0;
+    const server = Bun.serve({
+      port: 0,
+      fetch: () =>
+        Response.json({
+          id: `cmpl-${++served}`,
+          model: "local/model",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: `Reply ${served}` },
+              finish_reason: "stop",
+            },
+          ],
+          usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+        }),
+    });
+    const clientFor = (mode: "read-write" | "read-only" | "replay-only") =>
+      new OpenAICompatibleClient({
+        baseUrl: `http://localhost:${server.port}/v1`,
+        name: "local",
+        cache: new ResponseCache(cacheDir, mode),
+      });
+
+    const recorded = await clientFor("read-write").chatCompletion(request);
+    const hit = await clientFor("read-write").chatCompletion(request);
+    expect(hit).toEqual(recorded);
+
+    // read-only calls the API on a miss without storing the reply
+    const other = { ...request, temperature: 0.7 };
+    await clientFor("read-only").chatCompletion(other);
+    expect(served).toBe(2);
+    server.stop(true);
+
+    const replayed = await clientFor("replay-only").chatCompletion(request);
+    expect(replayed).toEqual(recorded);
+    expect(await readdir(cacheDir)).toHaveLength(1);
+
+    const miss = await clientFor("replay-only")
+      .chatCompletion(other)
+      .catch((e) => e);
+    expect(miss).toBeInstanceOf(ProviderError);
+    expect(miss.message).toContain("cache miss in replay-only mode");
+  });
+
+  test("off mode never reads or writes", async () => {
+    const cache = new ResponseCache(cacheDir, "off");
+    const stored = new ResponseCache(cacheDir, "read-write");
+    const result: ChatCompletionResult = {
+      id: "cmpl-1",
+      model: "local/model",
+      content: "cached",
+      reasoning: null,
+      toolCalls: [],
+      finishReason: "stop",
+      usage: null,
+      latencyMs: 10,
+      raw: { id: "cmpl-1", model: "local/model", choices: [] },
+    };
+
+    await stored.set("ab12", result);
+    await cache.set("cd34", result);
+
+    expect(await cache.get("ab12")).toBeNull();
+    expect(await stored.get("ab12")).toEqual(result);
+    expect(await stored.get("cd34")).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { createHash, randomUUID } from "crypto";
+import { mkdir, rename, writeFile } from "fs/promises";
+import { dirname, join, resolve } from "path";
+
+import { ProviderError, type ChatCompletionResult } from "./types";
+
+// ========================================
+// Types
+// ========================================
+
+/**
+ * How a provider uses the response cache:
+ * - off: never
+ * - read-write: serve hits, store misses
+ * - read-only: serve hits, call the API on misses without storing them
+ * - replay-only: serve hits, fail on misses (offline replay)
+ */
+export type CacheMode = "off" | "read-write" | "read-only" | "replay-only";
+
+// ========================================
+// Response Cache
+// ========================================
+
+/**
+ * Content-addressed store of chat completion results on disk.
+ *
+ * Entries are keyed by a hash of the provider name and the exact request
+ * body sent to it, and hold the full result (including latency and the raw
+ * response), so a replayed suite sees byte-for-byte the same replies.
+ */
+export class ResponseCache {
+  readonly mode: CacheMode;
+  private dir: string;
+
+  constructor(dir: string, mode: CacheMode) {
+    this.dir = resolve(dir);
+    this.mode = mode;
+  }
+
+  /**
+   * Cache key for a request body sent to a provider
+   */
+  static key(provider: string, body: Record<string, unknown>): string {
+    return createHash("sha256")
+      .update(canonicalJson({ provider, body }))
+      .digest("hex");
+  }
+
+  /**
+   * Look up a cached result. In replay-only mode a miss is an error.
+   */
+  async get(key: string): Promise<ChatCompletionResult | null> {
+    if (this.mode === "off") {
+      return null;
+    }
+
+    const file = Bun.file(this.entryPath(key));
+    if (await file.exists()) {
+      try {
+        return (await file.json()) as ChatCompletionResult;
+      } catch {
+        // Unreadable entries count as misses
+      }
+    }
+
+    if (this.mode === "replay-only") {
+      throw new ProviderError(
+        `Response cache miss in replay-only mode (key ${key.slice(0, 12)})`,
+        0,
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Store a result, unless the mode is read-only (written atomically)
+   */
+  async set(key: string, result: ChatCompletionResult): Promise<void> {
+    if (this.mode !== "read-write") {
+      return;
+    }
+
+    const path = this.entryPath(key);
+    const tmpPath = `${path}.${randomUUID()}.tmp`;
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(tmpPath, JSON.stringify(result));
+    await rename(tmpPath, path);
+  }
+
+  /**
+   * Entries are spread over subdirectories named after the key prefix
+   */
+  private entryPath(key: string): string {
+    return join(this.dir, key.slice(0, 2), `${key}.json`);
+  }
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * JSON with object keys sorted, so equal requests always hash the same
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_, item: unknown) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.entries(item as Record<string, unknown>).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0,
+          ),
+        )
+      : item,
+  );
+}
+
+// ========================================
+// Factory function
+// ========================================
+
+export function createResponseCache(settings?: {
+  mode: CacheMode;
+  dir: string;
+}): ResponseCache | undefined {
+  return settings && settings.mode !== "off"
+    ? new ResponseCache(settings.dir, settings.mode)
+    : undefined;
+}
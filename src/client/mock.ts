@@ -0,0 +1,510 @@
+import { resolve } from "path";
+
+import type { ConnectionsAction, CrosswordAction } from "../schemas/actions";
+import type { ConnectionsPuzzle, CrosswordPuzzle } from "../schemas/puzzles";
+import { createSeededRandom, hashSeed } from "../utils/random";
+import { joinSquares } from "../environments/CrosswordEnv";
+import {
+  ProviderError,
+  type ChatCompletionOptions,
+  type ChatCompletionRequest,
+  type ChatCompletionResult,
+  type ModelInfo,
+  type ModelProvider,
+  type RetryOptions,
+  type ToolCall,
+  type ToolDefinition,
+} from "./types";
+
+// ========================================
+// Types
+// ========================================
+
+export type MockPuzzle = ConnectionsPuzzle | CrosswordPuzzle;
+
+export interface MockProviderConfig {
+  puzzles?: MockPuzzle[];
+  latencyMs?: number; // Mean synthetic latency per request
+}
+
+/**
+ * Scripted replies: one list for every puzzle, or lists keyed by puzzle ID
+ * ("*" is the fallback), with one entry per step. String entries are returned
+ * verbatim, which lets a script exercise malformed output; an array entry
+ * lists the replies to a step's repair attempts in order.
+ */
+export type MockScript =
+  | Array<MockScriptEntry>
+  | Record<string, Array<MockScriptEntry>>;
+
+type MockScriptReply = ConnectionsAction | CrosswordAction | string;
+type MockScriptEntry = MockScriptReply | MockScriptReply[];
+
+type MockStrategy =
+  | { kind: "oracle" }
+  | { kind: "random" }
+  | { kind: "scripted"; file: string };
+
+// ========================================
+// Constants
+// ========================================
+
+export const MOCK_MODEL_PREFIX = "mock/";
+
+/** Model list entry standing for every mock/scripted:<file> model */
+const SCRIPTED_MODEL_ENTRY = "mock/scripted:<file>";
+
+/** Synthetic pricing in USD per token */
+const PROMPT_PRICE = 0.5 / 1_000_000;
+const COMPLETION_PRICE = 1.5 / 1_000_000;
+
+/** Rough characters-per-token ratio used for synthetic token counts */
+const CHARS_PER_TOKEN = 4;
+
+// ========================================
+// Mock Provider
+// ========================================
+
+/**
+ * Offline provider that plays puzzles without calling any API.
+ *
+ * - mock/oracle: answers from the puzzle solution
+ * - mock/random: plays random (usually wrong) moves
+ * - mock/scripted:<file>: replays actions from a JSON script
+ *
+ * Replies depend only on the model ID, puzzle, repeat and step, so suites
+ * are reproducible. Token counts, latency and cost are synthetic.
+ */
+export class MockProvider implements ModelProvider {
+  readonly name = "mock";
+  private puzzles: Map<string, MockPuzzle>;
+  private latencyMs: number;
+  private scripts: Map<string, Promise<MockScript>> = new Map();
+
+  constructor(config: MockProviderConfig = {}) {
+    this.puzzles = new Map((config.puzzles ?? []).map((p) => [p.id, p]));
+    this.latencyMs = config.latencyMs ?? 200;
+  }
+
+  /**
+   * Produce the next action for the run described by the request metadata
+   */
+  async chatCompletion(
+    request: ChatCompletionRequest,
+    options: ChatCompletionOptions = {},
+  ): Promise<ChatCompletionResult> {
+    const { metadata } = request;
+    if (!metadata) {
+      throw new ProviderError("Mock provider requires request metadata", 400);
+    }
+
+    const puzzle = this.puzzles.get(metadata.puzzleId);
+    if (!puzzle) {
+      throw new ProviderError(
+        `Mock provider has no puzzle ${metadata.puzzleId}`,
+        400,
+      );
+    }
+
+    const strategy = parseMockModel(request.model);
+    const random = createSeededRandom(
+      hashSeed(
+        `${request.model}:${puzzle.id}:${metadata.repeatIndex}:${metadata.stepIndex}`,
+      ),
+    );
+
+    let content: string;
+    switch (strategy.kind) {
+      case "oracle":
+        content = JSON.stringify(oracleAction(puzzle, metadata.stepIndex));
+        break;
+      case "random":
+        content = JSON.stringify(randomAction(puzzle, random));
+        break;
+      case "scripted":
+        content = await this.scriptedReply(
+          strategy.file,
+          puzzle,
+          metadata.stepIndex,
+          metadata.attempt ?? 0,
+        );
+        break;
+    }
+
+    // Synthetic usage and latency
+    const promptChars = request.messages.reduce(
+      (sum, m) => sum + m.content.length,
+      0,
+    );
+    const promptTokens = Math.ceil(promptChars / CHARS_PER_TOKEN);
+    const completionTokens = Math.ceil(content.length / CHARS_PER_TOKEN);
+    const latencyMs = Math.round(this.latencyMs * (0.5 + random()));
+
+    const timeoutMs = options.timeoutMs ?? 60000;
+    if (latencyMs > timeoutMs) {
+      throw new ProviderError(`Request timed out after ${timeoutMs}ms`, 408);
+    }
+
+    // A streamed reply sends its first half after 40% of the latency
+    let timing: { timeToFirstTokenMs: number; generationMs: number } | null =
+      null;
+    if (options.stream) {
+      const timeToFirstTokenMs = Math.round(latencyMs * 0.4);
+      await this.sleep(timeToFirstTokenMs, options.signal);
+      const half = Math.ceil(content.length / 2);
+      options.onPartialOutput?.(content.slice(0, half));
+      await this.sleep(latencyMs - timeToFirstTokenMs, options.signal);
+      options.onPartialOutput?.(content);
+      timing = {
+        timeToFirstTokenMs,
+        generationMs: latencyMs - timeToFirstTokenMs,
+      };
+    } else if (latencyMs > 0) {
+      await this.sleep(latencyMs, options.signal);
+    }
+
+    const id = `mock-${metadata.runId}-${metadata.stepIndex}`;
+    const toolCalls = request.tools ? toToolCalls(content, request.tools, id) : [];
+    if (toolCalls.length > 0) {
+      content = "";
+    }
+
+    const usage = {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+      cost:
+        promptTokens * PROMPT_PRICE + completionTokens * COMPLETION_PRICE,
+    };
+
+    return {
+      id,
+      model: request.model,
+      content,
+      reasoning: null,
+      toolCalls,
+      finishReason: toolCalls.length > 0 ? "tool_calls" : "stop",
+      usage: {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+        cost: usage.cost,
+      },
+      latencyMs,
+      ...timing,
+      raw: {
+        id,
+        model: request.model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: toolCalls.length > 0 ? null : content,
+              ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+            },
+            finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
+          },
+        ],
+        usage,
+      },
+    };
+  }
+
+  /**
+   * Produce the next action and parse it as JSON
+   */
+  async chatCompletionWithSchema<T>(
+    request: Omit<ChatCompletionRequest, "response_format"> & {
+      jsonSchema: {
+        name: string;
+        strict: boolean;
+        schema: Record<string, unknown>;
+      };
+    },
+    options: ChatCompletionOptions = {},
+  ): Promise<ChatCompletionResult & { parsed: T | null }> {
+    const { jsonSchema, ...rest } = request;
+    const result = await this.chatCompletion(
+      {
+        ...rest,
+        response_format: { type: "json_schema", json_schema: jsonSchema },
+      },
+      options,
+    );
+
+    let parsed: T | null = null;
+    try {
+      parsed = JSON.parse(result.content) as T;
+    } catch {
+      // Scripted replies may be malformed on purpose
+    }
+
+    return { ...result, parsed };
+  }
+
+  /**
+   * Mock replies never fail transiently, so there is nothing to retry
+   */
+  async chatCompletionWithRetry(
+    request: ChatCompletionRequest,
+    options: RetryOptions = {},
+  ): Promise<ChatCompletionResult> {
+    const {
+      maxRetries,
+      baseDelayMs,
+      maxDelayMs,
+      schedule,
+      onRetry,
+      ...requestOptions
+    } = options;
+    const attempt = () => this.chatCompletion(request, requestOptions);
+    return schedule ? schedule(attempt) : attempt();
+  }
+
+  /**
+   * List the available mock strategies
+   */
+  async getModels(): Promise<ModelInfo[]> {
+    const pricing = {
+      prompt: String(PROMPT_PRICE),
+      completion: String(COMPLETION_PRICE),
+    };
+    return [
+      { id: "mock/oracle", name: "Mock oracle (always correct)", pricing },
+      { id: "mock/random", name: "Mock random player", pricing },
+      { id: SCRIPTED_MODEL_ENTRY, name: "Mock scripted replay", pricing },
+    ];
+  }
+
+  /**
+   * Look up the scripted reply for a step and repair attempt (give up once
+   * the script runs out)
+   */
+  private async scriptedReply(
+    file: string,
+    puzzle: MockPuzzle,
+    stepIndex: number,
+    attempt: number,
+  ): Promise<string> {
+    const script = await this.loadScript(file);
+    const entries = Array.isArray(script)
+      ? script
+      : (script[puzzle.id] ?? script["*"] ?? []);
+    const entry = entries[stepIndex];
+    const reply =
+      (Array.isArray(entry) ? entry[attempt] : entry) ?? giveUpAction(puzzle);
+
+    return typeof reply === "string" ? reply : JSON.stringify(reply);
+  }
+
+  /**
+   * Load (and cache) a script file
+   */
+  private loadScript(file: string): Promise<MockScript> {
+    let script = this.scripts.get(file);
+    if (!script) {
+      script = (async () => {
+        const scriptFile = Bun.file(resolve(file));
+        if (!(await scriptFile.exists())) {
+          throw new ProviderError(`Mock script not found: ${file}`, 400);
+        }
+        return (await scriptFile.json()) as MockScript;
+      })();
+      this.scripts.set(file, script);
+    }
+    return script;
+  }
+
+  /**
+   * Sleep for a given duration, waking early if the signal aborts
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(resolve, ms);
+      signal?.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timeoutId);
+          reject(new ProviderError("Request aborted", 0));
+        },
+        { once: true },
+      );
+    });
+  }
+}
+
+// ========================================
+// Strategies
+// ========================================
+
+/**
+ * ID of the model list entry describing a model: scripted mock models share
+ * one entry, whatever their script file; other IDs are their own entry
+ */
+export function getModelListId(modelId: string): string {
+  return modelId.startsWith(`${MOCK_MODEL_PREFIX}scripted:`)
+    ? SCRIPTED_MODEL_ENTRY
+    : modelId;
+}
+
+/**
+ * Parse a mock model ID into its strategy
+ */
+function parseMockModel(modelId: string): MockStrategy {
+  const name = modelId.startsWith(MOCK_MODEL_PREFIX)
+    ? modelId.slice(MOCK_MODEL_PREFIX.length)
+    : modelId;
+
+  if (name === "oracle") return { kind: "oracle" };
+  if (name === "random") return { kind: "random" };
+  if (name.startsWith("scripted:") && name.length > "scripted:".length) {
+    return { kind: "scripted", file: name.slice("scripted:".length) };
+  }
+
+  throw new ProviderError(
+    `Unknown mock model "${modelId}". Use mock/oracle, mock/random or mock/scripted:<file>.`,
+    400,
+  );
+}
+
+function giveUpAction(puzzle: MockPuzzle): ConnectionsAction | CrosswordAction {
+  return "words" in puzzle
+    ? { task: "connections", action: "give_up" }
+    : { task: "crossword", action: "give_up" };
+}
+
+/**
+ * Solve one group (or entry) per step, then submit
+ */
+function oracleAction(
+  puzzle: MockPuzzle,
+  stepIndex: number,
+): ConnectionsAction | CrosswordAction {
+  if ("words" in puzzle) {
+    const group = puzzle.groups[stepIndex];
+    return group
+      ? { task: "connections", action: "submit_group", words: group.words }
+      : giveUpAction(puzzle);
+  }
+
+  const entries = oracleEntries(puzzle);
+  const entry = entries[stepIndex];
+  if (!entry) {
+    return { task: "crossword", action: "submit_puzzle" };
+  }
+
+  return {
+    task: "crossword",
+    action: "fill_entry",
+    direction: entry.direction,
+    number: entry.clue.number,
+    answer: joinSquares(
+      entry.clue.cells.map((cell) => puzzle.solution.grid[cell] ?? ""),
+    ),
+  };
+}
+
+/**
+ * All across entries, plus the down entries covering cells no across entry does
+ */
+function oracleEntries(puzzle: CrosswordPuzzle) {
+  const covered = new Set(puzzle.clues.across.flatMap((clue) => clue.cells));
+  return [
+    ...puzzle.clues.across.map((clue) => ({
+      direction: "across" as const,
+      clue,
+    })),
+    ...puzzle.clues.down
+      .filter((clue) => clue.cells.some((cell) => !covered.has(cell)))
+      .map((clue) => ({ direction: "down" as const, clue })),
+  ];
+}
+
+/**
+ * Guess four random words, or fill a random entry with random letters
+ */
+function randomAction(
+  puzzle: MockPuzzle,
+  random: () => number,
+): ConnectionsAction | CrosswordAction {
+  if ("words" in puzzle) {
+    const pool = [...puzzle.words];
+    const words: string[] = [];
+    while (words.length < 4 && pool.length > 0) {
+      words.push(pool.splice(Math.floor(random() * pool.length), 1)[0]!);
+    }
+    return { task: "connections", action: "submit_group", words };
+  }
+
+  const clues = [
+    ...puzzle.clues.across.map((clue) => ({
+      direction: "across" as const,
+      clue,
+    })),
+    ...puzzle.clues.down.map((clue) => ({ direction: "down" as const, clue })),
+  ];
+  const entry = clues[Math.floor(random() * clues.length)];
+  if (!entry || random() < 0.05) {
+    return { task: "crossword", action: "submit_puzzle" };
+  }
+
+  let answer = "";
+  for (let i = 0; i < entry.clue.length; i++) {
+    answer += String.fromCharCode(65 + Math.floor(random() * 26));
+  }
+
+  return {
+    task: "crossword",
+    action: "fill_entry",
+    direction: entry.direction,
+    number: entry.clue.number,
+    answer,
+  };
+}
+
+// ========================================
+// Tool Calls
+// ========================================
+
+/**
+ * Turn an action reply into a call of the offered tool named after the
+ * action. Replies that are not such an action (malformed scripted output)
+ * stay plain text.
+ */
+function toToolCalls(
+  content: string,
+  tools: ToolDefinition[],
+  id: string,
+): ToolCall[] {
+  let reply: unknown;
+  try {
+    reply = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  const { task: _task, action, ...args } = (reply ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (!tools.some((tool) => tool.function.name === action)) {
+    return [];
+  }
+
+  return [
+    {
+      id: `${id}-call`,
+      type: "function",
+      function: { name: action as string, arguments: JSON.stringify(args) },
+    },
+  ];
+}
+
+// ========================================
+// Factory function
+// ========================================
+
+export function createMockProvider(config?: MockProviderConfig): MockProvider {
+  return new MockProvider(config);
+}
@@ -0,0 +1,224 @@
+import { describe, test, expect, afterEach } from "bun:test";
+
+import { OpenAICompatibleClient } from "./openai-compatible";
+import { ProviderError, type ChatCompletionRequest } from "./types";
+
+const request: ChatCompletionRequest = {
+  model: "local/model",
+  messages: [{ role: "user", content: "Hello" }],
+};
+
+function completion(content: string) {
+  return {
+    id: "cmpl-1",
+    model: "local/model",
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content },
+        finish_reason: "stop",
+      },
+    ],
+    usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+  };
+}
+
+/**
+ * Local stand-in for an OpenAI-compatible server: answers each request with
+ * the next queued reply and records what it received
+ */
+function startStandIn(replies: Array<() => Response>) {
+  const received: Array<{ headers: Headers; body: any }> = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      received.push({ headers: req.headers, body: await req.json() });
+      const reply = replies.shift();
+      return reply ? reply() : new Response("no reply queued", { status: 500 });
+    },
+  });
+  return { server, received };
+}
+
+describe("OpenAICompatibleClient", () => {
+  let standIn: ReturnType<typeof startStandIn>;
+  let client: OpenAICompatibleClient;
+
+  function serve(...replies: Array<() => Response>) {
+    standIn = startStandIn(replies);
+    client = new OpenAICompatibleClient({
+      baseUrl: `http://localhost:${standIn.server.port}/v1/`,
+      apiKey: "local-key",
+      name: "local",
+      headers: { "X-Test": "1" },
+    });
+  }
+
+  afterEach(() => {
+    standIn.server.stop(true);
+  });
+
+  test("sends the request body and headers and reads the reply", async () => {
+    serve(() => Response.json(completion("Hi there")));
+
+    const result = await client.chatCompletion({
+      ...request,
+      temperature: 0.5,
+      reasoning: { effort: "low" },
+    });
+
+    expect(result.content).toBe("Hi there");
+    expect(result.usage).toEqual({
+      promptTokens: 5,
+      completionTokens: 2,
+      totalTokens: 7,
+      cost: null,
+    });
+
+    const { headers, body } = standIn.received[0]!;
+    expect(headers.get("authorization")).toBe("Bearer local-key");
+    expect(headers.get("x-test")).toBe("1");
+    expect(body).toEqual({
+      model: "local/model",
+      messages: request.messages,
+      temperature: 0.5,
+      max_tokens: 1024,
+      stream: false,
+      reasoning_effort: "low",
+    });
+  });
+
+  test("waits as long as Retry-After asks, then retries", async () => {
+    const throttled = () =>
+      Response.json(
+        { error: { message: "Slow down" } },
+        { status: 429, headers: { "Retry-After": "0" } },
+      );
+    serve(throttled, () => Response.json(completion("Done")));
+
+    const retries: Array<{ attempt: number; delayMs: number }> = [];
+    const result = await client.chatCompletionWithRetry(request, {
+      onRetry: ({ attempt, delayMs }) => retries.push({ attempt, delayMs }),
+    });
+
+    expect(result.content).toBe("Done");
+    expect(retries).toEqual([{ attempt: 1, delayMs: 0 }]);
+    expect(standIn.received).toHaveLength(2);
+  });
+
+  test("assembles a streamed reply from split SSE chunks", async () => {
+    const toolCallDelta = (call: Record<string, unknown>) => ({
+      delta: { tool_calls: [{ index: 0, ...call }] },
+    });
+    const events = [
+      {
+        id: "cmpl-2",
+        model: "local/model",
+        choices: [{ index: 0, delta: { role: "assistant" } }],
+      },
+      {
+        choices: [
+          toolCallDelta({
+            id: "call-1",
+            function: { name: "submit_group", arguments: '{"words":' },
+          }),
+        ],
+      },
+      {
+        choices: [
+          {
+            ...toolCallDelta({ function: { arguments: '["A"]}' } }),
+            finish_reason: "tool_calls",
+          },
+        ],
+      },
+      {
+        choices: [],
+        usage: { prompt_tokens: 9, completion_tokens: 4, total_tokens: 13 },
+      },
+    ];
+    const text = events
+      .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+      .join("");
+    // Cut mid-line, and leave the last event without its trailing newlines
+    const parts = [
+      text.slice(0, 40),
+      text.slice(40, 200),
+      text.slice(200).trimEnd(),
+    ];
+    serve(
+      () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              for (const part of parts) {
+                controller.enqueue(new TextEncoder().encode(part));
+              }
+              controller.close();
+            },
+          }),
+          { headers: { "Content-Type": "text/event-stream" } },
+        ),
+    );
+
+    const outputs: string[] = [];
+    const result = await client.chatCompletion(request, {
+      stream: true,
+      onPartialOutput: (output) => outputs.push(output),
+    });
+
+    expect(standIn.received[0]!.body).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(result.toolCalls).toEqual([
+      {
+        id: "call-1",
+        type: "function",
+        function: { name: "submit_group", arguments: '{"words":["A"]}' },
+      },
+    ]);
+    expect(result.finishReason).toBe("tool_calls");
+    expect(result.usage?.totalTokens).toBe(13);
+    expect(result.timeToFirstTokenMs).toBeGreaterThanOrEqual(0);
+    expect(outputs.at(-1)).toBe('{"words":["A"]}');
+  });
+
+  test("turns an error chunk in a stream into a provider error", async () => {
+    serve(
+      () =>
+        new Response(
+          `data: ${JSON.stringify({ error: { message: "Overloaded", code: 503 } })}\n\n`,
+          { headers: { "Content-Type": "text/event-stream" } },
+        ),
+    );
+
+    const error = await client
+      .chatCompletion(request, { stream: true })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.message).toBe("local API error: Overloaded");
+    expect(error.statusCode).toBe(503);
+  });
+
+  test("maps error replies to provider errors", async () => {
+    serve(
+      () =>
+        new Response("<html>Bad gateway</html>", {
+          status: 502,
+          statusText: "Bad Gateway",
+          headers: { "Retry-After": "2" },
+        }),
+    );
+
+    const error = await client.chatCompletion(request).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.message).toBe("local API error: 502 Bad Gateway");
+    expect(error.statusCode).toBe(502);
+    expect(error.responseBody).toBe("<html>Bad gateway</html>");
+    expect(error.retryAfterMs).toBe(2000);
+    expect(OpenAICompatibleClient.isRetryableError(error)).toBe(true);
+  });
+});
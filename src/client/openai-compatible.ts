@@ -0,0 +1,576 @@
+import pino from "pino";
+
+import { ResponseCache } from "./cache";
+import {
+  ProviderError,
+  type ChatCompletionChunk,
+  type ChatCompletionOptions,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type ChatCompletionResult,
+  type ModelInfo,
+  type ModelProvider,
+  type ProviderUsage,
+  type RetryOptions,
+  type ToolCall,
+} from "./types";
+
+// ========================================
+// Types
+// ========================================
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  name?: string;
+  defaultTemperature?: number;
+  defaultMaxTokens?: number;
+  defaultTopP?: number;
+  headers?: Record<string, string>;
+  cache?: ResponseCache; // replies served from and stored in a local cache
+}
+
+// ========================================
+// OpenAI-Compatible Client
+// ========================================
+
+const logger = pino({ name: "openai-compatible-client" }, pino.destination(2));
+
+/**
+ * Client for any server exposing the OpenAI chat completions API
+ * (vLLM, llama.cpp, Ollama, direct provider endpoints, ...)
+ */
+export class OpenAICompatibleClient implements ModelProvider {
+  readonly name: string;
+  protected config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    if (!config.baseUrl) {
+      throw new Error("Provider base URL is required");
+    }
+
+    this.config = {
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, ""),
+    };
+    this.name = config.name ?? "openai-compatible";
+  }
+
+  /**
+   * Make a chat completion request with structured output
+   */
+  async chatCompletion(
+    request: ChatCompletionRequest,
+    options: ChatCompletionOptions = {},
+  ): Promise<ChatCompletionResult> {
+    const body = this.buildRequestBody(request);
+    const { cache } = this.config;
+    const cacheKey = cache ? ResponseCache.key(this.name, body) : null;
+    if (cache && cacheKey) {
+      const cached = await cache.get(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const startTime = performance.now();
+
+    const { timeoutMs = 60000, signal, stream = false } = options;
+
+    // Create timeout abort controller
+    const timeoutController = new AbortController();
+    const timeoutId = setTimeout(() => timeoutController.abort(), timeoutMs);
+
+    // Combine signals if external signal provided
+    const combinedSignal = signal
+      ? this.combineAbortSignals(signal, timeoutController.signal)
+      : timeoutController.signal;
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: this.buildHeaders(),
+        body: JSON.stringify(
+          stream
+            ? { ...body, stream: true, stream_options: { include_usage: true } }
+            : body,
+        ),
+        signal: combinedSignal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorMessage = `${this.name} API error: ${response.status} ${response.statusText}`;
+
+        try {
+          const errorJson = JSON.parse(errorText);
+          if (errorJson.error?.message) {
+            errorMessage = `${this.name} API error: ${errorJson.error.message}`;
+          }
+        } catch {
+          // Use original error message
+        }
+
+        throw new ProviderError(
+          errorMessage,
+          response.status,
+          errorText,
+          parseRetryAfter(response.headers),
+        );
+      }
+
+      const streamed = stream
+        ? await this.readStream(response, options.onPartialOutput)
+        : null;
+      const data =
+        streamed?.data ?? ((await response.json()) as ChatCompletionResponse);
+      const endTime = performance.now();
+      const latencyMs = endTime - startTime;
+
+      // Extract usage info
+      let usage: ProviderUsage | null = null;
+      if (data.usage) {
+        usage = {
+          promptTokens: data.usage.prompt_tokens,
+          completionTokens: data.usage.completion_tokens,
+          totalTokens: data.usage.total_tokens,
+          cost: data.usage.cost ?? null,
+        };
+
+        const reasoningTokens =
+          data.usage.completion_tokens_details?.reasoning_tokens;
+        if (reasoningTokens !== undefined) {
+          usage.reasoningTokens = reasoningTokens;
+        }
+      }
+
+      const choice = data.choices?.[0];
+      if (!choice) {
+        throw new ProviderError(`No choices returned from ${this.name}`, 0);
+      }
+
+      const result: ChatCompletionResult = {
+        id: data.id,
+        model: data.model,
+        content: choice.message.content ?? "",
+        reasoning:
+          choice.message.reasoning ?? choice.message.reasoning_content ?? null,
+        toolCalls: choice.message.tool_calls ?? [],
+        finishReason: choice.finish_reason,
+        usage,
+        latencyMs,
+        ...(streamed?.firstTokenAt != null && {
+          timeToFirstTokenMs: streamed.firstTokenAt - startTime,
+          generationMs: endTime - streamed.firstTokenAt,
+        }),
+        raw: data,
+      };
+
+      if (cache && cacheKey) {
+        await cache.set(cacheKey, result);
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error;
+      }
+
+      if (error instanceof Error) {
+        if (error.name === "AbortError") {
+          throw new ProviderError(
+            `Request timed out after ${timeoutMs}ms`,
+            408,
+          );
+        }
+        throw new ProviderError(error.message, 0);
+      }
+
+      throw new ProviderError("Unknown error occurred", 0);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Read a server-sent event stream and assemble it into one response,
+   * noting when the first output token arrived
+   */
+  private async readStream(
+    response: Response,
+    onPartialOutput?: (text: string) => void,
+  ): Promise<{ data: ChatCompletionResponse; firstTokenAt: number | null }> {
+    if (!response.body) {
+      throw new ProviderError(`Empty stream from ${this.name}`, 0);
+    }
+
+    let id = "";
+    let model = "";
+    let content = "";
+    let reasoning = "";
+    let finishReason = "";
+    let usage: ChatCompletionResponse["usage"];
+    const toolCalls: ToolCall[] = [];
+    let firstTokenAt: number | null = null;
+
+    const handleChunk = (chunk: ChatCompletionChunk) => {
+      if (chunk.error) {
+        throw new ProviderError(
+          `${this.name} API error: ${chunk.error.message}`,
+          chunk.error.code ?? 0,
+        );
+      }
+
+      id ||= chunk.id;
+      model ||= chunk.model;
+      usage = chunk.usage ?? usage;
+
+      const choice = chunk.choices?.[0];
+      if (!choice) {
+        return;
+      }
+      finishReason = choice.finish_reason ?? finishReason;
+
+      const { delta } = choice;
+      const reasoningDelta = delta.reasoning ?? delta.reasoning_content;
+      reasoning += reasoningDelta ?? "";
+      content += delta.content ?? "";
+      for (const call of delta.tool_calls ?? []) {
+        const toolCall = (toolCalls[call.index] ??= {
+          id: "",
+          type: "function",
+          function: { name: "", arguments: "" },
+        });
+        toolCall.id ||= call.id ?? "";
+        toolCall.function.name += call.function?.name ?? "";
+        toolCall.function.arguments += call.function?.arguments ?? "";
+      }
+
+      const output = delta.content || delta.tool_calls?.length;
+      if (firstTokenAt === null && (output || reasoningDelta)) {
+        firstTokenAt = performance.now();
+      }
+      if (output && onPartialOutput) {
+        onPartialOutput(
+          content ||
+            toolCalls.map((call) => call.function.arguments).join("\n"),
+        );
+      }
+    };
+
+    const handleLine = (line: string) => {
+      // Skip blank lines, SSE comments (keep-alives) and the end marker
+      if (!line.startsWith("data:")) {
+        return;
+      }
+      const payload = line.slice(5).trim();
+      if (payload !== "[DONE]") {
+        handleChunk(JSON.parse(payload) as ChatCompletionChunk);
+      }
+    };
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        handleLine(buffer.slice(0, newline).trim());
+        buffer = buffer.slice(newline + 1);
+      }
+
+      if (done) {
+        break;
+      }
+    }
+
+    // The last event may end without a newline
+    handleLine(buffer.trim());
+
+    return {
+      data: {
+        id,
+        model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: toolCalls.length > 0 && !content ? null : content,
+              ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+              ...(reasoning && { reasoning }),
+            },
+            finish_reason: finishReason,
+          },
+        ],
+        usage,
+      },
+      firstTokenAt,
+    };
+  }
+
+  /**
+   * Make a chat completion request with structured JSON output
+   */
+  async chatCompletionWithSchema<T>(
+    request: Omit<ChatCompletionRequest, "response_format"> & {
+      jsonSchema: {
+        name: string;
+        strict: boolean;
+        schema: Record<string, unknown>;
+      };
+    },
+    options: ChatCompletionOptions = {},
+  ): Promise<ChatCompletionResult & { parsed: T | null }> {
+    const { jsonSchema, ...rest } = request;
+    const result = await this.chatCompletion(
+      {
+        ...rest,
+        response_format: {
+          type: "json_schema",
+          json_schema: jsonSchema,
+        },
+      },
+      options,
+    );
+
+    // Try to parse the JSON response
+    let parsed: T | null = null;
+    try {
+      parsed = JSON.parse(result.content) as T;
+    } catch (error) {
+      logger.warn(
+        { provider: this.name, content: result.content, error },
+        "Failed to parse JSON response",
+      );
+    }
+
+    return {
+      ...result,
+      parsed,
+    };
+  }
+
+  /**
+   * Check if an error is retryable
+   */
+  static isRetryableError(error: unknown): boolean {
+    if (error instanceof ProviderError) {
+      // Retry on rate limit, server errors, or timeouts
+      return (
+        error.statusCode === 429 ||
+        error.statusCode === 408 ||
+        (error.statusCode >= 500 && error.statusCode < 600)
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Retry a request with exponential backoff
+   */
+  async chatCompletionWithRetry(
+    request: ChatCompletionRequest,
+    options: RetryOptions = {},
+  ): Promise<ChatCompletionResult> {
+    const {
+      maxRetries = 3,
+      baseDelayMs = 1000,
+      maxDelayMs = 30000,
+      schedule = (run) => run(),
+      onRetry,
+      ...requestOptions
+    } = options;
+
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        return await schedule(() =>
+          this.chatCompletion(request, requestOptions),
+        );
+      } catch (error) {
+        lastError = error as Error;
+
+        if (
+          !OpenAICompatibleClient.isRetryableError(error) ||
+          attempt === maxRetries
+        ) {
+          throw error;
+        }
+
+        // Wait as long as the provider asked, or back off exponentially
+        // with jitter
+        const retryAfterMs = (error as ProviderError).retryAfterMs;
+        const delay = Math.min(
+          retryAfterMs ??
+            baseDelayMs * Math.pow(2, attempt) + Math.random() * 1000,
+          maxDelayMs,
+        );
+
+        logger.info(
+          { provider: this.name, attempt: attempt + 1, maxRetries, delayMs: delay },
+          "Retrying request",
+        );
+        onRetry?.({ attempt: attempt + 1, delayMs: delay, error });
+
+        await this.sleep(delay);
+      }
+    }
+
+    throw lastError || new Error("Max retries exceeded");
+  }
+
+  /**
+   * Get the models served by this endpoint
+   */
+  async getModels(): Promise<ModelInfo[]> {
+    const response = await fetch(`${this.config.baseUrl}/models`, {
+      headers: this.buildHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new ProviderError(
+        `Failed to fetch models: ${response.status}`,
+        response.status,
+      );
+    }
+
+    const data = (await response.json()) as {
+      data: Array<Partial<ModelInfo> & { id: string }>;
+    };
+    return data.data.map((model) => ({
+      ...model,
+      name: model.name ?? model.id,
+    }));
+  }
+
+  /**
+   * Build the JSON request body sent to /chat/completions
+   */
+  protected buildRequestBody(
+    request: ChatCompletionRequest,
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature ?? this.config.defaultTemperature ?? 0,
+      max_tokens: request.max_tokens ?? this.config.defaultMaxTokens ?? 1024,
+      stream: false,
+    };
+
+    if (request.top_p !== undefined || this.config.defaultTopP !== undefined) {
+      body.top_p = request.top_p ?? this.config.defaultTopP;
+    }
+
+    if (request.response_format) {
+      body.response_format = request.response_format;
+    }
+
+    if (request.tools) {
+      body.tools = request.tools;
+      if (request.tool_choice !== undefined) {
+        body.tool_choice = request.tool_choice;
+      }
+      if (request.parallel_tool_calls !== undefined) {
+        body.parallel_tool_calls = request.parallel_tool_calls;
+      }
+    }
+
+    // OpenAI-style servers only take an effort level
+    if (request.reasoning?.effort) {
+      body.reasoning_effort = request.reasoning.effort;
+    }
+
+    return body;
+  }
+
+  /**
+   * Build the HTTP headers sent with every request
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.config.headers,
+    };
+
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Combine multiple abort signals
+   */
+  private combineAbortSignals(...signals: AbortSignal[]): AbortSignal {
+    const controller = new AbortController();
+
+    for (const signal of signals) {
+      if (signal.aborted) {
+        controller.abort();
+        break;
+      }
+
+      signal.addEventListener("abort", () => controller.abort(), {
+        once: true,
+      });
+    }
+
+    return controller.signal;
+  }
+
+  /**
+   * Sleep for a given duration
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * How long a throttled client should wait, from the standard Retry-After
+ * header (seconds or an HTTP date) or the X-RateLimit-Reset header some
+ * providers send instead (epoch milliseconds, epoch seconds or seconds)
+ */
+function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const reset = Number(headers.get("x-ratelimit-reset") ?? NaN);
+  if (Number.isFinite(reset) && reset > 0) {
+    if (reset < 1e9) {
+      return reset * 1000; // seconds from now
+    }
+    const resetMs = reset > 1e12 ? reset : reset * 1000;
+    return Math.max(0, resetMs - Date.now());
+  }
+
+  return undefined;
+}
+
+// ========================================
+// Factory function
+// ========================================
+
+export function createOpenAICompatibleClient(
+  config: OpenAICompatibleConfig,
+): OpenAICompatibleClient {
+  return new OpenAICompatibleClient(config);
+}
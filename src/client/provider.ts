@@ -0,0 +1,133 @@
+import type {
+  ProviderSettings,
+  ReasoningSettings,
+  SuiteConfig,
+} from "../schemas/config";
+import { createResponseCache } from "./cache";
+import { MOCK_MODEL_PREFIX, createMockProvider, type MockPuzzle } from "./mock";
+import { createOpenAICompatibleClient } from "./openai-compatible";
+import { createOpenRouterClient } from "./openrouter";
+import type { ModelProvider } from "./types";
+
+// ========================================
+// Constants
+// ========================================
+
+/** Provider used for models without an entry in modelProviders */
+export const DEFAULT_PROVIDER = "openrouter";
+
+/** Built-in offline provider, used by default for mock/* model IDs */
+export const MOCK_PROVIDER = "mock";
+
+// ========================================
+// Provider Resolution
+// ========================================
+
+/**
+ * Name of the provider serving a model in the given suite
+ */
+export function getProviderName(config: SuiteConfig, modelId: string): string {
+  const providerName = config.modelProviders?.[modelId];
+  if (providerName) {
+    return providerName;
+  }
+  return modelId.startsWith(MOCK_MODEL_PREFIX) ? MOCK_PROVIDER : DEFAULT_PROVIDER;
+}
+
+/**
+ * Look up the settings for a named provider. The built-in "openrouter" and
+ * "mock" providers need no entry in the suite's providers map.
+ */
+export function getProviderSettings(
+  config: SuiteConfig,
+  providerName: string,
+): ProviderSettings {
+  const settings = config.providers?.[providerName];
+  if (settings) {
+    return settings;
+  }
+
+  if (providerName === DEFAULT_PROVIDER) {
+    return { type: "openrouter" };
+  }
+
+  if (providerName === MOCK_PROVIDER) {
+    return { type: "mock" };
+  }
+
+  throw new Error(
+    `Unknown provider "${providerName}". Define it under "providers" in the suite config.`,
+  );
+}
+
+/**
+ * Reasoning settings for a model: the suite-wide openRouter.reasoning
+ * defaults, overridden field by field by perModelReasoning[modelId]
+ */
+export function getReasoningSettings(
+  config: SuiteConfig,
+  modelId: string,
+): ReasoningSettings | undefined {
+  const settings = {
+    ...config.openRouter.reasoning,
+    ...config.perModelReasoning?.[modelId],
+  };
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/**
+ * Create the provider client that serves a model in the given suite.
+ * The provider name defaults to getProviderName(); the puzzles are only used
+ * by the mock provider.
+ */
+export function createModelProvider(
+  config: SuiteConfig,
+  modelId: string,
+  options: { puzzles?: MockPuzzle[]; providerName?: string } = {},
+): ModelProvider {
+  const providerName =
+    options.providerName ?? getProviderName(config, modelId);
+  const settings = getProviderSettings(config, providerName);
+  const apiKey = settings.apiKeyEnv
+    ? process.env[settings.apiKeyEnv]
+    : undefined;
+
+  const cache = createResponseCache(config.cache);
+  const defaults = {
+    defaultTemperature: config.openRouter.temperature,
+    defaultMaxTokens: config.openRouter.maxTokens,
+    defaultTopP: config.openRouter.topP,
+    cache,
+  };
+
+  switch (settings.type) {
+    case "openrouter":
+      return createOpenRouterClient({
+        ...defaults,
+        // Replays never reach the API, so they need no real key
+        ...(cache?.mode === "replay-only" && { apiKey: "replay-only" }),
+        ...(apiKey && { apiKey }),
+        ...(settings.baseUrl && { baseUrl: settings.baseUrl }),
+        headers: settings.headers,
+        includeUsage: config.openRouter.includeUsage,
+      });
+
+    case "openai-compatible":
+      if (!settings.baseUrl) {
+        throw new Error(`Provider "${providerName}" requires a baseUrl`);
+      }
+      return createOpenAICompatibleClient({
+        ...defaults,
+        name: providerName,
+        baseUrl: settings.baseUrl,
+        apiKey,
+        headers: settings.headers,
+      });
+
+    case "mock":
+      return createMockProvider({
+        puzzles: options.puzzles,
+        latencyMs: settings.latencyMs,
+      });
+  }
+}
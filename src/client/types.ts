@@ -0,0 +1,230 @@
+import type { ReasoningSettings } from "../schemas/config";
+
+export type { ReasoningSettings };
+
+// ========================================
+// Chat Completion Types
+// ========================================
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  response_format?: {
+    type: "json_schema";
+    json_schema: {
+      name: string;
+      strict: boolean;
+      schema: Record<string, unknown>;
+    };
+  };
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+  parallel_tool_calls?: boolean;
+  stream?: boolean;
+  reasoning?: ReasoningSettings;
+  // Run context for local providers (never sent over the wire)
+  metadata?: RequestMetadata;
+}
+
+/**
+ * A function the model can call instead of replying with text
+ */
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>; // JSON schema of the arguments
+    strict?: boolean;
+  };
+}
+
+export type ToolChoice =
+  | "auto"
+  | "none"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string; // JSON-encoded, as produced by the model
+  };
+}
+
+export interface RequestMetadata {
+  runId: string;
+  puzzleId: string;
+  repeatIndex: number;
+  stepIndex: number;
+  attempt?: number; // repair attempt within the step (0 = first request)
+}
+
+export interface ChatCompletionResponse {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: "assistant";
+      content: string | null; // null when the model only called tools
+      tool_calls?: ToolCall[];
+      reasoning?: string | null; // OpenRouter
+      reasoning_content?: string | null; // vLLM, DeepSeek and others
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    cost?: number;
+    completion_tokens_details?: {
+      reasoning_tokens?: number;
+    };
+  };
+}
+
+/**
+ * One server-sent event of a streamed chat completion
+ */
+export interface ChatCompletionChunk {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      content?: string | null;
+      reasoning?: string | null;
+      reasoning_content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: "function";
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionResponse["usage"];
+  error?: { message: string; code?: number }; // mid-stream failure
+}
+
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  reasoningTokens?: number; // part of completionTokens, when reported
+  cost: number | null;
+}
+
+export interface ChatCompletionResult {
+  id: string;
+  model: string;
+  content: string;
+  reasoning: string | null; // reasoning text returned by the model, if any
+  toolCalls: ToolCall[]; // empty unless the request offered tools
+  finishReason: string;
+  usage: ProviderUsage | null;
+  latencyMs: number;
+  // Streamed replies only: request start to the first output token, and
+  // first token to the end of the stream
+  timeToFirstTokenMs?: number;
+  generationMs?: number;
+  raw: ChatCompletionResponse; // streamed replies are assembled into one
+}
+
+export interface ChatCompletionOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  stream?: boolean; // receive the reply as server-sent events
+  // Streamed replies: called with the output received so far (content, or
+  // tool call arguments)
+  onPartialOutput?: (text: string) => void;
+}
+
+export interface RetryOptions extends ChatCompletionOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Runs each attempt, e.g. through a concurrency limiter. Retries wait for
+  // their backoff outside of it.
+  schedule?: <T>(attempt: () => Promise<T>) => Promise<T>;
+  // Called before waiting to retry a failed attempt (attempt counts from 1)
+  onRetry?: (retry: {
+    attempt: number;
+    delayMs: number;
+    error: unknown;
+  }) => void;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  context_length?: number;
+  pricing?: {
+    prompt: string;
+    completion: string;
+  };
+}
+
+// ========================================
+// Provider Interface
+// ========================================
+
+/**
+ * A backend that serves chat completions for one or more models
+ */
+export interface ModelProvider {
+  /** Human-readable provider name, used in logs and error messages */
+  readonly name: string;
+
+  chatCompletion(
+    request: ChatCompletionRequest,
+    options?: ChatCompletionOptions,
+  ): Promise<ChatCompletionResult>;
+
+  chatCompletionWithSchema<T>(
+    request: Omit<ChatCompletionRequest, "response_format"> & {
+      jsonSchema: {
+        name: string;
+        strict: boolean;
+        schema: Record<string, unknown>;
+      };
+    },
+    options?: ChatCompletionOptions,
+  ): Promise<ChatCompletionResult & { parsed: T | null }>;
+
+  chatCompletionWithRetry(
+    request: ChatCompletionRequest,
+    options?: RetryOptions,
+  ): Promise<ChatCompletionResult>;
+
+  getModels(): Promise<ModelInfo[]>;
+}
+
+// ========================================
+// Error Class
+// ========================================
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly responseBody?: string,
+    public readonly retryAfterMs?: number, // from Retry-After or rate-limit headers
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
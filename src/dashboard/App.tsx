@@ -9,6 +9,8 @@ import {
   type RunEvent,
 } from "./types.js";
 import { ConcurrentRunner } from "../runner/concurrent-runner.js";
+import { resolveContestants } from "../runner/contestants.js";
+import { countCompletedByModel, type ResumeState } from "../runner/resume.js";
 import type { SuiteConfig } from "../schemas/config.js";
 import type { ConnectionsPuzzle, CrosswordPuzzle } from "../schemas/puzzles.js";
 
@@ -66,21 +68,32 @@ export interface DashboardOptions {
   config: SuiteConfig;
   puzzles: (ConnectionsPuzzle | CrosswordPuzzle)[];
   runsDir?: string;
+  resume?: ResumeState;
+  onEvent?: (event: RunEvent) => void; // also receives every runner event
 }
 
 export async function runDashboard(options: DashboardOptions): Promise<any[]> {
-  const { config, puzzles, runsDir = "runs" } = options;
+  const { config, puzzles, runsDir = "runs", resume, onEvent } = options;
 
-  // Create initial state
+  // Create initial state (one worker per contestant)
+  const contestantKeys = resolveContestants(config).map((c) => c.key);
   const initialState = createInitialDashboardState(
     config.name,
-    config.models,
+    contestantKeys,
     puzzles.length,
     config.repeats,
+    resume
+      ? countCompletedByModel(
+          resume.completed,
+          contestantKeys,
+          puzzles.map((p) => p.id),
+          config.repeats,
+        )
+      : undefined,
   );
 
   // Create runner
-  const runner = new ConcurrentRunner(config, runsDir);
+  const runner = new ConcurrentRunner(config, runsDir, { resume, onEvent });
 
   // Track results
   let results: any[] = [];
@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from "react";
 import { Box, Text, Newline } from "ink";
 import Spinner from "ink-spinner";
-import type { DashboardState, WorkerState, RunEvent } from "./types.js";
+import type {
+  DashboardState,
+  WorkerState,
+  ActiveRunState,
+  RunEvent,
+} from "./types.js";
 
 // ========================================
 // Utility Functions
@@ -39,6 +44,11 @@ function truncateModelName(modelId: string, maxLength: number = 30): string {
   return modelId.slice(0, maxLength - 3) + "...";
 }
 
+function formatPartialOutput(text: string, maxLength: number = 70): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length <= maxLength ? line : "…" + line.slice(-(maxLength - 1));
+}
+
 function getStatusColor(status: string): string {
   switch (status) {
     case "running":
@@ -160,6 +170,11 @@ function GlobalStats({ state }: GlobalStatsProps) {
           <Box>
             <Text color="yellow">⏱ Timeout: {globalStats.timeoutCount}</Text>
           </Box>
+          {globalStats.budgetExceededCount > 0 && (
+            <Box>
+              <Text color="yellow">$ Over budget: {globalStats.budgetExceededCount}</Text>
+            </Box>
+          )}
         </Box>
         <Box flexDirection="column" width={26}>
           <Box>
@@ -228,45 +243,110 @@ function WorkerRow({ worker }: WorkerRowProps) {
       ? ((worker.successCount / worker.completedRuns) * 100).toFixed(0)
       : "-";
 
+  const activeCount = worker.activeRuns.length;
+  const singleRun = worker.activeRuns[0];
+
   return (
-    <Box flexDirection="row">
-      <Box width={32}>
-        <Text color={getStatusColor(worker.status)}>{statusIcon} </Text>
-        <Text color="white">{truncateModelName(worker.modelId, 28)}</Text>
-      </Box>
-      <Box width={12}>
-        <Text color="gray">
-          {worker.completedRuns}/{worker.totalRuns}
-        </Text>
-      </Box>
-      <Box width={10}>
-        <Text color="green">{worker.successCount}</Text>
-        <Text color="gray">/</Text>
-        <Text color="red">{worker.failCount}</Text>
-      </Box>
-      <Box width={10}>
-        <Text color="cyan">{successRate}%</Text>
-      </Box>
-      <Box width={12}>
-        <Text color="white">{formatNumber(worker.totalTokens)}</Text>
-      </Box>
-      <Box width={10}>
-        <Text color="magenta">{worker.tokensPerSecond.toFixed(0)}/s</Text>
-      </Box>
-      <Box width={10}>
-        <Text color="green">{formatCost(worker.totalCost)}</Text>
-      </Box>
-      <Box width={14}>
-        {worker.status === "running" && worker.currentPuzzle ? (
-          <Text color="yellow">
-            <Spinner type="dots" /> Step {worker.currentStep}
+    <Box flexDirection="column">
+      <Box flexDirection="row">
+        <Box width={32}>
+          <Text color={getStatusColor(worker.status)}>{statusIcon} </Text>
+          <Text color="white">{truncateModelName(worker.modelId, 28)}</Text>
+        </Box>
+        <Box width={12}>
+          <Text color="gray">
+            {worker.completedRuns}/{worker.totalRuns}
           </Text>
-        ) : worker.status === "completed" ? (
-          <Text color="green">Done</Text>
-        ) : (
-          <Text color="gray">-</Text>
-        )}
+        </Box>
+        <Box width={10}>
+          <Text color="green">{worker.successCount}</Text>
+          <Text color="gray">/</Text>
+          <Text color="red">{worker.failCount}</Text>
+        </Box>
+        <Box width={10}>
+          <Text color="cyan">{successRate}%</Text>
+        </Box>
+        <Box width={12}>
+          <Text color="white">{formatNumber(worker.totalTokens)}</Text>
+        </Box>
+        <Box width={10}>
+          <Text color="magenta">{worker.tokensPerSecond.toFixed(0)}/s</Text>
+        </Box>
+        <Box width={10}>
+          <Text color="green">{formatCost(worker.totalCost)}</Text>
+        </Box>
+        <Box width={10}>
+          {worker.concurrencyLimit !== null ? (
+            <Text
+              color={
+                worker.concurrencyLimit < (worker.maxConcurrency ?? 0)
+                  ? "yellow"
+                  : "gray"
+              }
+            >
+              {worker.concurrencyLimit}/{worker.maxConcurrency}
+              {worker.throttleCount > 0 && ` ⚠${worker.throttleCount}`}
+            </Text>
+          ) : (
+            <Text color="gray">-</Text>
+          )}
+        </Box>
+        <Box width={14}>
+          {activeCount === 1 && singleRun ? (
+            <Text color="yellow">
+              <Spinner type="dots" /> Step {singleRun.currentStep}
+            </Text>
+          ) : activeCount > 1 ? (
+            <Text color="yellow">
+              <Spinner type="dots" /> {activeCount} runs
+            </Text>
+          ) : worker.status === "completed" ? (
+            <Text color="green">Done</Text>
+          ) : (
+            <Text color="gray">-</Text>
+          )}
+        </Box>
       </Box>
+      {activeCount === 1 && singleRun?.partialOutput && (
+        <Box marginLeft={2}>
+          <Text color="gray">↳ {formatPartialOutput(singleRun.partialOutput)}</Text>
+        </Box>
+      )}
+      {activeCount > 1 && <ActiveRunsList runs={worker.activeRuns} />}
+    </Box>
+  );
+}
+
+// ========================================
+// Active Runs Component
+// ========================================
+
+interface ActiveRunsListProps {
+  runs: ActiveRunState[];
+  maxRuns?: number;
+}
+
+function ActiveRunsList({ runs, maxRuns = 4 }: ActiveRunsListProps) {
+  const displayRuns = runs.slice(0, maxRuns);
+
+  return (
+    <Box flexDirection="column" marginLeft={2}>
+      {displayRuns.map((run) => (
+        <Box key={run.runId}>
+          <Text color="gray">↳ </Text>
+          <Text color="white">{run.puzzleId}</Text>
+          <Text color="gray">
+            {" "}
+            step {run.currentStep}/{run.totalSteps}
+          </Text>
+          {run.partialOutput && (
+            <Text color="gray"> {formatPartialOutput(run.partialOutput, 50)}</Text>
+          )}
+        </Box>
+      ))}
+      {runs.length > maxRuns && (
+        <Text color="gray">  … {runs.length - maxRuns} more</Text>
+      )}
     </Box>
   );
 }
@@ -327,6 +407,11 @@ function WorkersTable({ workers }: WorkersTableProps) {
             Cost
           </Text>
         </Box>
+        <Box width={10}>
+          <Text bold color="gray">
+            Limit
+          </Text>
+        </Box>
         <Box width={14}>
           <Text bold color="gray">
             Status
@@ -334,7 +419,7 @@ function WorkersTable({ workers }: WorkersTableProps) {
         </Box>
       </Box>
       <Box>
-        <Text color="gray">{"─".repeat(100)}</Text>
+        <Text color="gray">{"─".repeat(110)}</Text>
       </Box>
       {workerList.map((worker) => (
         <WorkerRow key={worker.modelId} worker={worker} />
@@ -365,6 +450,10 @@ function RecentEvents({ events, maxEvents = 8 }: RecentEventsProps) {
         return "→";
       case "error":
         return "⚠";
+      case "rate_limit":
+        return event.throttled ? "⏸" : "↑";
+      case "request_retry":
+        return "↻";
       default:
         return "•";
     }
@@ -376,6 +465,10 @@ function RecentEvents({ events, maxEvents = 8 }: RecentEventsProps) {
         return event.status === "success" ? "green" : event.status === "fail" ? "red" : "yellow";
       case "error":
         return "red";
+      case "rate_limit":
+        return event.throttled ? "yellow" : "gray";
+      case "request_retry":
+        return "yellow";
       case "run_start":
         return "cyan";
       default:
@@ -397,6 +490,14 @@ function RecentEvents({ events, maxEvents = 8 }: RecentEventsProps) {
         return `${model} step ${event.stepIndex}${tokens}${latency}`;
       case "error":
         return `${model} error: ${event.error || "unknown"}`;
+      case "rate_limit":
+        const limit = `${event.concurrencyLimit}/${event.maxConcurrency}`;
+        return event.throttled
+          ? `${model} throttled, request limit ${limit}`
+          : `${model} request limit raised to ${limit}`;
+      case "request_retry":
+        const delay = event.delayMs ? ` in ${Math.round(event.delayMs)}ms` : "";
+        return `${model} retry ${event.attempt}${delay}: ${event.error || "unknown"}`;
       default:
         return `${model} ${event.type}`;
     }
@@ -38,6 +38,21 @@ function truncateModelName(modelId: string, maxLength: number = 35): string {
   return modelId.slice(0, maxLength - 3) + "...";
 }
 
+type OutcomeCounts = Pick<
+  WorkerState,
+  "successCount" | "failCount" | "timeoutCount" | "budgetExceededCount" | "errorCount"
+>;
+
+function getFinishedCount(counts: OutcomeCounts): number {
+  return (
+    counts.successCount +
+    counts.failCount +
+    counts.timeoutCount +
+    counts.budgetExceededCount +
+    counts.errorCount
+  );
+}
+
 // ========================================
 // Model Result Row
 // ========================================
@@ -48,7 +63,7 @@ interface ModelResultRowProps {
 }
 
 function ModelResultRow({ worker, rank }: ModelResultRowProps) {
-  const total = worker.successCount + worker.failCount + worker.timeoutCount + worker.errorCount;
+  const total = getFinishedCount(worker);
   const successRate = total > 0 ? (worker.successCount / total) * 100 : 0;
 
   const medal = rank === 1 ? "🥇" : rank === 2 ? "🥈" : rank === 3 ? "🥉" : "  ";
@@ -98,8 +113,8 @@ export function FinalSummary({ state }: FinalSummaryProps) {
 
   // Sort workers by success rate, then by tokens per second
   const sortedWorkers = Array.from(workers.values()).sort((a, b) => {
-    const aTotal = a.successCount + a.failCount + a.timeoutCount + a.errorCount;
-    const bTotal = b.successCount + b.failCount + b.timeoutCount + b.errorCount;
+    const aTotal = getFinishedCount(a);
+    const bTotal = getFinishedCount(b);
     const aRate = aTotal > 0 ? a.successCount / aTotal : 0;
     const bRate = bTotal > 0 ? b.successCount / bTotal : 0;
 
@@ -107,8 +122,13 @@ export function FinalSummary({ state }: FinalSummaryProps) {
     return b.tokensPerSecond - a.tokensPerSecond;
   });
 
-  const totalRuns = globalStats.successCount + globalStats.failCount + globalStats.timeoutCount + globalStats.errorCount;
+  const totalRuns = getFinishedCount(globalStats);
   const overallSuccessRate = totalRuns > 0 ? (globalStats.successCount / totalRuns) * 100 : 0;
+  // Share of completion tokens spent on reasoning (reasoning models only)
+  const reasoningShare =
+    globalStats.completionTokens > 0
+      ? (globalStats.reasoningTokens / globalStats.completionTokens) * 100
+      : 0;
 
   return (
     <Box flexDirection="column" padding={1}>
@@ -169,6 +189,12 @@ export function FinalSummary({ state }: FinalSummaryProps) {
               <Text color="yellow">⏱ Timeout: </Text>
               <Text color="yellow">{globalStats.timeoutCount}</Text>
             </Box>
+            {globalStats.budgetExceededCount > 0 && (
+              <Box>
+                <Text color="yellow">$ Over budget: </Text>
+                <Text color="yellow">{globalStats.budgetExceededCount}</Text>
+              </Box>
+            )}
           </Box>
           <Box flexDirection="column" width={25}>
             <Box>
@@ -179,6 +205,12 @@ export function FinalSummary({ state }: FinalSummaryProps) {
               <Text color="gray">Avg Tokens/s: </Text>
               <Text color="magenta">{globalStats.avgTokensPerSecond.toFixed(1)}</Text>
             </Box>
+            {globalStats.reasoningTokens > 0 && (
+              <Box>
+                <Text color="gray">Reasoning Share: </Text>
+                <Text color="yellow">{reasoningShare.toFixed(1)}%</Text>
+              </Box>
+            )}
           </Box>
           <Box flexDirection="column" width={25}>
             <Box>
@@ -0,0 +1,44 @@
+import { describe, test, expect } from "bun:test";
+import { createInitialDashboardState, updateWorkerState } from "./types";
+
+describe("updateWorkerState", () => {
+  test("a run that throws mid-flight finishes as an errored run", () => {
+    let state = createInitialDashboardState("demo", ["mock/oracle"], 2, 1);
+    for (const runId of ["run-a", "run-b"]) {
+      state = updateWorkerState(state, {
+        type: "run_start",
+        modelId: "mock/oracle",
+        puzzleId: "p1",
+        runId,
+        totalSteps: 10,
+        timestamp: 1000,
+      });
+    }
+
+    state = updateWorkerState(state, {
+      type: "error",
+      modelId: "mock/oracle",
+      puzzleId: "p1",
+      runId: "run-a",
+      error: "disk full",
+      timestamp: 2000,
+    });
+
+    const worker = state.workers.get("mock/oracle")!;
+    expect(worker.activeRuns.map((run) => run.runId)).toEqual(["run-b"]);
+    expect(worker.status).toBe("running");
+    expect(worker.errorCount).toBe(1);
+    expect(state.globalStats.errorCount).toBe(1);
+    expect(state.completedRuns).toBe(1);
+
+    state = updateWorkerState(state, {
+      type: "run_complete",
+      modelId: "mock/oracle",
+      runId: "run-b",
+      status: "success",
+      timestamp: 3000,
+    });
+    expect(state.workers.get("mock/oracle")!.activeRuns).toEqual([]);
+    expect(state.isComplete).toBe(true);
+  });
+});
@@ -9,23 +9,39 @@ export type WorkerStatus =
   | "completed"
   | "error";
 
+export interface ActiveRunState {
+  runId: string;
+  puzzleId: string;
+  currentStep: number;
+  totalSteps: number;
+  startTime: number;
+  partialOutput?: string; // tail of the streamed reply of the current step
+}
+
 export interface WorkerState {
   modelId: string;
   status: WorkerStatus;
-  currentPuzzle: string | null;
-  currentStep: number;
-  totalSteps: number;
+  activeRuns: ActiveRunState[]; // In-flight runs, oldest first
   completedRuns: number;
   totalRuns: number;
   successCount: number;
   failCount: number;
   timeoutCount: number;
+  budgetExceededCount: number;
   errorCount: number;
   totalTokens: number;
   totalCost: number;
   totalLatencyMs: number;
   lastActionLatencyMs: number | null;
+  lastTimeToFirstTokenMs: number | null; // streamed replies only
+  // Completion tokens and the time spent generating them (generation time of
+  // streamed replies, latency otherwise)
+  speedTokens: number;
+  speedMs: number;
   tokensPerSecond: number;
+  concurrencyLimit: number | null; // current adaptive request limit, null until reported
+  maxConcurrency: number | null;
+  throttleCount: number; // 429 and 5xx replies
   startTime: number | null;
   lastUpdateTime: number;
 }
@@ -35,21 +51,38 @@ export interface RunEvent {
     | "run_start"
     | "run_complete"
     | "step_start"
+    | "step_output"
     | "step_complete"
     | "error"
-    | "worker_idle";
+    | "worker_start"
+    | "worker_idle"
+    | "request_start"
+    | "request_retry"
+    | "rate_limit";
   modelId: string;
   puzzleId?: string;
   runId?: string;
   stepIndex?: number;
   totalSteps?: number;
-  status?: "success" | "fail" | "timeout" | "error";
+  status?: "success" | "fail" | "timeout" | "budget_exceeded" | "error";
   tokens?: number;
   promptTokens?: number;
   completionTokens?: number;
+  reasoningTokens?: number;
   cost?: number | null;
   latencyMs?: number;
+  timeToFirstTokenMs?: number; // streamed replies only
+  generationMs?: number;
+  partialOutput?: string; // step_output: tail of the reply so far
+  attempt?: number; // request_start / request_retry: 0 for the first try
+  queueMs?: number; // request_start: time spent waiting for a request slot
+  delayMs?: number; // request_retry: backoff before the next attempt
+  statusCode?: number; // request_retry: status of the failed attempt
   error?: string;
+  throttled?: boolean; // rate_limit: a request was throttled (else the limit grew)
+  concurrencyLimit?: number;
+  maxConcurrency?: number;
+  throttleCount?: number;
   timestamp: number;
 }
 
@@ -70,12 +103,16 @@ export interface GlobalStats {
   totalTokens: number;
   promptTokens: number;
   completionTokens: number;
+  reasoningTokens: number; // part of completionTokens
   totalCost: number;
   totalLatencyMs: number;
   successCount: number;
   failCount: number;
   timeoutCount: number;
+  budgetExceededCount: number;
   errorCount: number;
+  speedTokens: number;
+  speedMs: number;
   avgTokensPerSecond: number;
   avgStepsToSolve: number;
   avgTimeToSolve: number;
@@ -90,20 +127,25 @@ export function createInitialWorkerState(
   return {
     modelId,
     status: "idle",
-    currentPuzzle: null,
-    currentStep: 0,
-    totalSteps: 0,
+    activeRuns: [],
     completedRuns: 0,
     totalRuns,
     successCount: 0,
     failCount: 0,
     timeoutCount: 0,
+    budgetExceededCount: 0,
     errorCount: 0,
     totalTokens: 0,
     totalCost: 0,
     totalLatencyMs: 0,
     lastActionLatencyMs: null,
+    lastTimeToFirstTokenMs: null,
+    speedTokens: 0,
+    speedMs: 0,
     tokensPerSecond: 0,
+    concurrencyLimit: null,
+    maxConcurrency: null,
+    throttleCount: 0,
     startTime: null,
     lastUpdateTime: Date.now(),
   };
@@ -113,14 +155,18 @@ export function createInitialDashboardState(
   suiteName: string,
   models: string[],
   totalPuzzles: number,
-  repeats: number
+  repeats: number,
+  completedByModel: Map<string, number> = new Map()
 ): DashboardState {
   const runsPerModel = totalPuzzles * repeats;
-  const totalRuns = models.length * runsPerModel;
 
+  // Runs completed by an earlier (resumed) invocation are not scheduled again
   const workers = new Map<string, WorkerState>();
+  let totalRuns = 0;
   for (const model of models) {
-    workers.set(model, createInitialWorkerState(model, runsPerModel));
+    const pendingRuns = runsPerModel - (completedByModel.get(model) ?? 0);
+    workers.set(model, createInitialWorkerState(model, pendingRuns));
+    totalRuns += pendingRuns;
   }
 
   return {
@@ -136,12 +182,16 @@ export function createInitialDashboardState(
       totalTokens: 0,
       promptTokens: 0,
       completionTokens: 0,
+      reasoningTokens: 0,
       totalCost: 0,
       totalLatencyMs: 0,
       successCount: 0,
       failCount: 0,
       timeoutCount: 0,
+      budgetExceededCount: 0,
       errorCount: 0,
+      speedTokens: 0,
+      speedMs: 0,
       avgTokensPerSecond: 0,
       avgStepsToSolve: 0,
       avgTimeToSolve: 0,
@@ -152,6 +202,16 @@ export function createInitialDashboardState(
   };
 }
 
+function updateActiveRun(
+  activeRuns: ActiveRunState[],
+  event: RunEvent,
+  changes: Partial<ActiveRunState>
+): ActiveRunState[] {
+  return activeRuns.map((run) =>
+    run.runId === event.runId ? { ...run, ...changes } : run
+  );
+}
+
 export function updateWorkerState(
   state: DashboardState,
   event: RunEvent
@@ -165,20 +225,39 @@ export function updateWorkerState(
   switch (event.type) {
     case "run_start":
       updatedWorker.status = "running";
-      updatedWorker.currentPuzzle = event.puzzleId || null;
-      updatedWorker.currentStep = 0;
-      updatedWorker.totalSteps = event.totalSteps || 0;
+      updatedWorker.activeRuns = [
+        ...worker.activeRuns,
+        {
+          runId: event.runId || "",
+          puzzleId: event.puzzleId || "",
+          currentStep: 0,
+          totalSteps: event.totalSteps || 0,
+          startTime: event.timestamp,
+        },
+      ];
       if (!updatedWorker.startTime) {
         updatedWorker.startTime = event.timestamp;
       }
       break;
 
     case "step_start":
-      updatedWorker.currentStep = event.stepIndex || 0;
+      updatedWorker.activeRuns = updateActiveRun(worker.activeRuns, event, {
+        currentStep: event.stepIndex || 0,
+        partialOutput: undefined,
+      });
+      break;
+
+    case "step_output":
+      updatedWorker.activeRuns = updateActiveRun(worker.activeRuns, event, {
+        partialOutput: event.partialOutput,
+      });
       break;
 
     case "step_complete":
-      updatedWorker.currentStep = (event.stepIndex || 0) + 1;
+      updatedWorker.activeRuns = updateActiveRun(worker.activeRuns, event, {
+        currentStep: (event.stepIndex || 0) + 1,
+        partialOutput: undefined,
+      });
       if (event.tokens) {
         updatedWorker.totalTokens += event.tokens;
         updatedGlobalStats.totalTokens += event.tokens;
@@ -189,6 +268,9 @@ export function updateWorkerState(
       if (event.completionTokens) {
         updatedGlobalStats.completionTokens += event.completionTokens;
       }
+      if (event.reasoningTokens) {
+        updatedGlobalStats.reasoningTokens += event.reasoningTokens;
+      }
       if (event.cost != null) {
         updatedWorker.totalCost += event.cost;
         updatedGlobalStats.totalCost += event.cost;
@@ -198,17 +280,31 @@ export function updateWorkerState(
         updatedWorker.totalLatencyMs += event.latencyMs;
         updatedGlobalStats.totalLatencyMs += event.latencyMs;
       }
-      // Calculate tokens per second
-      if (updatedWorker.totalLatencyMs > 0) {
+      if (event.timeToFirstTokenMs !== undefined) {
+        updatedWorker.lastTimeToFirstTokenMs = event.timeToFirstTokenMs;
+      }
+      // Calculate tokens per second: completion tokens over generation time,
+      // so prompt size and time in queue do not count
+      const speedMs = event.generationMs ?? event.latencyMs ?? 0;
+      if (event.completionTokens && speedMs > 0) {
+        updatedWorker.speedTokens += event.completionTokens;
+        updatedWorker.speedMs += speedMs;
+        updatedGlobalStats.speedTokens += event.completionTokens;
+        updatedGlobalStats.speedMs += speedMs;
+      }
+      if (updatedWorker.speedMs > 0) {
         updatedWorker.tokensPerSecond =
-          (updatedWorker.totalTokens / updatedWorker.totalLatencyMs) * 1000;
+          (updatedWorker.speedTokens / updatedWorker.speedMs) * 1000;
       }
       break;
 
     case "run_complete":
       updatedWorker.completedRuns++;
-      updatedWorker.currentPuzzle = null;
-      updatedWorker.status = "idle";
+      updatedWorker.activeRuns = worker.activeRuns.filter(
+        (run) => run.runId !== event.runId
+      );
+      updatedWorker.status =
+        updatedWorker.activeRuns.length > 0 ? "running" : "idle";
 
       if (event.status === "success") {
         updatedWorker.successCount++;
@@ -234,6 +330,9 @@ export function updateWorkerState(
       } else if (event.status === "timeout") {
         updatedWorker.timeoutCount++;
         updatedGlobalStats.timeoutCount++;
+      } else if (event.status === "budget_exceeded") {
+        updatedWorker.budgetExceededCount++;
+        updatedGlobalStats.budgetExceededCount++;
       } else if (event.status === "error") {
         updatedWorker.errorCount++;
         updatedGlobalStats.errorCount++;
@@ -241,12 +340,34 @@ export function updateWorkerState(
       break;
 
     case "error":
-      updatedWorker.status = "error";
+      // A run that threw is finished; an error without a run is the worker's
+      if (event.runId === undefined) {
+        updatedWorker.status = "error";
+        break;
+      }
+      updatedWorker.completedRuns++;
+      updatedWorker.activeRuns = worker.activeRuns.filter(
+        (run) => run.runId !== event.runId
+      );
+      updatedWorker.status =
+        updatedWorker.activeRuns.length > 0 ? "running" : "idle";
+      updatedWorker.errorCount++;
+      updatedGlobalStats.errorCount++;
+      break;
+
+    case "worker_start":
+      updatedWorker.status = "waiting";
       break;
 
     case "worker_idle":
       updatedWorker.status = "completed";
       break;
+
+    case "rate_limit":
+      updatedWorker.concurrencyLimit = event.concurrencyLimit ?? null;
+      updatedWorker.maxConcurrency = event.maxConcurrency ?? null;
+      updatedWorker.throttleCount = event.throttleCount ?? worker.throttleCount;
+      break;
   }
 
   // Calculate global averages
@@ -254,12 +375,12 @@ export function updateWorkerState(
     updatedGlobalStats.successCount +
     updatedGlobalStats.failCount +
     updatedGlobalStats.timeoutCount +
+    updatedGlobalStats.budgetExceededCount +
     updatedGlobalStats.errorCount;
 
-  if (updatedGlobalStats.totalLatencyMs > 0) {
+  if (updatedGlobalStats.speedMs > 0) {
     updatedGlobalStats.avgTokensPerSecond =
-      (updatedGlobalStats.totalTokens / updatedGlobalStats.totalLatencyMs) *
-      1000;
+      (updatedGlobalStats.speedTokens / updatedGlobalStats.speedMs) * 1000;
   }
   if (updatedGlobalStats.successCount > 0 && updatedGlobalStats.totalLatencyMs > 0) {
     updatedGlobalStats.avgTimeToSolve =
@@ -270,8 +391,12 @@ export function updateWorkerState(
   const updatedWorkers = new Map(state.workers);
   updatedWorkers.set(event.modelId, updatedWorker);
 
-  // Keep only last 50 events
-  const recentEvents = [event, ...state.recentEvents].slice(0, 50);
+  // Keep only last 50 events (streamed output is shown on the worker rows,
+  // and request starts are too frequent to list)
+  const recentEvents =
+    event.type === "step_output" || event.type === "request_start"
+      ? state.recentEvents
+      : [event, ...state.recentEvents].slice(0, 50);
 
   const completedRuns = Array.from(updatedWorkers.values()).reduce(
     (sum, w) => sum + w.completedRuns,
@@ -0,0 +1,104 @@
+import { describe, test, expect } from "bun:test";
+import { buildCrosswordPuzzle, parseIpuz, parsePuz } from "./crossword-formats";
+
+// C A T
+// A # O
+// B O X
+const SOLUTION = "CATA.OBOX";
+const CLUES = ["Pet", "Taxi", "Ship's line", "Container"]; // 1A, 1D, 2D, 3A
+
+function buildPuz(): Uint8Array {
+  const header = new Uint8Array(0x34);
+  header.set(new TextEncoder().encode("ACROSS&DOWN\0"), 0x02);
+  header[0x2c] = 3;
+  header[0x2d] = 3;
+  header[0x2e] = CLUES.length;
+
+  const body = new TextEncoder().encode(
+    SOLUTION +
+      SOLUTION.replace(/[A-Z]/g, "-") +
+      ["Tiny", "A. Setter", "© 2024", ...CLUES, ""].join("\0") +
+      "\0"
+  );
+  const data = new Uint8Array(header.length + body.length);
+  data.set(header);
+  data.set(body, header.length);
+  return data;
+}
+
+const identity = { id: "xword-2024-01-02", source: "test", date: "2024-01-02" };
+
+describe("crossword formats", () => {
+  test("numbers a .puz grid and assigns clues in order", () => {
+    const puzzle = buildCrosswordPuzzle(parsePuz(buildPuz()), identity);
+
+    expect(puzzle.grid).toEqual([".", ".", ".", ".", "#", ".", ".", ".", "."]);
+    expect(puzzle.solution.grid.join("")).toBe("CATA#OBOX");
+    expect(puzzle.clues.across).toEqual([
+      { number: 1, clue: "Pet", length: 3, cells: [0, 1, 2] },
+      { number: 3, clue: "Container", length: 3, cells: [6, 7, 8] },
+    ]);
+    expect(puzzle.clues.down).toEqual([
+      { number: 1, clue: "Taxi", length: 3, cells: [0, 3, 6] },
+      { number: 2, clue: "Ship's line", length: 3, cells: [2, 5, 8] },
+    ]);
+    expect(puzzle.metadata).toEqual({ author: "A. Setter", title: "Tiny" });
+  });
+
+  test("reads the same puzzle from ipuz", () => {
+    const raw = parseIpuz({
+      version: "http://ipuz.org/v2",
+      kind: ["http://ipuz.org/crossword#1"],
+      dimensions: { width: 3, height: 3 },
+      solution: [
+        ["C", "A", "T"],
+        ["A", "#", "O"],
+        ["B", { value: "o" }, "X"],
+      ],
+      clues: {
+        Across: [[1, "Pet"], { number: 3, clue: "Container" }],
+        "Down:Vertical": ["1 Taxi", [2, "Ship's line"]],
+      },
+      date: "1/2/2024",
+    });
+
+    expect(raw.date).toBe("2024-01-02");
+    const fromIpuz = buildCrosswordPuzzle(raw, identity);
+    const fromPuz = buildCrosswordPuzzle(parsePuz(buildPuz()), identity);
+    expect(fromIpuz.solution).toEqual(fromPuz.solution);
+    expect(fromIpuz.clues).toEqual(fromPuz.clues);
+  });
+
+  test("reads rebus squares and circles from .puz extra sections", () => {
+    const section = (title: string, bytes: number[]) => [
+      ...new TextEncoder().encode(title),
+      bytes.length & 0xff,
+      bytes.length >> 8,
+      0,
+      0,
+      ...bytes,
+      0,
+    ];
+    const puz = buildPuz();
+    const data = new Uint8Array([
+      ...puz,
+      ...section("GRBS", [0, 0, 0, 0, 0, 0, 0, 0, 1]),
+      ...section("RTBL", [...new TextEncoder().encode(" 0:xyz;")]),
+      ...section("GEXT", [0x80, 0, 0, 0, 0, 0, 0, 0, 0x80]),
+    ]);
+
+    const puzzle = buildCrosswordPuzzle(parsePuz(data), identity);
+
+    expect(puzzle.solution.grid[8]).toBe("XYZ");
+    expect(puzzle.markup).toEqual({ circled: [0, 8] });
+  });
+
+  test("rejects a grid with an entry that has no clue", () => {
+    const raw = parsePuz(buildPuz());
+    raw.clues.down.delete(2);
+
+    expect(() => buildCrosswordPuzzle(raw, identity)).toThrow(
+      "Missing clue for 2 down"
+    );
+  });
+});
@@ -0,0 +1,481 @@
+import {
+  CrosswordPuzzleSchema,
+  type CrosswordClue,
+  type CrosswordPuzzle,
+} from "../schemas/puzzles";
+
+// ========================================
+// Types
+// ========================================
+
+/**
+ * A crossword as read from a file, before numbering. Cells are in row-major
+ * order; "#" marks a block and rebus squares hold several letters.
+ */
+export interface RawCrossword {
+  width: number;
+  height: number;
+  solution: string[];
+  markup?: {
+    circled: number[];
+    shaded: number[];
+  };
+  clues: {
+    across: Map<number, string>;
+    down: Map<number, string>;
+  };
+  title?: string;
+  author?: string;
+  editor?: string;
+  copyright?: string;
+  notes?: string;
+  difficulty?: string;
+  date?: string; // YYYY-MM-DD, when the file records one
+}
+
+export interface CrosswordIdentity {
+  id: string;
+  source: string;
+  date: string; // YYYY-MM-DD
+}
+
+/** Cell that starts an across and/or down entry */
+export interface NumberedCell {
+  number: number;
+  index: number;
+  across: boolean;
+  down: boolean;
+}
+
+// ========================================
+// Numbering
+// ========================================
+
+/**
+ * Number the grid the standard way: scanning rows top to bottom, a cell gets
+ * the next number if an across or down entry of two or more cells starts there
+ */
+export function numberGrid(
+  width: number,
+  height: number,
+  isBlock: (index: number) => boolean
+): NumberedCell[] {
+  const open = (row: number, col: number) =>
+    row >= 0 &&
+    row < height &&
+    col >= 0 &&
+    col < width &&
+    !isBlock(row * width + col);
+
+  const numbered: NumberedCell[] = [];
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (!open(row, col)) continue;
+
+      const across = !open(row, col - 1) && open(row, col + 1);
+      const down = !open(row - 1, col) && open(row + 1, col);
+      if (across || down) {
+        numbered.push({
+          number: numbered.length + 1,
+          index: row * width + col,
+          across,
+          down,
+        });
+      }
+    }
+  }
+
+  return numbered;
+}
+
+/**
+ * Linear indices of the entry starting at `index`
+ */
+function entryCells(
+  raw: RawCrossword,
+  index: number,
+  direction: "across" | "down"
+): number[] {
+  const cells: number[] = [];
+  let row = Math.floor(index / raw.width);
+  let col = index % raw.width;
+
+  while (
+    row < raw.height &&
+    col < raw.width &&
+    raw.solution[row * raw.width + col] !== "#"
+  ) {
+    cells.push(row * raw.width + col);
+    if (direction === "across") col++;
+    else row++;
+  }
+
+  return cells;
+}
+
+// ========================================
+// Normalization
+// ========================================
+
+/**
+ * Number a raw crossword, attach its clues and validate the result
+ */
+export function buildCrosswordPuzzle(
+  raw: RawCrossword,
+  identity: CrosswordIdentity
+): CrosswordPuzzle {
+  if (raw.solution.length !== raw.width * raw.height) {
+    throw new Error(
+      `Solution has ${raw.solution.length} cells, expected ${raw.width}×${raw.height}`
+    );
+  }
+
+  const numbered = numberGrid(
+    raw.width,
+    raw.height,
+    (index) => raw.solution[index] === "#"
+  );
+
+  const across: CrosswordClue[] = [];
+  const down: CrosswordClue[] = [];
+  for (const cell of numbered) {
+    for (const direction of ["across", "down"] as const) {
+      if (!cell[direction]) continue;
+
+      const clue = raw.clues[direction].get(cell.number);
+      if (clue === undefined) {
+        throw new Error(`Missing clue for ${cell.number} ${direction}`);
+      }
+      const cells = entryCells(raw, cell.index, direction);
+      (direction === "across" ? across : down).push({
+        number: cell.number,
+        clue,
+        length: cells.length,
+        cells,
+      });
+    }
+  }
+
+  // Clues the grid has no entry for mean the file was read wrongly
+  for (const direction of ["across", "down"] as const) {
+    const entries = direction === "across" ? across : down;
+    if (raw.clues[direction].size !== entries.length) {
+      throw new Error(
+        `${raw.clues[direction].size} ${direction} clues for ${entries.length} ${direction} entries`
+      );
+    }
+  }
+
+  const markup = {
+    circled: raw.markup?.circled.length ? raw.markup.circled : undefined,
+    shaded: raw.markup?.shaded.length ? raw.markup.shaded : undefined,
+  };
+
+  const metadata = {
+    author: raw.author || undefined,
+    editor: raw.editor || undefined,
+    title: raw.title || undefined,
+    difficulty: raw.difficulty || undefined,
+  };
+
+  return CrosswordPuzzleSchema.parse({
+    id: identity.id,
+    source: identity.source,
+    date: identity.date,
+    width: raw.width,
+    height: raw.height,
+    grid: raw.solution.map((cell) => (cell === "#" ? "#" : ".")),
+    clues: { across, down },
+    solution: { grid: raw.solution },
+    markup: markup.circled || markup.shaded ? markup : undefined,
+    metadata,
+  });
+}
+
+// ========================================
+// Across Lite (.puz)
+// ========================================
+
+const PUZ_MAGIC = "ACROSS&DOWN\0";
+const PUZ_HEADER_SIZE = 0x34;
+const PUZ_SCRAMBLED = 0x0004;
+const PUZ_CIRCLED = 0x80; // GEXT square flag
+
+/**
+ * Read an Across Lite .puz file. Strings are ISO-8859-1 (decoded as its
+ * Windows-1252 superset); clues are stored in numbering order, across before
+ * down for cells starting both.
+ */
+export function parsePuz(data: Uint8Array): RawCrossword {
+  const magic = new TextEncoder().encode(PUZ_MAGIC);
+  const magicAt = indexOf(data, magic);
+  if (magicAt < 2) {
+    throw new Error("Not an Across Lite file (ACROSS&DOWN header missing)");
+  }
+
+  const start = magicAt - 2; // some files carry junk before the header
+  const view = new DataView(data.buffer, data.byteOffset + start);
+  if (data.length - start < PUZ_HEADER_SIZE) {
+    throw new Error("Truncated .puz header");
+  }
+
+  const width = view.getUint8(0x2c);
+  const height = view.getUint8(0x2d);
+  const clueCount = view.getUint16(0x2e, true);
+  if (view.getUint16(0x32, true) & PUZ_SCRAMBLED) {
+    throw new Error("Scrambled (locked) .puz solutions are not supported");
+  }
+
+  const cellCount = width * height;
+  const solutionAt = start + PUZ_HEADER_SIZE;
+  const stringsAt = solutionAt + cellCount * 2; // solution, then player fill
+  if (data.length < stringsAt) {
+    throw new Error("Truncated .puz grid");
+  }
+
+  const decoder = new TextDecoder("windows-1252");
+  const solution = Array.from(
+    decoder.decode(data.subarray(solutionAt, solutionAt + cellCount)),
+    (char) => (char === "." ? "#" : char.toUpperCase())
+  );
+
+  // NUL-terminated strings: title, author, copyright, clues, notes
+  let offset = stringsAt;
+  const readString = (): string => {
+    const end = data.indexOf(0, offset);
+    if (end === -1) {
+      throw new Error("Truncated .puz strings");
+    }
+    const value = decoder.decode(data.subarray(offset, end));
+    offset = end + 1;
+    return value;
+  };
+
+  const title = readString();
+  const author = readString();
+  const copyright = readString();
+  const clueTexts = Array.from({ length: clueCount }, () => readString());
+  const notes = offset < data.length ? readString() : "";
+
+  // Rebus squares: GRBS maps squares to RTBL keys (plus one), and the
+  // solution grid only holds their first letter
+  const sections = readPuzSections(data, offset);
+  const rebusGrid = sections.get("GRBS");
+  const rebusTable = sections.get("RTBL");
+  if (rebusGrid && rebusTable) {
+    const values = parseRebusTable(decoder.decode(rebusTable));
+    for (let i = 0; i < cellCount; i++) {
+      const value = values.get((rebusGrid[i] ?? 0) - 1);
+      if (value) {
+        solution[i] = value;
+      }
+    }
+  }
+
+  const flags = sections.get("GEXT");
+  const circled = flags
+    ? solution.flatMap((_, i) => ((flags[i] ?? 0) & PUZ_CIRCLED ? [i] : []))
+    : [];
+
+  // Assign the clues in order to the entries of the numbered grid
+  const across = new Map<number, string>();
+  const down = new Map<number, string>();
+  let next = 0;
+  for (const cell of numberGrid(width, height, (i) => solution[i] === "#")) {
+    if (cell.across) across.set(cell.number, clueTexts[next++] ?? "");
+    if (cell.down) down.set(cell.number, clueTexts[next++] ?? "");
+  }
+  if (next !== clueCount) {
+    throw new Error(`Grid has ${next} entries but the file has ${clueCount} clues`);
+  }
+
+  return {
+    width,
+    height,
+    solution,
+    markup: { circled, shaded: [] },
+    clues: { across, down },
+    title,
+    author,
+    copyright,
+    notes,
+  };
+}
+
+/**
+ * Extra sections after the strings: a 4-character title, data length,
+ * checksum, the data and a NUL
+ */
+function readPuzSections(
+  data: Uint8Array,
+  offset: number
+): Map<string, Uint8Array> {
+  const sections = new Map<string, Uint8Array>();
+  const view = new DataView(data.buffer, data.byteOffset);
+
+  while (offset + 8 <= data.length) {
+    const title = String.fromCharCode(...data.subarray(offset, offset + 4));
+    const length = view.getUint16(offset + 4, true);
+    const start = offset + 8;
+    if (start + length > data.length) break;
+
+    sections.set(title, data.subarray(start, start + length));
+    offset = start + length + 1;
+  }
+
+  return sections;
+}
+
+/**
+ * RTBL entries look like " 0:HEART; 1:STAR;"
+ */
+function parseRebusTable(table: string): Map<number, string> {
+  const values = new Map<number, string>();
+  for (const entry of table.split(";")) {
+    const match = entry.trim().match(/^(\d+):(.+)$/);
+    if (match) {
+      values.set(Number(match[1]), match[2]!.trim().toUpperCase());
+    }
+  }
+  return values;
+}
+
+function indexOf(data: Uint8Array, pattern: Uint8Array): number {
+  outer: for (let i = 0; i + pattern.length <= data.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (data[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+// ========================================
+// ipuz (.ipuz)
+// ========================================
+
+interface IpuzStyle {
+  shapebg?: string; // "circle" for circled squares
+  highlight?: boolean;
+  color?: string; // background color of shaded squares
+}
+
+type IpuzCell =
+  | string
+  | number
+  | null
+  | { value?: string; cell?: unknown; style?: IpuzStyle | string };
+
+type IpuzClue =
+  | string
+  | [number | string, string]
+  | { number?: number | string; clue?: string };
+
+interface IpuzFile {
+  kind?: string[];
+  dimensions?: { width: number; height: number };
+  puzzle?: IpuzCell[][];
+  solution?: IpuzCell[][];
+  styles?: Record<string, IpuzStyle>; // named styles
+  clues?: Record<string, IpuzClue[]>;
+  block?: string;
+  title?: string;
+  author?: string;
+  editor?: string;
+  copyright?: string;
+  notes?: string;
+  difficulty?: string;
+  date?: string; // MM/DD/YYYY
+}
+
+/**
+ * Read an ipuz crossword (JSON). Omitted cells (null) are treated as blocks.
+ */
+export function parseIpuz(input: unknown): RawCrossword {
+  const ipuz = input as IpuzFile;
+  if (!ipuz.kind?.some((kind) => kind.includes("ipuz.org/crossword"))) {
+    throw new Error("Not an ipuz crossword (kind missing)");
+  }
+  if (!ipuz.dimensions || !ipuz.solution) {
+    throw new Error("ipuz file has no dimensions or solution");
+  }
+
+  const { width, height } = ipuz.dimensions;
+  const block = ipuz.block ?? "#";
+  const solution: string[] = [];
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const cell = ipuz.solution[row]?.[col];
+      const value =
+        cell !== null && typeof cell === "object" ? cell.value : cell;
+      solution.push(
+        value === null || value === undefined || value === block
+          ? "#"
+          : String(value).toUpperCase()
+      );
+    }
+  }
+
+  // Circled and shaded squares are styles of the puzzle grid cells
+  const circled: number[] = [];
+  const shaded: number[] = [];
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const cell = ipuz.puzzle?.[row]?.[col];
+      if (cell === null || typeof cell !== "object") continue;
+
+      const style =
+        typeof cell.style === "string" ? ipuz.styles?.[cell.style] : cell.style;
+      if (style?.shapebg === "circle") circled.push(row * width + col);
+      if (style?.highlight || style?.color) shaded.push(row * width + col);
+    }
+  }
+
+  const across = new Map<number, string>();
+  const down = new Map<number, string>();
+  for (const [key, list] of Object.entries(ipuz.clues ?? {})) {
+    // Directions may carry a display label ("Across:Horizontal")
+    const direction = key.split(":")[0]!.toLowerCase();
+    const target =
+      direction === "across" ? across : direction === "down" ? down : null;
+    if (!target) continue;
+
+    for (const clue of list) {
+      const [number, text] = readIpuzClue(clue);
+      target.set(number, text);
+    }
+  }
+
+  return {
+    width,
+    height,
+    solution,
+    markup: { circled, shaded },
+    clues: { across, down },
+    title: ipuz.title,
+    author: ipuz.author,
+    editor: ipuz.editor,
+    copyright: ipuz.copyright,
+    notes: ipuz.notes,
+    difficulty: ipuz.difficulty,
+    date: parseIpuzDate(ipuz.date),
+  };
+}
+
+function readIpuzClue(clue: IpuzClue): [number, string] {
+  if (Array.isArray(clue)) {
+    return [Number(clue[0]), clue[1]];
+  }
+  if (typeof clue === "string") {
+    const match = clue.match(/^(\d+)\s+(.*)$/);
+    if (!match) throw new Error(`Unnumbered ipuz clue: ${clue}`);
+    return [Number(match[1]), match[2]!];
+  }
+  return [Number(clue.number), clue.clue ?? ""];
+}
+
+function parseIpuzDate(date: string | undefined): string | undefined {
+  const match = date?.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return undefined;
+  return `${match[3]}-${match[1]!.padStart(2, "0")}-${match[2]!.padStart(2, "0")}`;
+}
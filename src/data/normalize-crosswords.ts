@@ -0,0 +1,171 @@
+import { createHash } from "crypto";
+import { writeFile, mkdir } from "fs/promises";
+import { basename, dirname, join } from "path";
+import {
+  type CrosswordPuzzle,
+  type Manifest,
+  type ManifestEntry,
+} from "../schemas/puzzles";
+import {
+  buildCrosswordPuzzle,
+  parseIpuz,
+  parsePuz,
+  type RawCrossword,
+} from "./crossword-formats";
+
+// ========================================
+// Raw files
+// ========================================
+
+// Across Lite (.puz) and ipuz (.ipuz) files anywhere under data/raw/crossword/.
+// The date comes from the file name (YYYY-MM-DD) or, for ipuz, the file
+// itself; the source is the subdirectory (e.g. raw/crossword/nyt/) or the
+// format for files at the top level.
+
+const RAW_PATTERN = "**/*.{puz,ipuz}";
+
+async function readRawCrossword(path: string): Promise<RawCrossword> {
+  const file = Bun.file(path);
+  if (path.endsWith(".ipuz")) {
+    return parseIpuz(await file.json());
+  }
+  return parsePuz(new Uint8Array(await file.arrayBuffer()));
+}
+
+function dateFromFileName(path: string): string | undefined {
+  return basename(path).match(/(\d{4}-\d{2}-\d{2})/)?.[1];
+}
+
+function computeSha256(data: string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// ========================================
+// Main
+// ========================================
+
+async function main() {
+  const projectRoot = join(import.meta.dir, "..", "..");
+  const rawDir = join(projectRoot, "data", "raw", "crossword");
+  const normalizedDir = join(projectRoot, "data", "normalized", "crossword");
+  const manifestPath = join(projectRoot, "data", "normalized", "manifest.json");
+
+  console.log("Scanning raw crossword files...");
+
+  const rawFiles: string[] = [];
+  try {
+    for await (const file of new Bun.Glob(RAW_PATTERN).scan({ cwd: rawDir })) {
+      rawFiles.push(file);
+    }
+  } catch {
+    // Reported below
+  }
+  rawFiles.sort();
+
+  if (rawFiles.length === 0) {
+    console.error(`No .puz or .ipuz files found in: ${rawDir}`);
+    process.exit(1);
+  }
+  console.log(`Found ${rawFiles.length} crossword files`);
+
+  // Ensure output directory exists
+  await mkdir(normalizedDir, { recursive: true });
+
+  // Load existing manifest or create new one
+  let manifest: Manifest;
+  const manifestFile = Bun.file(manifestPath);
+  if (await manifestFile.exists()) {
+    manifest = await manifestFile.json();
+    console.log(`Loaded existing manifest with ${manifest.entries.length} entries`);
+  } else {
+    manifest = {
+      version: "1.0.0",
+      updatedAt: new Date().toISOString(),
+      entries: [],
+    };
+  }
+
+  // Filter out existing crossword entries
+  const existingEntries = manifest.entries.filter(
+    (e) => e.puzzleType !== "crossword"
+  );
+
+  const newEntries: ManifestEntry[] = [];
+  const seenIds = new Set<string>();
+  let normalized = 0;
+  let errors = 0;
+
+  for (const rawFile of rawFiles) {
+    try {
+      const raw = await readRawCrossword(join(rawDir, rawFile));
+
+      const date = dateFromFileName(rawFile) ?? raw.date;
+      if (!date) {
+        throw new Error("No date in the file name (YYYY-MM-DD) or the file");
+      }
+      const directory = dirname(rawFile);
+      const source =
+        directory === "." ? rawFile.split(".").pop()! : directory.split("/")[0]!;
+
+      const id = `xword-${date}`;
+      if (seenIds.has(id)) {
+        throw new Error(`Duplicate puzzle id ${id}`);
+      }
+
+      // Numbering, clue cells and zod validation
+      const puzzle: CrosswordPuzzle = buildCrosswordPuzzle(raw, {
+        id,
+        source,
+        date,
+      });
+      seenIds.add(id);
+
+      // Write normalized file
+      const normalizedPath = join(normalizedDir, `${puzzle.id}.json`);
+      const jsonContent = JSON.stringify(puzzle, null, 2);
+      await writeFile(normalizedPath, jsonContent);
+
+      // Create manifest entry
+      const entry: ManifestEntry = {
+        puzzleId: puzzle.id,
+        puzzleType: "crossword",
+        date: puzzle.date,
+        source: puzzle.source,
+        rawPath: `data/raw/crossword/${rawFile}`,
+        normalizedPath: `data/normalized/crossword/${puzzle.id}.json`,
+        sha256: computeSha256(jsonContent),
+        ingestedAt: new Date().toISOString(),
+      };
+
+      newEntries.push(entry);
+      normalized++;
+
+      if (normalized % 100 === 0) {
+        console.log(`Normalized ${normalized} puzzles...`);
+      }
+    } catch (error) {
+      console.error(
+        `Error normalizing ${rawFile}:`,
+        error instanceof Error ? error.message : error
+      );
+      errors++;
+    }
+  }
+
+  // Update manifest
+  manifest.entries = [...existingEntries, ...newEntries];
+  manifest.updatedAt = new Date().toISOString();
+
+  await writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+
+  console.log("\n=== Normalization Complete ===");
+  console.log(`Normalized: ${normalized} puzzles`);
+  console.log(`Errors: ${errors}`);
+  console.log(`Total manifest entries: ${manifest.entries.length}`);
+  console.log(`Manifest written to: ${manifestPath}`);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
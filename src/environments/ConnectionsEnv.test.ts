@@ -63,6 +63,16 @@ describe("ConnectionsEnv", () => {
     expect(env.isDone()).toBe(false);
   });
 
+  test("should shuffle reproducibly with a seed", () => {
+    const first = new ConnectionsEnv().reset(samplePuzzle, 42);
+    const second = new ConnectionsEnv().reset(samplePuzzle, 42);
+
+    expect(second.remainingWords).toEqual(first.remainingWords);
+    expect([...first.remainingWords].sort()).toEqual(
+      [...samplePuzzle.words].sort(),
+    );
+  });
+
   test("should accept a correct group", () => {
     const env = new ConnectionsEnv();
     env.reset(samplePuzzle);
@@ -1,5 +1,6 @@
 import type { ConnectionsPuzzle, ConnectionsGroup } from "../schemas/puzzles";
 import type { ConnectionsAction } from "../schemas/actions";
+import { seededShuffle } from "../utils/random";
 
 // ========================================
 // Types
@@ -59,11 +60,15 @@ export class ConnectionsEnv {
   private state: ConnectionsEnvState | null = null;
 
   /**
-   * Reset the environment with a new puzzle
+   * Reset the environment with a new puzzle. With a seed the word order is
+   * reproducible, which replaying cached replies depends on.
    */
-  reset(puzzle: ConnectionsPuzzle): ConnectionsObservation {
+  reset(puzzle: ConnectionsPuzzle, seed?: number): ConnectionsObservation {
     // Shuffle the words for presentation
-    const shuffledWords = [...puzzle.words].sort(() => Math.random() - 0.5);
+    const shuffledWords =
+      seed === undefined
+        ? [...puzzle.words].sort(() => Math.random() - 0.5)
+        : seededShuffle(puzzle.words, seed);
 
     this.state = {
       puzzle,
@@ -0,0 +1,258 @@
+import { describe, test, expect } from "bun:test";
+import { CrosswordEnv } from "./CrosswordEnv";
+import { renderObservation } from "./renderers";
+import type { CrosswordPuzzle } from "../schemas/puzzles";
+
+// C A T
+// A # O
+// B O X
+const samplePuzzle: CrosswordPuzzle = {
+  id: "xword-test",
+  source: "test",
+  date: "2024-01-02",
+  width: 3,
+  height: 3,
+  grid: [".", ".", ".", ".", "#", ".", ".", ".", "."],
+  clues: {
+    across: [
+      { number: 1, clue: "Pet", length: 3, cells: [0, 1, 2] },
+      { number: 3, clue: "Container", length: 3, cells: [6, 7, 8] },
+    ],
+    down: [
+      { number: 1, clue: "Taxi", length: 3, cells: [0, 3, 6] },
+      { number: 2, clue: "Ship's line", length: 3, cells: [2, 5, 8] },
+    ],
+  },
+  solution: { grid: ["C", "A", "T", "A", "#", "O", "B", "O", "X"] },
+};
+
+// [HEART] A
+//    B    C
+const rebusPuzzle: CrosswordPuzzle = {
+  id: "xword-rebus",
+  source: "test",
+  date: "2024-01-03",
+  width: 2,
+  height: 2,
+  grid: [".", ".", ".", "."],
+  clues: {
+    across: [
+      { number: 1, clue: "Organ, then A", length: 2, cells: [0, 1] },
+      { number: 3, clue: "Second pair", length: 2, cells: [2, 3] },
+    ],
+    down: [
+      { number: 1, clue: "Organ, then B", length: 2, cells: [0, 2] },
+      { number: 2, clue: "Even letters", length: 2, cells: [1, 3] },
+    ],
+  },
+  solution: { grid: ["HEART", "A", "B", "C"] },
+  markup: { circled: [0], shaded: [3] },
+};
+
+describe("CrosswordEnv", () => {
+  test("reveals lock cells and turn a solve into an assisted one", () => {
+    const env = new CrosswordEnv();
+    env.reset(samplePuzzle, {
+      allowChecks: true,
+      allowReveals: true,
+      maxEntriesPerStep: 20,
+      autocheck: false,
+    });
+
+    const { feedback } = env.step({
+      task: "crossword",
+      action: "reveal_cell",
+      row: 3,
+      col: 3,
+    });
+    expect(feedback.result).toBe("revealed");
+    expect(feedback.revealedCells).toEqual([8]);
+
+    // The revealed X survives a wrong fill
+    const fills = [
+      ["across", 1, "CAT"],
+      ["across", 3, "BOY"],
+      ["down", 1, "CAB"],
+      ["down", 2, "TOX"],
+    ] as const;
+    for (const [direction, number, answer] of fills) {
+      env.step({ task: "crossword", action: "fill_entry", direction, number, answer });
+    }
+    const submitted = env.step({ task: "crossword", action: "submit_puzzle" });
+
+    expect(submitted.feedback.status).toBe("success_with_reveals");
+    expect(env.getMetrics()).toMatchObject({
+      revealedCount: 1,
+      revealActions: 1,
+      revealPenalty: 0.125,
+    });
+  });
+
+  test("fills a batch of entries only when every entry is valid", () => {
+    const env = new CrosswordEnv();
+    env.reset(samplePuzzle);
+
+    const rejected = env.step({
+      task: "crossword",
+      action: "fill_entries",
+      entries: [
+        { direction: "across", number: 1, answer: "CAT" },
+        { direction: "down", number: 1, answer: "DAB" },
+        { direction: "down", number: 2, answer: "TO" },
+      ],
+    });
+    expect(rejected.feedback.result).toBe("invalid_action");
+    expect(rejected.feedback.entries?.map((entry) => entry.result)).toEqual([
+      "filled",
+      "invalid",
+      "invalid",
+    ]);
+    expect(rejected.observation.fillGrid).toEqual(samplePuzzle.grid);
+
+    const { feedback, observation } = env.step({
+      task: "crossword",
+      action: "fill_entries",
+      entries: [
+        { direction: "across", number: 1, answer: "CAT" },
+        { direction: "down", number: 1, answer: "CAB" },
+      ],
+    });
+    expect(feedback.result).toBe("filled");
+    expect(observation.fillGrid.join("")).toBe("CATA#.B..");
+  });
+
+  test("checks cells, the grid and fills in autocheck mode", () => {
+    const env = new CrosswordEnv();
+    env.reset(samplePuzzle, {
+      allowChecks: true,
+      allowReveals: false,
+      maxEntriesPerStep: 20,
+      autocheck: true,
+    });
+
+    const filled = env.step({
+      task: "crossword",
+      action: "fill_entry",
+      direction: "across",
+      number: 1,
+      answer: "COT",
+    });
+    expect(filled.feedback.wrongCells).toEqual([1]);
+    expect(filled.observation.checkedWrongCells).toEqual([1]);
+
+    const cell = env.step({
+      task: "crossword",
+      action: "check_cell",
+      row: 1,
+      col: 3,
+    });
+    expect(cell.feedback.message).toBe("r1c3 is correct!");
+
+    const grid = env.step({ task: "crossword", action: "check_puzzle" });
+    expect(grid.feedback.wrongCells).toEqual([1]);
+    expect(grid.feedback.newlyWrongCells).toEqual([]);
+
+    expect(env.getMetrics()).toMatchObject({
+      checkedCount: 2,
+      cellChecks: 1,
+      entryChecks: 0,
+      puzzleChecks: 1,
+      autocheckWrongCount: 1,
+    });
+  });
+
+  test("rejects reveals when the suite does not allow them", () => {
+    const env = new CrosswordEnv();
+    const observation = env.reset(samplePuzzle);
+
+    expect(observation.allowedActions).not.toContain("reveal_puzzle");
+    expect(observation.rules).not.toContain("reveal_cell");
+    const { feedback } = env.step({
+      task: "crossword",
+      action: "reveal_puzzle",
+    });
+    expect(feedback.result).toBe("invalid_action");
+  });
+
+  test("rules list only the allowed actions, numbered in order", () => {
+    const env = new CrosswordEnv();
+    const { rules } = env.reset(samplePuzzle, {
+      allowChecks: false,
+      allowReveals: true,
+      maxEntriesPerStep: 20,
+      autocheck: false,
+    });
+
+    expect(rules).not.toContain("check_cell");
+    expect(rules).toContain("2. clear_entry");
+    expect(rules).toContain("3. submit_puzzle");
+    expect(rules).toContain("4. give_up");
+    expect(rules).toContain('"action": "reveal_cell"');
+  });
+
+  test("fills and submits rebus squares", () => {
+    const env = new CrosswordEnv();
+    const fills = [
+      ["across", 1, "[HEART]A"],
+      ["across", 3, "BC"],
+      ["down", 1, "[heart]B"],
+    ] as const;
+    let observation = env.reset(rebusPuzzle);
+    for (const [direction, number, answer] of fills) {
+      const step = env.step({
+        task: "crossword",
+        action: "fill_entry",
+        direction,
+        number,
+        answer,
+      });
+      expect(step.feedback.result).toBe("filled");
+      observation = step.observation;
+    }
+    expect(observation.fillGrid).toEqual(["HEART", "A", "B", "C"]);
+    expect(
+      observation.clues.down.find((clue) => clue.number === 1)?.currentFill,
+    ).toBe("[HEART]B");
+
+    const { feedback } = env.step({ task: "crossword", action: "submit_puzzle" });
+    expect(feedback.status).toBe("success_clean");
+  });
+
+  test("a single letter in a rebus square is wrong", () => {
+    const env = new CrosswordEnv();
+    env.reset(rebusPuzzle, {
+      allowChecks: true,
+      allowReveals: false,
+      maxEntriesPerStep: 20,
+      autocheck: false,
+    });
+
+    env.step({
+      task: "crossword",
+      action: "fill_entry",
+      direction: "across",
+      number: 1,
+      answer: "HA",
+    });
+    const { feedback } = env.step({
+      task: "crossword",
+      action: "check_cell",
+      row: 1,
+      col: 1,
+    });
+
+    expect(feedback.message).toBe("r1c1 is incorrect.");
+    expect(feedback.wrongCells).toEqual([0]);
+  });
+
+  test("shows circled and shaded squares in the observation", () => {
+    const env = new CrosswordEnv();
+    const observation = env.reset(rebusPuzzle);
+
+    expect(observation.markup).toEqual({ circled: [0], shaded: [3] });
+    const text = renderObservation(observation, "text");
+    expect(text).toContain("Circled squares: r1c1");
+    expect(text).toContain("Shaded squares: r2c2");
+    expect(env.reset(samplePuzzle).markup).toBeUndefined();
+  });
+});
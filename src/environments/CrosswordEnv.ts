@@ -1,5 +1,14 @@
 import type { CrosswordPuzzle, CrosswordClue } from "../schemas/puzzles";
-import type { CrosswordAction } from "../schemas/actions";
+import type {
+  CrosswordAction,
+  CrosswordCheckCellAction,
+  CrosswordCheckEntryAction,
+  CrosswordCheckPuzzleAction,
+  CrosswordFillEntriesAction,
+  CrosswordRevealCellAction,
+  CrosswordRevealEntryAction,
+  CrosswordRevealPuzzleAction,
+} from "../schemas/actions";
 
 // ========================================
 // Types
@@ -11,15 +20,20 @@ export interface CrosswordObservation {
   stateVersion: number;
   width: number;
   height: number;
-  fillGrid: string[]; // Current fill state: "#", ".", or letters
+  fillGrid: string[]; // Current fill state: "#", ".", or letters (several in a rebus square)
   checkedWrongCells: number[]; // Indices of cells known to be wrong after check
   revealedCells: number[]; // Indices of revealed cells (should be empty in default suite)
+  markup?: {
+    // Themed squares, only for puzzles that have them
+    circled?: number[];
+    shaded?: number[];
+  };
   clues: {
     across: Array<{
       number: number;
       clue: string;
       length: number;
-      currentFill: string; // Current letters filled for this entry
+      currentFill: string; // Current letters filled for this entry, rebus squares in brackets
     }>;
     down: Array<{
       number: number;
@@ -44,13 +58,18 @@ export interface CrosswordFeedback {
     | "filled"
     | "cleared"
     | "checked"
+    | "revealed"
     | "submitted"
     | "invalid_action"
     | "gave_up";
   message: string;
-  // For check_entry
+  // For fill_entries, one result per entry in the order given
+  entries?: CrosswordEntryFeedback[];
+  // For check actions, and fills in autocheck mode
   wrongCells?: number[];
   newlyWrongCells?: number[];
+  // For reveal actions
+  revealedCells?: number[];
   // For submit_puzzle
   success?: boolean;
   successType?: "success_clean" | "success_with_reveals";
@@ -60,9 +79,18 @@ export interface CrosswordFeedback {
   status?: "success_clean" | "success_with_reveals" | "fail" | "gave_up";
 }
 
+export interface CrosswordEntryFeedback {
+  direction: "across" | "down";
+  number: number;
+  result: "filled" | "invalid";
+  message: string;
+}
+
 export interface CrosswordEnvConfig {
   allowChecks: boolean;
   allowReveals: boolean;
+  maxEntriesPerStep: number; // entries per fill_entries action
+  autocheck: boolean; // mark wrong letters as soon as they are filled
 }
 
 export interface CrosswordEnvState {
@@ -80,7 +108,39 @@ export interface CrosswordEnvState {
     | "success_with_reveals"
     | "fail"
     | "gave_up";
-  checksPerformed: number;
+  checksPerformed: { cell: number; entry: number; puzzle: number };
+  autocheckWrongCount: number;
+  revealsPerformed: number;
+}
+
+// ========================================
+// Rebus Answers
+// ========================================
+
+/**
+ * Split an answer into square values: one letter per square, or several
+ * letters in brackets for a rebus square ("HEA[RT]Y" -> H, E, A, RT, Y).
+ * Other characters are ignored.
+ */
+export function splitAnswer(answer: string): string[] {
+  const squares: string[] = [];
+  for (const match of answer.toUpperCase().matchAll(/\[([^\]]*)\]|[A-Z]/g)) {
+    const value =
+      match[1] !== undefined ? match[1].replace(/[^A-Z0-9]/g, "") : match[0];
+    if (value) {
+      squares.push(value);
+    }
+  }
+  return squares;
+}
+
+/**
+ * Write square values as an answer, bracketing rebus squares
+ */
+export function joinSquares(squares: string[]): string {
+  return squares
+    .map((square) => (square.length > 1 ? `[${square}]` : square))
+    .join("");
 }
 
 // ========================================
@@ -96,7 +156,12 @@ export class CrosswordEnv {
    */
   reset(
     puzzle: CrosswordPuzzle,
-    config: CrosswordEnvConfig = { allowChecks: true, allowReveals: false },
+    config: CrosswordEnvConfig = {
+      allowChecks: true,
+      allowReveals: false,
+      maxEntriesPerStep: 20,
+      autocheck: false,
+    },
   ): CrosswordObservation {
     // Initialize fill grid with blocks and empty cells
     const fillGrid = puzzle.grid.map((cell) => (cell === "#" ? "#" : "."));
@@ -111,7 +176,9 @@ export class CrosswordEnv {
       stateVersion: 0,
       done: false,
       status: "in_progress",
-      checksPerformed: 0,
+      checksPerformed: { cell: 0, entry: 0, puzzle: 0 },
+      autocheckWrongCount: 0,
+      revealsPerformed: 0,
     };
 
     // Build clue lookup map
@@ -151,11 +218,21 @@ export class CrosswordEnv {
           action.answer,
         );
         break;
+      case "fill_entries":
+        feedback = this.handleFillEntries(action.entries);
+        break;
       case "clear_entry":
         feedback = this.handleClearEntry(action.direction, action.number);
         break;
+      case "check_cell":
       case "check_entry":
-        feedback = this.handleCheckEntry(action.direction, action.number);
+      case "check_puzzle":
+        feedback = this.handleCheck(action);
+        break;
+      case "reveal_cell":
+      case "reveal_entry":
+      case "reveal_puzzle":
+        feedback = this.handleReveal(action);
         break;
       case "submit_puzzle":
         feedback = this.handleSubmitPuzzle();
@@ -196,50 +273,164 @@ export class CrosswordEnv {
   ): CrosswordFeedback {
     if (!this.state) throw new Error("State not initialized");
 
-    const clue = this.clueMap.get(`${direction}-${number}`);
+    const fill = this.resolveFill(direction, number, answer);
 
-    if (!clue) {
+    if ("error" in fill) {
       return {
         result: "invalid_action",
-        message: `No ${direction} clue with number ${number} exists.`,
+        message: fill.error,
         done: false,
       };
     }
 
-    // Normalize answer
-    const normalizedAnswer = answer.toUpperCase().replace(/[^A-Z]/g, "");
+    this.applyFill(fill.clue, fill.squares);
+    const autochecked = this.autocheck(fill.clue.cells);
+
+    return {
+      result: "filled",
+      message: `Filled ${direction} ${number} with "${joinSquares(fill.squares)}".${describeAutocheck(autochecked)}`,
+      ...autochecked,
+      done: false,
+    };
+  }
+
+  /**
+   * Handle fill_entries action: every entry is validated first, and the
+   * grid only changes if all of them are valid
+   */
+  private handleFillEntries(
+    entries: CrosswordFillEntriesAction["entries"],
+  ): CrosswordFeedback {
+    if (!this.state) throw new Error("State not initialized");
 
-    if (normalizedAnswer.length !== clue.length) {
+    const { maxEntriesPerStep } = this.state.config;
+    if (entries.length > maxEntriesPerStep) {
       return {
         result: "invalid_action",
-        message: `Answer length (${normalizedAnswer.length}) does not match entry length (${clue.length}).`,
+        message: `Too many entries (${entries.length}): at most ${maxEntriesPerStep} can be filled per step.`,
         done: false,
       };
     }
 
-    if (!/^[A-Z]+$/.test(normalizedAnswer)) {
+    // Squares written by earlier entries of this batch, to catch crossings
+    // that disagree
+    const batchCells = new Map<number, { square: string; label: string }>();
+    const labels = new Set<string>();
+    const fills: Array<{ clue: CrosswordClue; squares: string[] }> = [];
+    const results: CrosswordEntryFeedback[] = [];
+
+    for (const { direction, number, answer } of entries) {
+      const label = `${direction} ${number}`;
+      const fill = this.resolveFill(direction, number, answer);
+      const reject = (message: string) =>
+        results.push({ direction, number, result: "invalid", message });
+
+      if ("error" in fill) {
+        reject(fill.error);
+        continue;
+      }
+      if (labels.has(label)) {
+        reject(`${label} appears more than once.`);
+        continue;
+      }
+
+      const conflict = fill.clue.cells.findIndex((cellIndex, i) => {
+        const earlier = batchCells.get(cellIndex);
+        return earlier !== undefined && earlier.square !== fill.squares[i];
+      });
+      if (conflict >= 0) {
+        const earlier = batchCells.get(fill.clue.cells[conflict]!)!;
+        reject(`Conflicts with ${earlier.label} at square ${conflict + 1}.`);
+        continue;
+      }
+
+      labels.add(label);
+      fill.clue.cells.forEach((cellIndex, i) =>
+        batchCells.set(cellIndex, { square: fill.squares[i]!, label }),
+      );
+      fills.push(fill);
+      results.push({
+        direction,
+        number,
+        result: "filled",
+        message: `Filled with "${joinSquares(fill.squares)}".`,
+      });
+    }
+
+    const invalid = results.filter((entry) => entry.result === "invalid");
+    if (invalid.length > 0) {
       return {
         result: "invalid_action",
-        message: "Answer must contain only letters A-Z.",
+        message: `No entries were filled. ${invalid
+          .map((entry) => `${entry.direction} ${entry.number}: ${entry.message}`)
+          .join(" ")}`,
+        entries: results,
         done: false,
       };
     }
 
-    // Fill the cells
-    for (let i = 0; i < clue.cells.length; i++) {
-      const cellIndex = clue.cells[i]!;
-      this.state.fillGrid[cellIndex] = normalizedAnswer[i]!;
-      // Clear any "wrong" marking when cell is modified
-      this.state.checkedWrongCells.delete(cellIndex);
+    for (const fill of fills) {
+      this.applyFill(fill.clue, fill.squares);
     }
+    const autochecked = this.autocheck([...batchCells.keys()]);
 
     return {
       result: "filled",
-      message: `Filled ${direction} ${number} with "${normalizedAnswer}".`,
+      message: `Filled ${fills.length} entries: ${results
+        .map((entry) => `${entry.direction} ${entry.number}`)
+        .join(", ")}.${describeAutocheck(autochecked)}`,
+      entries: results,
+      ...autochecked,
       done: false,
     };
   }
 
+  /**
+   * Look up the clue for a fill and split its answer into squares, or
+   * explain why the fill is invalid
+   */
+  private resolveFill(
+    direction: "across" | "down",
+    number: number,
+    answer: string,
+  ): { clue: CrosswordClue; squares: string[] } | { error: string } {
+    const clue = this.clueMap.get(`${direction}-${number}`);
+
+    if (!clue) {
+      return { error: `No ${direction} clue with number ${number} exists.` };
+    }
+
+    // Normalize answer into one value per square
+    const squares = splitAnswer(answer);
+
+    if (squares.length === 0) {
+      return { error: "Answer must contain letters A-Z." };
+    }
+
+    if (squares.length !== clue.length) {
+      return {
+        error: `Answer length (${squares.length}) does not match entry length (${clue.length}).`,
+      };
+    }
+
+    return { clue, squares };
+  }
+
+  /**
+   * Write squares into an entry's cells (revealed cells keep the solution)
+   */
+  private applyFill(clue: CrosswordClue, squares: string[]): void {
+    if (!this.state) throw new Error("State not initialized");
+
+    for (let i = 0; i < clue.cells.length; i++) {
+      const cellIndex = clue.cells[i]!;
+      if (this.state.revealedCells.has(cellIndex)) continue;
+      this.state.fillGrid[cellIndex] = squares[i]!;
+      // Clear any "wrong" marking when cell is modified
+      this.state.checkedWrongCells.delete(cellIndex);
+    }
+  }
+
   /**
    * Handle clear_entry action
    */
@@ -275,11 +466,13 @@ export class CrosswordEnv {
   }
 
   /**
-   * Handle check_entry action
+   * Handle check_cell, check_entry and check_puzzle actions
    */
-  private handleCheckEntry(
-    direction: "across" | "down",
-    number: number,
+  private handleCheck(
+    action:
+      | CrosswordCheckCellAction
+      | CrosswordCheckEntryAction
+      | CrosswordCheckPuzzleAction,
   ): CrosswordFeedback {
     if (!this.state) throw new Error("State not initialized");
 
@@ -291,6 +484,72 @@ export class CrosswordEnv {
       };
     }
 
+    const { fillGrid, checksPerformed } = this.state;
+
+    if (action.action === "check_cell") {
+      const { row, col } = action;
+      const cellIndex = this.cellAt(row, col);
+
+      if (cellIndex === null) {
+        return {
+          result: "invalid_action",
+          message: `There is no open cell at row ${row}, column ${col}.`,
+          done: false,
+        };
+      }
+
+      if (fillGrid[cellIndex] === ".") {
+        return {
+          result: "invalid_action",
+          message: `Cannot check r${row}c${col}: cell is empty.`,
+          done: false,
+        };
+      }
+
+      const { wrongCells, newlyWrongCells } = this.markWrongCells([cellIndex]);
+      checksPerformed.cell++;
+
+      return {
+        result: "checked",
+        message:
+          wrongCells.length === 0
+            ? `r${row}c${col} is correct!`
+            : `r${row}c${col} is incorrect.`,
+        wrongCells,
+        newlyWrongCells,
+        done: false,
+      };
+    }
+
+    if (action.action === "check_puzzle") {
+      const filledCells = fillGrid.flatMap((cell, i) =>
+        cell === "#" || cell === "." ? [] : [i],
+      );
+
+      if (filledCells.length === 0) {
+        return {
+          result: "invalid_action",
+          message: "Cannot check the puzzle: no cells are filled.",
+          done: false,
+        };
+      }
+
+      const { wrongCells, newlyWrongCells } = this.markWrongCells(filledCells);
+      checksPerformed.puzzle++;
+
+      return {
+        result: "checked",
+        message:
+          wrongCells.length === 0
+            ? `All ${filledCells.length} filled cell(s) are correct!`
+            : `${wrongCells.length} of ${filledCells.length} filled cell(s) are incorrect.`,
+        wrongCells,
+        newlyWrongCells,
+        done: false,
+      };
+    }
+
+    const { direction, number } = action;
     const clue = this.clueMap.get(`${direction}-${number}`);
 
     if (!clue) {
@@ -303,7 +562,7 @@ export class CrosswordEnv {
 
     // Check if entry is fully filled
     for (const cellIndex of clue.cells) {
-      if (this.state.fillGrid[cellIndex] === ".") {
+      if (fillGrid[cellIndex] === ".") {
         return {
           result: "invalid_action",
           message: `Cannot check ${direction} ${number}: entry is not fully filled.`,
@@ -312,11 +571,41 @@ export class CrosswordEnv {
       }
     }
 
-    // Compare with solution
+    const { wrongCells, newlyWrongCells } = this.markWrongCells(clue.cells);
+    checksPerformed.entry++;
+
+    if (wrongCells.length === 0) {
+      return {
+        result: "checked",
+        message: `${direction} ${number} is correct!`,
+        wrongCells: [],
+        newlyWrongCells: [],
+        done: false,
+      };
+    }
+
+    return {
+      result: "checked",
+      message: `${direction} ${number} has ${wrongCells.length} incorrect cell(s).`,
+      wrongCells,
+      newlyWrongCells,
+      done: false,
+    };
+  }
+
+  /**
+   * Compare cells with the solution and mark the wrong ones
+   */
+  private markWrongCells(cells: number[]): {
+    wrongCells: number[];
+    newlyWrongCells: number[];
+  } {
+    if (!this.state) throw new Error("State not initialized");
+
     const wrongCells: number[] = [];
     const newlyWrongCells: number[] = [];
 
-    for (const cellIndex of clue.cells) {
+    for (const cellIndex of cells) {
       const filled = this.state.fillGrid[cellIndex];
       const correct = this.state.puzzle.solution.grid[cellIndex];
 
@@ -329,23 +618,121 @@ export class CrosswordEnv {
       }
     }
 
-    this.state.checksPerformed++;
+    return { wrongCells, newlyWrongCells };
+  }
 
-    if (wrongCells.length === 0) {
+  /**
+   * In autocheck mode, mark the wrong letters among just-filled cells
+   */
+  private autocheck(
+    cells: number[],
+  ): { wrongCells: number[]; newlyWrongCells: number[] } | undefined {
+    if (!this.state?.config.autocheck) return undefined;
+
+    const result = this.markWrongCells(cells);
+    this.state.autocheckWrongCount += result.newlyWrongCells.length;
+    return result;
+  }
+
+  /**
+   * Linear index of the open cell at a 1-based row and column, or null
+   */
+  private cellAt(row: number, col: number): number | null {
+    if (!this.state) throw new Error("State not initialized");
+
+    const { puzzle } = this.state;
+    const inGrid =
+      Number.isInteger(row) &&
+      Number.isInteger(col) &&
+      row >= 1 &&
+      row <= puzzle.height &&
+      col >= 1 &&
+      col <= puzzle.width;
+    const cellIndex = (row - 1) * puzzle.width + (col - 1);
+
+    return inGrid && puzzle.solution.grid[cellIndex] !== "#" ? cellIndex : null;
+  }
+
+  /**
+   * Handle reveal_cell, reveal_entry and reveal_puzzle actions
+   */
+  private handleReveal(
+    action:
+      | CrosswordRevealCellAction
+      | CrosswordRevealEntryAction
+      | CrosswordRevealPuzzleAction,
+  ): CrosswordFeedback {
+    if (!this.state) throw new Error("State not initialized");
+
+    if (!this.state.config.allowReveals) {
       return {
-        result: "checked",
-        message: `${direction} ${number} is correct!`,
-        wrongCells: [],
-        newlyWrongCells: [],
+        result: "invalid_action",
+        message: "Reveal actions are not allowed in this suite.",
         done: false,
       };
     }
 
+    const { puzzle, revealedCells: alreadyRevealed } = this.state;
+    let cells: number[];
+    let label: string;
+
+    if (action.action === "reveal_cell") {
+      const { row, col } = action;
+      const cellIndex = this.cellAt(row, col);
+
+      if (cellIndex === null) {
+        return {
+          result: "invalid_action",
+          message: `There is no open cell at row ${row}, column ${col}.`,
+          done: false,
+        };
+      }
+      cells = [cellIndex];
+      label = `r${row}c${col}`;
+    } else if (action.action === "reveal_entry") {
+      const clue = this.clueMap.get(`${action.direction}-${action.number}`);
+
+      if (!clue) {
+        return {
+          result: "invalid_action",
+          message: `No ${action.direction} clue with number ${action.number} exists.`,
+          done: false,
+        };
+      }
+      cells = clue.cells;
+      label = `${action.direction} ${action.number}`;
+    } else {
+      cells = puzzle.solution.grid.flatMap((cell, i) =>
+        cell === "#" ? [] : [i],
+      );
+      label = "the puzzle";
+    }
+
+    const revealedCells = cells.filter(
+      (cellIndex) => !alreadyRevealed.has(cellIndex),
+    );
+
+    if (revealedCells.length === 0) {
+      return {
+        result: "invalid_action",
+        message: `${label} is already revealed.`,
+        done: false,
+      };
+    }
+
+    // Write the solution into the cells and lock them
+    for (const cellIndex of revealedCells) {
+      this.state.fillGrid[cellIndex] = puzzle.solution.grid[cellIndex]!;
+      this.state.revealedCells.add(cellIndex);
+      this.state.checkedWrongCells.delete(cellIndex);
+    }
+
+    this.state.revealsPerformed++;
+
     return {
-      result: "checked",
-      message: `${direction} ${number} has ${wrongCells.length} incorrect cell(s).`,
-      wrongCells,
-      newlyWrongCells,
+      result: "revealed",
+      message: `Revealed ${label} (${revealedCells.length} cell(s)). Revealed cells cannot be changed and count against a clean solve.`,
+      revealedCells,
       done: false,
     };
   }
@@ -437,25 +824,29 @@ export class CrosswordEnv {
       number: clue.number,
       clue: clue.clue,
       length: clue.length,
-      currentFill: clue.cells.map((i) => fillGrid[i]).join(""),
+      currentFill: joinSquares(clue.cells.map((i) => fillGrid[i] ?? ".")),
     }));
 
     const downClues = puzzle.clues.down.map((clue) => ({
       number: clue.number,
       clue: clue.clue,
       length: clue.length,
-      currentFill: clue.cells.map((i) => fillGrid[i]).join(""),
+      currentFill: joinSquares(clue.cells.map((i) => fillGrid[i] ?? ".")),
     }));
 
     // Determine allowed actions
     const allowedActions = [
       "fill_entry",
+      "fill_entries",
       "clear_entry",
       "submit_puzzle",
       "give_up",
     ];
     if (config.allowChecks) {
-      allowedActions.push("check_entry");
+      allowedActions.push("check_cell", "check_entry", "check_puzzle");
+    }
+    if (config.allowReveals) {
+      allowedActions.push("reveal_cell", "reveal_entry", "reveal_puzzle");
     }
 
     return {
@@ -467,6 +858,7 @@ export class CrosswordEnv {
       fillGrid: [...fillGrid],
       checkedWrongCells: Array.from(this.state.checkedWrongCells),
       revealedCells: Array.from(this.state.revealedCells),
+      ...(puzzle.markup && { markup: puzzle.markup }),
       clues: {
         across: acrossClues,
         down: downClues,
@@ -481,40 +873,67 @@ export class CrosswordEnv {
    * Get rules text based on config
    */
   private getRulesText(): string {
-    const checkText = this.state?.config.allowChecks
+    // Numbered in order, skipping the checks when the suite disallows them
+    const actionTexts = [
+      `fill_entry: Fill in an answer for a clue
+   Format: { "task": "crossword", "action": "fill_entry", "direction": "across"|"down", "number": <clue_number>, "answer": "YOURANSWER" }
+   Note: Answer must be uppercase letters, one per square, matching the entry length.
+   A rebus square holding several letters is written in brackets: "HEA[RT]Y" fills 5 squares.
+   To fill several entries in one step, use fill_entries (up to ${this.state?.config.maxEntriesPerStep} entries; if any is invalid, none is filled):
+   Format: { "task": "crossword", "action": "fill_entries", "entries": [{ "direction": "across"|"down", "number": <clue_number>, "answer": "YOURANSWER" }, ...] }`,
+      `clear_entry: Clear your answer for a clue
+   Format: { "task": "crossword", "action": "clear_entry", "direction": "across"|"down", "number": <clue_number> }`,
+      ...(this.state?.config.allowChecks
+        ? [
+            `check_cell, check_entry, check_puzzle: Check filled letters against the solution
+   Format: { "task": "crossword", "action": "check_cell", "row": <row>, "col": <col> } (1-based, as in r<row>c<col>; the cell must be filled)
+   Format: { "task": "crossword", "action": "check_entry", "direction": "across"|"down", "number": <clue_number> } (entry must be fully filled)
+   Format: { "task": "crossword", "action": "check_puzzle" } (checks every filled cell)
+   Returns which cells are incorrect without revealing the answer.`,
+          ]
+        : []),
+      `submit_puzzle: Submit your completed puzzle for final checking
+   Format: { "task": "crossword", "action": "submit_puzzle" }
+   Note: This ends the game. You win if all cells are correct, otherwise you lose.`,
+      `give_up: End the game early
+   Format: { "task": "crossword", "action": "give_up" }`,
+    ];
+    const actionsText = actionTexts
+      .map((text, i) => `${i + 1}. ${text}`)
+      .join("\n\n");
+
+    const revealText = this.state?.config.allowReveals
       ? `
-3. check_entry: Check if an entry is correct (entry must be fully filled)
-   Format: { "task": "crossword", "action": "check_entry", "direction": "across"|"down", "number": <clue_number> }
-   Returns which cells are incorrect without revealing the answer.`
+
+REVEAL ACTIONS (a solve that uses any reveal is not a clean solve):
+- reveal_cell: { "task": "crossword", "action": "reveal_cell", "row": <row>, "col": <col> } (1-based, as in r<row>c<col>)
+- reveal_entry: { "task": "crossword", "action": "reveal_entry", "direction": "across"|"down", "number": <clue_number> }
+- reveal_puzzle: { "task": "crossword", "action": "reveal_puzzle" }
+Revealed cells hold the solution and cannot be changed.`
       : "";
 
     return `
 CROSSWORD GAME RULES:
 - You are solving a crossword puzzle with across and down clues.
 - Fill in letters for each clue to complete the puzzle.
-- The grid shows "#" for blocked cells, "." for empty cells, and letters for filled cells.
+- The grid shows "#" for blocked cells, "." for empty cells, and letters for filled cells.${
+      this.state?.puzzle.markup
+        ? "\n- Circled and shaded squares (markup) are part of the puzzle's theme."
+        : ""
+    }${
+      this.state?.config.autocheck
+        ? "\n- Autocheck is on: wrong letters are added to checkedWrongCells as soon as you fill them."
+        : ""
+    }
 - Your goal is to fill all cells correctly and submit the puzzle.
 
 AVAILABLE ACTIONS:
-1. fill_entry: Fill in an answer for a clue
-   Format: { "task": "crossword", "action": "fill_entry", "direction": "across"|"down", "number": <clue_number>, "answer": "YOURANSWER" }
-   Note: Answer must be uppercase letters only and match the expected length.
-
-2. clear_entry: Clear your answer for a clue
-   Format: { "task": "crossword", "action": "clear_entry", "direction": "across"|"down", "number": <clue_number> }
-${checkText}
-
-4. submit_puzzle: Submit your completed puzzle for final checking
-   Format: { "task": "crossword", "action": "submit_puzzle" }
-   Note: This ends the game. You win if all cells are correct, otherwise you lose.
-
-5. give_up: End the game early
-   Format: { "task": "crossword", "action": "give_up" }
+${actionsText}${revealText}
 
 STRATEGY TIPS:
 - Start with clues you're confident about.
 - Use crossing letters to help solve harder clues.
-- ${this.state?.config.allowChecks ? "Use check_entry to verify entries before submitting." : "There's no way to check entries - only submit when confident."}
+- ${this.state?.config.allowChecks ? "Use check actions to verify entries before submitting." : "There's no way to check entries - only submit when confident."}
 - Letters are case-insensitive (will be converted to uppercase).
 `.trim();
   }
@@ -545,9 +964,25 @@ STRATEGY TIPS:
     checkedCount: number;
     percentCorrectFilled: number;
     revealedCount: number;
+    revealActions: number;
+    revealPenalty: number;
+    cellChecks: number;
+    entryChecks: number;
+    puzzleChecks: number;
+    autocheckWrongCount: number;
   } {
     if (!this.state) {
-      return { checkedCount: 0, percentCorrectFilled: 0, revealedCount: 0 };
+      return {
+        checkedCount: 0,
+        percentCorrectFilled: 0,
+        revealedCount: 0,
+        revealActions: 0,
+        revealPenalty: 0,
+        cellChecks: 0,
+        entryChecks: 0,
+        puzzleChecks: 0,
+        autocheckWrongCount: 0,
+      };
     }
 
     const { fillGrid, puzzle } = this.state;
@@ -571,10 +1006,36 @@ STRATEGY TIPS:
     const percentCorrectFilled =
       filledCount > 0 ? (correctCount / filledCount) * 100 : 0;
 
+    const { cell, entry, puzzle: puzzleChecks } = this.state.checksPerformed;
+
+    // Share of the grid given away by reveals
+    const revealPenalty =
+      fillableCount > 0 ? this.state.revealedCells.size / fillableCount : 0;
+
     return {
-      checkedCount: this.state.checksPerformed,
+      checkedCount: cell + entry + puzzleChecks,
       percentCorrectFilled: Math.round(percentCorrectFilled * 100) / 100,
       revealedCount: this.state.revealedCells.size,
+      revealActions: this.state.revealsPerformed,
+      revealPenalty: Math.round(revealPenalty * 10000) / 10000,
+      cellChecks: cell,
+      entryChecks: entry,
+      puzzleChecks,
+      autocheckWrongCount: this.state.autocheckWrongCount,
     };
   }
 }
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * Feedback note on the letters autocheck found wrong (empty without autocheck)
+ */
+function describeAutocheck(result?: { wrongCells: number[] }): string {
+  if (!result) return "";
+  return result.wrongCells.length > 0
+    ? ` Autocheck: ${result.wrongCells.length} wrong letter(s), added to checkedWrongCells.`
+    : " Autocheck: no wrong letters.";
+}
@@ -0,0 +1,263 @@
+import type {
+  ConnectionsObservation,
+  ConnectionsHistoryEntry,
+} from "./ConnectionsEnv";
+import type { CrosswordObservation, CrosswordHistoryEntry } from "./CrosswordEnv";
+
+// ========================================
+// Types
+// ========================================
+
+/**
+ * How observations are written into prompts:
+ * - json: pretty-printed JSON (the original format)
+ * - compact_json: the same JSON without whitespace
+ * - text: a human-readable board (ASCII grid and clue list for crosswords)
+ */
+export type ObservationFormat = "json" | "compact_json" | "text";
+
+/**
+ * Board part of an observation (rules and history are rendered separately,
+ * and may have been stripped)
+ */
+type BoardObservation<T> = Omit<T, "rules" | "history">;
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Render an observation (or a part of one) in the given format
+ */
+export function renderObservation(
+  observation: unknown,
+  format: ObservationFormat,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(observation, null, 2);
+    case "compact_json":
+      return JSON.stringify(observation);
+    case "text":
+      return renderText(observation);
+  }
+}
+
+/**
+ * Render the history of an observation in the given format
+ */
+export function renderHistory(
+  history: unknown,
+  format: ObservationFormat,
+): string {
+  const entries = Array.isArray(history) ? history : [];
+  switch (format) {
+    case "json":
+      return JSON.stringify(entries, null, 2);
+    case "compact_json":
+      return JSON.stringify(entries);
+    case "text":
+      return entries.length > 0
+        ? entries.map((entry) => renderHistoryEntry(entry)).join("\n")
+        : "(no moves yet)";
+  }
+}
+
+/**
+ * Render environment feedback (or a runner error) in the given format
+ */
+export function renderFeedback(
+  feedback: unknown,
+  format: ObservationFormat,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(feedback, null, 2);
+    case "compact_json":
+      return JSON.stringify(feedback);
+    case "text": {
+      const fields = asRecord(feedback);
+      if (typeof fields.result === "string") {
+        return `${fields.result}: ${fields.message ?? ""}`.trim();
+      }
+      if (typeof fields.error === "string") {
+        return `error: ${fields.error}`;
+      }
+      return JSON.stringify(feedback);
+    }
+  }
+}
+
+// ========================================
+// Text Renderers
+// ========================================
+
+function renderText(observation: unknown): string {
+  const fields = asRecord(observation);
+
+  let body: string;
+  if (fields.task === "connections") {
+    body = renderConnectionsText(
+      observation as BoardObservation<ConnectionsObservation>,
+    );
+  } else if (fields.task === "crossword") {
+    body = renderCrosswordText(
+      observation as BoardObservation<CrosswordObservation>,
+    );
+  } else {
+    return JSON.stringify(observation);
+  }
+
+  const sections = [body];
+  const lastError = asRecord(fields.lastError);
+  if (typeof lastError.message === "string") {
+    sections.push(
+      lastError.kind === "api_error"
+        ? `Your last request failed before a reply arrived: ${lastError.message}`
+        : `Your last reply was rejected (${lastError.kind}): ${lastError.message}`,
+    );
+  }
+  if (Array.isArray(fields.history)) {
+    sections.push(`History:\n${renderHistory(fields.history, "text")}`);
+  }
+  if (typeof fields.rules === "string") {
+    sections.push(fields.rules);
+  }
+  return sections.join("\n\n");
+}
+
+function renderConnectionsText(
+  observation: BoardObservation<ConnectionsObservation>,
+): string {
+  const lines = [
+    `Connections puzzle ${observation.puzzleId} (state ${observation.stateVersion})`,
+    "",
+    `Remaining words (${observation.remainingWords.length}): ${observation.remainingWords.join(", ")}`,
+  ];
+
+  if (observation.foundGroups.length > 0) {
+    lines.push("Found groups:");
+    for (const group of observation.foundGroups) {
+      lines.push(
+        `  ${group.level} - ${group.category}: ${group.words.join(", ")}`,
+      );
+    }
+  } else {
+    lines.push("Found groups: none");
+  }
+
+  lines.push(`Mistakes left: ${observation.mistakesLeft}`);
+  lines.push(`Allowed actions: ${observation.allowedActions.join(", ")}`);
+
+  return lines.join("\n");
+}
+
+function renderCrosswordText(
+  observation: BoardObservation<CrosswordObservation>,
+): string {
+  const { width, height, fillGrid } = observation;
+  const lines = [
+    `Crossword ${observation.puzzleId} (${width}x${height}, state ${observation.stateVersion})`,
+    "",
+    'Grid ("#" block, "." empty, [..] rebus square):',
+  ];
+
+  // Column header uses the last digit of the column number
+  const columnHeader = Array.from({ length: width }, (_, col) =>
+    String((col + 1) % 10),
+  ).join(" ");
+  lines.push(`     ${columnHeader}`);
+
+  for (let row = 0; row < height; row++) {
+    const cells = fillGrid
+      .slice(row * width, (row + 1) * width)
+      .map((cell) => (cell.length > 1 ? `[${cell}]` : cell));
+    lines.push(`${String(row + 1).padStart(3)}  ${cells.join(" ")}`);
+  }
+
+  const markup = observation.markup;
+  if (markup?.circled?.length || markup?.shaded?.length) {
+    lines.push("");
+  }
+  if (markup?.circled?.length) {
+    lines.push(
+      `Circled squares: ${markup.circled.map((cell) => formatCell(cell, width)).join(", ")}`,
+    );
+  }
+  if (markup?.shaded?.length) {
+    lines.push(
+      `Shaded squares: ${markup.shaded.map((cell) => formatCell(cell, width)).join(", ")}`,
+    );
+  }
+
+  if (observation.checkedWrongCells.length > 0) {
+    lines.push("");
+    lines.push(
+      `Cells known to be wrong: ${observation.checkedWrongCells.map((cell) => formatCell(cell, width)).join(", ")}`,
+    );
+  }
+  if (observation.revealedCells.length > 0) {
+    lines.push(
+      `Revealed cells: ${observation.revealedCells.map((cell) => formatCell(cell, width)).join(", ")}`,
+    );
+  }
+
+  for (const direction of ["across", "down"] as const) {
+    lines.push("");
+    lines.push(direction === "across" ? "Across:" : "Down:");
+    for (const clue of observation.clues[direction]) {
+      lines.push(
+        `  ${clue.number}. ${clue.clue} (${clue.length}) [${clue.currentFill}]`,
+      );
+    }
+  }
+
+  lines.push("");
+  lines.push(`Allowed actions: ${observation.allowedActions.join(", ")}`);
+
+  return lines.join("\n");
+}
+
+function renderHistoryEntry(
+  entry: ConnectionsHistoryEntry | CrosswordHistoryEntry,
+): string {
+  const {
+    task: _task,
+    action: name,
+    ...details
+  } = entry.action as Record<string, unknown>;
+  const args = Object.values(details)
+    .map((value) =>
+      Array.isArray(value) ? value.map(formatArg).join(", ") : String(value),
+    )
+    .join(" ");
+
+  return `  ${entry.stepIndex + 1}. ${name}${args ? ` ${args}` : ""} -> ${renderFeedback(entry.feedback, "text")}`;
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * Format one item of a list argument: a word, or the fields of an entry
+ * ("across 1 CAT")
+ */
+function formatArg(value: unknown): string {
+  return value && typeof value === "object"
+    ? Object.values(value).join(" ")
+    : String(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object"
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Format a linear cell index as r<row>c<col> (1-based)
+ */
+function formatCell(cell: number, width: number): string {
+  return `r${Math.floor(cell / width) + 1}c${(cell % width) + 1}`;
+}
@@ -15,15 +15,22 @@ interface ModelStats {
   timeouts: number;
   errors: number;
   winRate: number;
+  cleanWins: number; // wins without any reveals
+  assistedWins: number; // crossword wins that used reveals
+  score: number; // % of runs, assisted wins discounted by their reveal penalty
   avgSteps: number;
   totalTokens: number;
   promptTokens: number;
   completionTokens: number;
+  reasoningTokens: number;
+  reasoningShare: number | null; // % of completion tokens, null without reasoning data
+  strictCompliance: number | null; // % of replies valid as sent, null without data
   totalCost: number;
   avgCostPerRun: number;
   avgTokensPerRun: number;
   avgLatencyMs: number;
-  tokensPerSecond: number;
+  tokensPerSecond: number; // completion tokens per second of generation
+  avgTimeToFirstTokenMs: number | null; // null without streamed replies
   fastestWin: number | null;
   slowestWin: number | null;
   recentWins: number; // wins in last 10 runs
@@ -35,7 +42,9 @@ interface LeaderboardOptions {
   type?: "connections" | "crossword";
   since?: string; // ISO date string
   limit?: number;
-  sortBy?: "wins" | "rate" | "cost" | "tokens" | "speed";
+  sortBy?: "wins" | "rate" | "score" | "cost" | "tokens" | "speed";
+  prompt?: string; // prompt version or hash prefix
+  groupByPrompt?: boolean; // one row per model and prompt version
 }
 
 // ========================================
@@ -84,6 +93,24 @@ function formatDuration(ms: number): string {
   return `${minutes}m ${seconds}s`;
 }
 
+function getPromptLabel(run: RunSummary): string {
+  return run.promptVersion ?? run.promptHash ?? "unversioned";
+}
+
+/**
+ * Score credit of a run: 1 for a clean solve, 1 minus the share of cells
+ * revealed for an assisted one, 0 otherwise. Assisted runs recorded before
+ * reveal penalties existed get full credit.
+ */
+function getSolveCredit(run: RunSummary): number {
+  if (run.status === "success_with_reveals") {
+    const penalty =
+      "revealPenalty" in run.metrics ? (run.metrics.revealPenalty ?? 0) : 0;
+    return Math.max(0, 1 - penalty);
+  }
+  return ["success", "success_clean"].includes(run.status) ? 1 : 0;
+}
+
 function truncateText(text: string, maxWidth: number): string {
   if (text.length <= maxWidth) return text;
   return text.slice(0, maxWidth - 1) + "…";
@@ -153,7 +180,10 @@ async function collectAllRuns(runsDir: string): Promise<RunSummary[]> {
               if (await summaryFile.exists()) {
                 try {
                   const summary: RunSummary = await summaryFile.json();
-                  runs.push(summary);
+                  // Runs stopped by a budget cap say nothing about the model
+                  if (summary.status !== "budget_exceeded") {
+                    runs.push(summary);
+                  }
                 } catch {
                   // Skip invalid summaries
                 }
@@ -185,6 +215,10 @@ function calculateModelStats(
   const successStatuses = ["success", "success_clean", "success_with_reveals"];
 
   const wins = runs.filter((r) => successStatuses.includes(r.status)).length;
+  const assistedWins = runs.filter(
+    (r) => r.status === "success_with_reveals",
+  ).length;
+  const totalCredit = runs.reduce((sum, r) => sum + getSolveCredit(r), 0);
   const losses = runs.filter((r) => r.status === "fail").length;
   const timeouts = runs.filter((r) => r.status === "timeout").length;
   const errors = runs.filter((r) => r.status === "error").length;
@@ -196,8 +230,46 @@ function calculateModelStats(
     (sum, r) => sum + r.usage.completionTokens,
     0,
   );
+  const reasoningTokens = runs.reduce(
+    (sum, r) => sum + (r.usage.reasoningTokens || 0),
+    0,
+  );
+  const hasReasoningData = runs.some(
+    (r) => r.usage.reasoningTokens !== undefined,
+  );
+  const strictReplies = runs.reduce(
+    (sum, r) => sum + (r.strictReplies || 0),
+    0,
+  );
+  const replies = runs.reduce(
+    (sum, r) =>
+      sum +
+      (r.strictReplies || 0) +
+      (r.fixedReplies || 0) +
+      (r.parseFailures || 0),
+    0,
+  );
   const totalCost = runs.reduce((sum, r) => sum + (r.costCreditsTotal || 0), 0);
   const totalLatencyMs = runs.reduce((sum, r) => sum + r.latencyMsTotal, 0);
+
+  // Generation speed: streamed runs count only the time spent generating,
+  // others fall back to end-to-end latency
+  const speedTokens = runs.reduce(
+    (sum, r) => sum + (r.streamTiming?.completionTokens ?? r.usage.completionTokens),
+    0,
+  );
+  const speedMs = runs.reduce(
+    (sum, r) => sum + (r.streamTiming?.generationMsTotal ?? r.latencyMsTotal),
+    0,
+  );
+  const streamedSteps = runs.reduce(
+    (sum, r) => sum + (r.streamTiming?.steps ?? 0),
+    0,
+  );
+  const timeToFirstTokenMs = runs.reduce(
+    (sum, r) => sum + (r.streamTiming?.timeToFirstTokenMsTotal ?? 0),
+    0,
+  );
   const totalSteps = runs.reduce((sum, r) => sum + r.stepsTaken, 0);
 
   // Calculate win times for fastest/slowest
@@ -238,16 +310,26 @@ function calculateModelStats(
     timeouts,
     errors,
     winRate: totalRuns > 0 ? (wins / totalRuns) * 100 : 0,
+    cleanWins: wins - assistedWins,
+    assistedWins,
+    score: totalRuns > 0 ? (totalCredit / totalRuns) * 100 : 0,
     avgSteps: totalRuns > 0 ? totalSteps / totalRuns : 0,
     totalTokens,
     promptTokens,
     completionTokens,
+    reasoningTokens,
+    reasoningShare:
+      hasReasoningData && completionTokens > 0
+        ? (reasoningTokens / completionTokens) * 100
+        : null,
+    strictCompliance: replies > 0 ? (strictReplies / replies) * 100 : null,
     totalCost,
     avgCostPerRun: totalRuns > 0 ? totalCost / totalRuns : 0,
     avgTokensPerRun: totalRuns > 0 ? totalTokens / totalRuns : 0,
     avgLatencyMs: totalRuns > 0 ? totalLatencyMs / totalRuns : 0,
-    tokensPerSecond:
-      totalLatencyMs > 0 ? (totalTokens / totalLatencyMs) * 1000 : 0,
+    tokensPerSecond: speedMs > 0 ? (speedTokens / speedMs) * 1000 : 0,
+    avgTimeToFirstTokenMs:
+      streamedSteps > 0 ? timeToFirstTokenMs / streamedSteps : null,
     fastestWin,
     slowestWin,
     recentWins,
@@ -310,7 +392,15 @@ function createSparkline(runs: RunSummary[]): string {
 }
 
 export async function showLeaderboard(options: LeaderboardOptions): Promise<void> {
-  const { runsDir, type, since, limit = 20, sortBy = "rate" } = options;
+  const {
+    runsDir,
+    type,
+    since,
+    limit = 20,
+    sortBy = "rate",
+    prompt,
+    groupByPrompt = false,
+  } = options;
 
   // Collect all runs
   let allRuns = await collectAllRuns(runsDir);
@@ -329,18 +419,26 @@ export async function showLeaderboard(options: LeaderboardOptions): Promise<void
     const sinceDate = new Date(since);
     allRuns = allRuns.filter((r) => new Date(r.startedAt) >= sinceDate);
   }
+  if (prompt) {
+    allRuns = allRuns.filter(
+      (r) => r.promptVersion === prompt || r.promptHash?.startsWith(prompt),
+    );
+  }
 
   if (allRuns.length === 0) {
     console.log(chalk.yellow("\n  No runs match the specified filters.\n"));
     return;
   }
 
-  // Group by model
+  // Group by model (and prompt version, if requested). Named contestants
+  // are ranked separately from the plain model.
   const runsByModel = new Map<string, RunSummary[]>();
   for (const run of allRuns) {
-    const existing = runsByModel.get(run.modelId) || [];
+    const model = run.modelLabel ?? run.modelId;
+    const key = groupByPrompt ? `${model} @ ${getPromptLabel(run)}` : model;
+    const existing = runsByModel.get(key) || [];
     existing.push(run);
-    runsByModel.set(run.modelId, existing);
+    runsByModel.set(key, existing);
   }
 
   // Calculate stats for each model
@@ -357,6 +455,9 @@ export async function showLeaderboard(options: LeaderboardOptions): Promise<void
     case "rate":
       modelStats.sort((a, b) => b.winRate - a.winRate);
       break;
+    case "score":
+      modelStats.sort((a, b) => b.score - a.score);
+      break;
     case "cost":
       modelStats.sort((a, b) => a.avgCostPerRun - b.avgCostPerRun);
       break;
@@ -378,12 +479,23 @@ export async function showLeaderboard(options: LeaderboardOptions): Promise<void
   const totalModels = modelStats.length;
   const successStatuses = ["success", "success_clean", "success_with_reveals"];
   const totalWins = allRuns.filter((r) => successStatuses.includes(r.status)).length;
+  const totalAssistedWins = allRuns.filter(
+    (r) => r.status === "success_with_reveals",
+  ).length;
   const totalTokens = allRuns.reduce((sum, r) => sum + r.usage.totalTokens, 0);
   const totalCost = allRuns.reduce((sum, r) => sum + (r.costCreditsTotal || 0), 0);
+  const totalCompletionTokens = allRuns.reduce(
+    (sum, r) => sum + r.usage.completionTokens,
+    0,
+  );
+  const totalReasoningTokens = allRuns.reduce(
+    (sum, r) => sum + (r.usage.reasoningTokens || 0),
+    0,
+  );
 
   // Render header
   console.log("");
-  const headerWidth = 100;
+  const headerWidth = 131;
   console.log(
     chalk.hex("#4ECDC4").bold(
       `  ${THICK_BOX.topLeft}${THICK_BOX.horizontal.repeat(headerWidth)}${THICK_BOX.topRight}`,
@@ -412,14 +524,25 @@ export async function showLeaderboard(options: LeaderboardOptions): Promise<void
       chalk.gray("  │  Overall Win Rate: ") +
       getWinRateColor((totalWins / totalRuns) * 100)(
         `${((totalWins / totalRuns) * 100).toFixed(1)}%`,
-      ),
+      ) +
+      (totalAssistedWins > 0
+        ? chalk.gray("  │  Assisted Solves: ") +
+          chalk.hex("#F7DC6F")(totalAssistedWins.toString())
+        : ""),
   );
   console.log(
     chalk.gray("  Total Tokens: ") +
       chalk.hex("#4ECDC4")(formatNumber(totalTokens)) +
       chalk.gray("  │  Total Cost: ") +
       chalk.hex("#2ECC71")(formatCost(totalCost)) +
-      (type ? chalk.gray(`  │  Task: ${chalk.hex("#F7DC6F")(type)}`) : ""),
+      (totalReasoningTokens > 0
+        ? chalk.gray("  │  Reasoning: ") +
+          chalk.hex("#F7DC6F")(
+            `${((totalReasoningTokens / totalCompletionTokens) * 100).toFixed(1)}%`,
+          )
+        : "") +
+      (type ? chalk.gray(`  │  Task: ${chalk.hex("#F7DC6F")(type)}`) : "") +
+      (prompt ? chalk.gray(`  │  Prompt: ${chalk.hex("#F7DC6F")(prompt)}`) : ""),
   );
   console.log("");
 
@@ -430,10 +553,14 @@ export async function showLeaderboard(options: LeaderboardOptions): Promise<void
     runs: 6,
     wins: 10,
     rate: 8,
+    score: 8,
     avgSteps: 6,
     tokens: 8,
+    reasoning: 7,
+    strict: 8,
     cost: 10,
     speed: 8,
+    ttft: 8,
     trend: 6,
     streak: 7,
   };
@@ -450,10 +577,14 @@ export async function showLeaderboard(options: LeaderboardOptions): Promise<void
         padLeft("Runs", colWidths.runs) +
         padLeft("W/L", colWidths.wins) +
         padLeft("Rate", colWidths.rate) +
+        padLeft("Score", colWidths.score) +
         padLeft("Steps", colWidths.avgSteps) +
         padLeft("Tokens", colWidths.tokens) +
+        padLeft("Rsn%", colWidths.reasoning) +
+        padLeft("Strict", colWidths.strict) +
         padLeft("Cost/Run", colWidths.cost) +
         padLeft("Tok/s", colWidths.speed) +
+        padLeft("TTFT", colWidths.ttft) +
         padLeft("Trend", colWidths.trend) +
         padLeft("Streak", colWidths.streak),
     );
@@ -478,7 +609,8 @@ export async function showLeaderboard(options: LeaderboardOptions): Promise<void
     }
 
     const rateColor = getWinRateColor(stats.winRate);
-    const winsLosses = `${stats.wins}/${stats.losses}`;
+    // Assisted crossword wins are marked with a "*"
+    const winsLosses = `${stats.wins}${stats.assistedWins > 0 ? "*" : ""}/${stats.losses}`;
 
     // Build row
     const row =
@@ -488,10 +620,31 @@ export async function showLeaderboard(options: LeaderboardOptions): Promise<void
       chalk.hex("#95A5A6")(padLeft(stats.totalRuns.toString(), colWidths.runs)) +
       chalk.hex("#58D68D")(padLeft(winsLosses, colWidths.wins)) +
       rateColor(padLeft(`${stats.winRate.toFixed(1)}%`, colWidths.rate)) +
+      getWinRateColor(stats.score)(padLeft(`${stats.score.toFixed(1)}%`, colWidths.score)) +
       chalk.hex("#95A5A6")(padLeft(stats.avgSteps.toFixed(1), colWidths.avgSteps)) +
       chalk.hex("#4ECDC4")(padLeft(formatNumber(stats.avgTokensPerRun), colWidths.tokens)) +
+      chalk.hex("#F7DC6F")(
+        padLeft(
+          stats.reasoningShare !== null ? `${stats.reasoningShare.toFixed(0)}%` : "-",
+          colWidths.reasoning,
+        ),
+      ) +
+      chalk.hex("#95A5A6")(
+        padLeft(
+          stats.strictCompliance !== null ? `${stats.strictCompliance.toFixed(0)}%` : "-",
+          colWidths.strict,
+        ),
+      ) +
       chalk.hex("#2ECC71")(padLeft(formatCost(stats.avgCostPerRun), colWidths.cost)) +
       chalk.hex("#9B59B6")(padLeft(stats.tokensPerSecond.toFixed(0), colWidths.speed)) +
+      chalk.hex("#9B59B6")(
+        padLeft(
+          stats.avgTimeToFirstTokenMs !== null
+            ? formatDuration(stats.avgTimeToFirstTokenMs)
+            : "-",
+          colWidths.ttft,
+        ),
+      ) +
       padLeft(getTrendArrow(stats.recentWins), colWidths.trend) +
       padLeft(getStreakDisplay(stats.streak), colWidths.streak);
 
@@ -543,6 +696,26 @@ export async function showLeaderboard(options: LeaderboardOptions): Promise<void
       chalk.hex("#E74C3C")("↓") +
       chalk.gray(" Cold (<3 wins in last 10)"),
   );
+  console.log(
+    chalk.gray("  Score: ") +
+      chalk.gray("win rate where a crossword solved with reveals (W/L marked *) counts 1 minus the share of cells revealed"),
+  );
+  console.log(
+    chalk.gray("  Rsn%: ") +
+      chalk.gray("share of completion tokens spent on reasoning (reasoning models only)"),
+  );
+  console.log(
+    chalk.gray("  Tok/s: ") +
+      chalk.gray("completion tokens per second of generation (end-to-end latency for runs without streaming)"),
+  );
+  console.log(
+    chalk.gray("  TTFT: ") +
+      chalk.gray("mean time to first token of streamed replies"),
+  );
+  console.log(
+    chalk.gray("  Strict: ") +
+      chalk.gray("share of replies that were a valid action as sent (no fixes or repairs)"),
+  );
   console.log(
     chalk.gray("  Streak: ") +
       chalk.hex("#2ECC71")("🔥 5W") +
@@ -557,9 +730,11 @@ export async function showLeaderboard(options: LeaderboardOptions): Promise<void
   console.log(chalk.hex("#7F8C8D")("    --type <type>      Filter by puzzle type (connections/crossword)"));
   console.log(chalk.hex("#7F8C8D")("    --since <date>     Only runs after date (YYYY-MM-DD)"));
   console.log(chalk.hex("#7F8C8D")("    --limit <n>        Number of models to show (default: 20)"));
-  console.log(chalk.hex("#7F8C8D")("    --sort <by>        Sort by: wins, rate, cost, tokens, speed"));
+  console.log(chalk.hex("#7F8C8D")("    --sort <by>        Sort by: wins, rate, score, cost, tokens, speed"));
+  console.log(chalk.hex("#7F8C8D")("    --prompt <v>       Only runs with this prompt version or hash"));
+  console.log(chalk.hex("#7F8C8D")("    --by-prompt        One row per model and prompt version"));
   console.log("");
 }
 
 // Export for CLI
-export { type LeaderboardOptions, type ModelStats };
+export { calculateModelStats, type LeaderboardOptions, type ModelStats };
@@ -0,0 +1,130 @@
+import { describe, test, expect } from "bun:test";
+import { extractJson, normalizeAction } from "./action-extraction";
+import { parseAction } from "./action-parser";
+
+describe("extractJson", () => {
+  test("strict JSON needs no fixes", () => {
+    expect(extractJson('{"action":"give_up"}')).toEqual({
+      value: { action: "give_up" },
+      fixes: [],
+    });
+  });
+
+  test("pulls the JSON out of a code fence", () => {
+    const reply = 'Here is my move:\n```json\n{"action": "give_up"}\n```';
+    expect(extractJson(reply)).toEqual({
+      value: { action: "give_up" },
+      fixes: ["code_fence"],
+    });
+  });
+
+  test("skips prose and braces inside strings", () => {
+    const reply =
+      'I think {maybe} this: {"action": "fill_entry", "answer": "A}B"} done';
+    expect(extractJson(reply)).toEqual({
+      value: { action: "fill_entry", answer: "A}B" },
+      fixes: ["surrounding_text"],
+    });
+  });
+
+  test("repairs common syntax defects", () => {
+    expect(extractJson("{action: 'submit_group', words: ['A', 'B',],}"))
+      .toEqual({
+        value: { action: "submit_group", words: ["A", "B"] },
+        fixes: ["single_quotes", "unquoted_keys", "trailing_comma"],
+      });
+    expect(extractJson("{“action”: “give_up”}")?.fixes).toEqual([
+      "smart_quotes",
+    ]);
+  });
+
+  test("gives up on replies without JSON", () => {
+    expect(extractJson("I am not sure what to do.")).toBeNull();
+  });
+});
+
+describe("normalizeAction", () => {
+  test("fixes names, casing and field shapes", () => {
+    const result = normalizeAction(
+      { action: "Fill Entry", direction: "Across", number: "17" },
+      "crossword",
+    );
+    expect(result.action).toEqual({
+      task: "crossword",
+      action: "fill_entry",
+      direction: "across",
+      number: 17,
+    });
+    expect(result.fixes).toEqual([
+      "missing_task",
+      "action_name",
+      "direction_case",
+      "number_string",
+    ]);
+
+    expect(
+      normalizeAction(
+        { task: "Connections", action: "submitGroup", words: "A, B, C, D" },
+        "connections",
+      ).action,
+    ).toEqual({
+      task: "connections",
+      action: "submit_group",
+      words: ["A", "B", "C", "D"],
+    });
+  });
+
+  test("fixes cell positions and the entries of a batch fill", () => {
+    expect(
+      normalizeAction(
+        { task: "crossword", action: "check_cell", row: "2", col: " 3 " },
+        "crossword",
+      ),
+    ).toEqual({
+      action: { task: "crossword", action: "check_cell", row: 2, col: 3 },
+      fixes: ["number_string"],
+    });
+
+    const result = normalizeAction(
+      {
+        task: "crossword",
+        action: "fill_entries",
+        entries: [
+          { direction: "Across", number: "1", answer: "CAT" },
+          { direction: "DOWN", number: 2, answer: "TOX" },
+          "not an entry",
+        ],
+      },
+      "crossword",
+    );
+    expect(result.action).toEqual({
+      task: "crossword",
+      action: "fill_entries",
+      entries: [
+        { direction: "across", number: 1, answer: "CAT" },
+        { direction: "down", number: 2, answer: "TOX" },
+        "not an entry",
+      ],
+    });
+    expect(result.fixes).toEqual(["direction_case", "number_string"]);
+  });
+});
+
+describe("parseAction", () => {
+  const reply = '```\n{"task": "connections", "action": "Give Up"}\n```';
+
+  test("strict parsing rejects malformed replies", () => {
+    const result = parseAction(reply, "connections");
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.kind).toBe("parse_error");
+  });
+
+  test("lenient parsing lists its fixes", () => {
+    const result = parseAction(reply, "connections", true);
+    expect(result).toMatchObject({
+      ok: true,
+      action: { task: "connections", action: "give_up" },
+      fixes: ["code_fence", "action_name"],
+    });
+  });
+});
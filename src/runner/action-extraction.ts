@@ -0,0 +1,272 @@
+// ========================================
+// Types
+// ========================================
+
+/**
+ * A defect in a reply that lenient parsing had to work around
+ */
+export type ReplyFix =
+  | "code_fence" // JSON wrapped in a markdown code block
+  | "surrounding_text" // prose before or after the JSON object
+  | "smart_quotes" // typographic quotes instead of ASCII ones
+  | "single_quotes" // Python-style 'strings'
+  | "unquoted_keys" // {action: ...}
+  | "trailing_comma" // [1, 2,] or {"a": 1,}
+  | "missing_task" // no task field
+  | "task_name" // task in the wrong case
+  | "action_name" // e.g. "Submit Group" or "submitGroup" for submit_group
+  | "direction_case" // e.g. "Across"
+  | "number_string" // clue number, row or column as a string
+  | "words_string"; // group words as one comma-separated string
+
+export interface ExtractedJson {
+  value: unknown;
+  fixes: ReplyFix[];
+}
+
+export interface NormalizedAction {
+  action: unknown;
+  fixes: ReplyFix[];
+}
+
+// ========================================
+// JSON Extraction
+// ========================================
+
+/**
+ * Pull the first JSON object out of a reply, repairing common defects.
+ * Returns null when no candidate parses even after repairs.
+ */
+export function extractJson(content: string): ExtractedJson | null {
+  const text = content.trim();
+  const direct = tryParse(text);
+  if (direct !== undefined) {
+    return { value: direct, fixes: [] };
+  }
+
+  const fixes: ReplyFix[] = [];
+  let body = text;
+
+  const fence = body.match(/```[a-zA-Z]*[ \t]*\r?\n?([\s\S]*?)```/);
+  if (fence) {
+    body = fence[1]!.trim();
+    fixes.push("code_fence");
+  }
+
+  const candidates = findObjects(body);
+  if (candidates.length === 0) {
+    candidates.push(body);
+  }
+
+  for (const candidate of candidates) {
+    const candidateFixes = [...fixes];
+    if (candidate !== body) {
+      candidateFixes.push("surrounding_text");
+    }
+
+    const repaired = repairJson(candidate, candidateFixes);
+    if (repaired !== undefined) {
+      return { value: repaired, fixes: candidateFixes };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Try the repairs one at a time until the text parses, noting each one that
+ * changed the text
+ */
+function repairJson(text: string, fixes: ReplyFix[]): unknown {
+  let current = text;
+  const parsed = tryParse(current);
+  if (parsed !== undefined) {
+    return parsed;
+  }
+
+  const repairs: Array<[ReplyFix, (value: string) => string]> = [
+    ["smart_quotes", (value) =>
+      value.replace(/[“”]/g, '"').replace(/[‘’]/g, "'")],
+    // Only when there are no double quotes, so apostrophes in strings survive
+    ["single_quotes", (value) =>
+      value.includes('"')
+        ? value
+        : value.replace(/'((?:[^'\\]|\\.)*)'/g, (_, inner: string) =>
+            JSON.stringify(inner.replace(/\\'/g, "'")),
+          )],
+    ["unquoted_keys", (value) =>
+      value.replace(/([{,]\s*)([A-Za-z_][A-Za-z0-9_]*)(\s*:)/g, '$1"$2"$3')],
+    ["trailing_comma", (value) => value.replace(/,(\s*[}\]])/g, "$1")],
+  ];
+
+  for (const [fix, repair] of repairs) {
+    const next = repair(current);
+    if (next === current) {
+      continue;
+    }
+    current = next;
+    fixes.push(fix);
+
+    const result = tryParse(current);
+    if (result !== undefined) {
+      return result;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Balanced {...} spans in the text, outermost first, skipping braces inside
+ * strings
+ */
+function findObjects(text: string): string[] {
+  const objects: string[] = [];
+
+  let start = text.indexOf("{");
+  while (start !== -1) {
+    const end = findObjectEnd(text, start);
+    if (end !== -1) {
+      objects.push(text.slice(start, end + 1));
+    }
+    start = text.indexOf("{", end !== -1 ? end + 1 : start + 1);
+  }
+
+  return objects;
+}
+
+function findObjectEnd(text: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// ========================================
+// Action Normalization
+// ========================================
+
+/**
+ * Fix the casing and shape of action fields that models commonly get wrong,
+ * before the action is validated against its schema
+ */
+export function normalizeAction(
+  raw: unknown,
+  task: "connections" | "crossword",
+): NormalizedAction {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { action: raw, fixes: [] };
+  }
+
+  const action = { ...(raw as Record<string, unknown>) };
+  const fixes: ReplyFix[] = [];
+
+  if (action.task === undefined) {
+    action.task = task;
+    fixes.push("missing_task");
+  } else if (
+    typeof action.task === "string" &&
+    action.task !== task &&
+    action.task.trim().toLowerCase() === task
+  ) {
+    action.task = task;
+    fixes.push("task_name");
+  }
+
+  if (typeof action.action === "string") {
+    const name = action.action
+      .trim()
+      .replace(/([a-z])([A-Z])/g, "$1_$2")
+      .replace(/[\s-]+/g, "_")
+      .toLowerCase();
+    if (name !== action.action) {
+      action.action = name;
+      fixes.push("action_name");
+    }
+  }
+
+  normalizePosition(action, fixes);
+  if (Array.isArray(action.entries)) {
+    action.entries = action.entries.map((entry: unknown) => {
+      if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+        return entry;
+      }
+      const fields = { ...(entry as Record<string, unknown>) };
+      normalizePosition(fields, fixes);
+      return fields;
+    });
+  }
+
+  if (typeof action.words === "string") {
+    action.words = action.words
+      .split(",")
+      .map((word) => word.trim())
+      .filter((word) => word !== "");
+    fixes.push("words_string");
+  }
+
+  return { action, fixes };
+}
+
+/**
+ * Fix the direction casing and numeric strings of a clue or cell reference,
+ * in place. Each kind of fix is recorded once per action.
+ */
+function normalizePosition(
+  fields: Record<string, unknown>,
+  fixes: ReplyFix[],
+): void {
+  const addFix = (fix: ReplyFix) => {
+    if (!fixes.includes(fix)) {
+      fixes.push(fix);
+    }
+  };
+
+  if (
+    typeof fields.direction === "string" &&
+    fields.direction !== fields.direction.trim().toLowerCase()
+  ) {
+    fields.direction = fields.direction.trim().toLowerCase();
+    addFix("direction_case");
+  }
+
+  for (const key of ["number", "row", "col"]) {
+    const value = fields[key];
+    if (typeof value === "string" && /^\s*\d+\s*$/.test(value)) {
+      fields[key] = Number(value);
+      addFix("number_string");
+    }
+  }
+}
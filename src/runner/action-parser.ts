@@ -0,0 +1,124 @@
+import type { z } from "zod";
+
+import {
+  ConnectionsActionSchema,
+  CrosswordActionSchema,
+  extractReasoning,
+  type ConnectionsAction,
+  type CrosswordAction,
+} from "../schemas/actions";
+import type { ActionError } from "../schemas/config";
+import { extractJson, normalizeAction, type ReplyFix } from "./action-extraction";
+
+// ========================================
+// Types
+// ========================================
+
+export type ParsedAction = ConnectionsAction | CrosswordAction;
+
+export type ActionParseResult =
+  | {
+      ok: true;
+      action: ParsedAction;
+      reasoning: string | null;
+      fixes: ReplyFix[]; // defects worked around (empty for strict replies)
+    }
+  | { ok: false; error: ActionError; reasoning: string | null };
+
+// ========================================
+// Parsing
+// ========================================
+
+/**
+ * Parse a model reply into an action for the given task. Failures are
+ * reported as structured errors that can be shown back to the model.
+ *
+ * Lenient parsing also accepts JSON wrapped in prose or code fences, repairs
+ * common syntax defects and normalizes field casing, listing what it fixed.
+ */
+export function parseAction(
+  content: string,
+  task: "connections" | "crossword",
+  lenient = false,
+): ActionParseResult {
+  let rawAction: unknown;
+  const fixes: ReplyFix[] = [];
+  try {
+    rawAction = JSON.parse(content);
+  } catch (parseError) {
+    const extracted = lenient ? extractJson(content) : null;
+    if (!extracted) {
+      return {
+        ok: false,
+        error: {
+          kind: "parse_error",
+          message: `Reply is not valid JSON: ${errorMessage(parseError)}`,
+        },
+        reasoning: null,
+      };
+    }
+    rawAction = extracted.value;
+    fixes.push(...extracted.fixes);
+  }
+
+  if (lenient) {
+    const normalized = normalizeAction(rawAction, task);
+    rawAction = normalized.action;
+    fixes.push(...normalized.fixes);
+  }
+
+  const reasoning = extractReasoning(rawAction);
+  const result =
+    task === "connections"
+      ? ConnectionsActionSchema.safeParse(rawAction)
+      : CrosswordActionSchema.safeParse(rawAction);
+
+  if (!result.success) {
+    return {
+      ok: false,
+      error: {
+        kind: "schema_violation",
+        message: `Reply does not match the action schema: ${formatIssues(result.error)}`,
+      },
+      reasoning,
+    };
+  }
+
+  return { ok: true, action: result.data, reasoning, fixes };
+}
+
+/**
+ * Structured error for an action the environment rejected, if it did
+ */
+export function getInvalidActionError(feedback: unknown): ActionError | null {
+  const fields = feedback as { result?: unknown; message?: unknown } | null;
+  if (fields?.result !== "invalid_action") {
+    return null;
+  }
+  return {
+    kind: "invalid_action",
+    message:
+      typeof fields.message === "string" ? fields.message : "Invalid action",
+  };
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * Zod issues on one line, e.g. `words: Too small: expected array to have >=4 items`
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    )
+    .join("; ");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
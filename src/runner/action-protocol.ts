@@ -0,0 +1,102 @@
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ToolDefinition,
+} from "../client/types";
+import type { ActionTool } from "../schemas/actions";
+
+// ========================================
+// Types
+// ========================================
+
+/**
+ * How the model is asked to reply with an action:
+ * - json_schema: structured output constrained by the action JSON schema
+ * - tool_calls: one tool per action, and the model must call one of them
+ * - freeform_json: no constraint; the prompt alone asks for a JSON action
+ */
+export type ActionProtocol = "json_schema" | "tool_calls" | "freeform_json";
+
+export interface ActionJsonSchema {
+  name: string;
+  strict: boolean;
+  schema: Record<string, unknown>;
+}
+
+/** Request fields that carry the action format */
+export type ActionRequestFormat = Pick<
+  ChatCompletionRequest,
+  "response_format" | "tools" | "tool_choice" | "parallel_tool_calls"
+>;
+
+// ========================================
+// Requests
+// ========================================
+
+/**
+ * Request fields asking for an action under the given protocol
+ */
+export function buildActionRequestFormat(
+  protocol: ActionProtocol,
+  jsonSchema: ActionJsonSchema,
+  tools: ActionTool[],
+): ActionRequestFormat {
+  switch (protocol) {
+    case "json_schema":
+      return {
+        response_format: { type: "json_schema", json_schema: jsonSchema },
+      };
+    case "tool_calls":
+      return {
+        tools: tools.map(toToolDefinition),
+        tool_choice: "required",
+        parallel_tool_calls: false,
+      };
+    case "freeform_json":
+      return {};
+  }
+}
+
+function toToolDefinition(tool: ActionTool): ToolDefinition {
+  return {
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  };
+}
+
+// ========================================
+// Replies
+// ========================================
+
+/**
+ * The model's action as JSON text. A tool call becomes the equivalent action
+ * object; without one, the text content is the reply. Only the first call
+ * is played, as the game takes one action per step.
+ */
+export function getActionReply(
+  result: ChatCompletionResult,
+  task: "connections" | "crossword",
+): string {
+  const [call] = result.toolCalls;
+  if (!call) {
+    return result.content;
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(call.function.arguments || "{}");
+  } catch {
+    // Malformed arguments are reported as a parse error
+    return call.function.arguments;
+  }
+
+  return JSON.stringify({
+    task,
+    action: call.function.name,
+    ...(args && typeof args === "object" ? args : {}),
+  });
+}
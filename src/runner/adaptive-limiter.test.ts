@@ -0,0 +1,48 @@
+import { describe, test, expect } from "bun:test";
+import { AdaptiveLimiter } from "./adaptive-limiter";
+import { ProviderError } from "../client/types";
+
+const throttled = (retryAfterMs?: number) =>
+  Promise.reject(
+    new ProviderError("rate limited", 429, undefined, retryAfterMs)
+  );
+
+describe("AdaptiveLimiter", () => {
+  test("halves the limit on throttling and grows it back", async () => {
+    const limiter = new AdaptiveLimiter({ maxConcurrency: 8 });
+
+    await limiter.run(() => throttled()).catch(() => {});
+    expect(limiter.getState()).toMatchObject({ limit: 4, throttleCount: 1 });
+
+    // A limit's worth of successes adds one slot
+    for (let i = 0; i < 4; i++) {
+      await limiter.run(async () => "ok");
+    }
+    expect(limiter.getState().limit).toBe(5);
+  });
+
+  test("requests in flight during a cut do not cut again", async () => {
+    const limiter = new AdaptiveLimiter({ maxConcurrency: 8 });
+
+    await Promise.all(
+      Array.from({ length: 4 }, () =>
+        limiter.run(() => throttled()).catch(() => {})
+      )
+    );
+    expect(limiter.getState()).toMatchObject({ limit: 4, throttleCount: 4 });
+  });
+
+  test("Retry-After pauses every request", async () => {
+    const limiter = new AdaptiveLimiter({
+      maxConcurrency: 2,
+      adaptive: false,
+    });
+
+    await limiter.run(() => throttled(50)).catch(() => {});
+    const start = Date.now();
+    await limiter.run(async () => "ok");
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(40);
+    expect(limiter.getState().limit).toBe(2);
+  });
+});
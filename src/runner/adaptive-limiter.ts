@@ -0,0 +1,165 @@
+import { ProviderError } from "../client/types";
+
+// ========================================
+// Types
+// ========================================
+
+export interface AdaptiveLimiterState {
+  limit: number; // requests currently allowed in flight
+  maxLimit: number;
+  active: number;
+  throttleCount: number; // 429 and 5xx replies so far
+}
+
+export interface AdaptiveLimiterOptions {
+  maxConcurrency: number;
+  minConcurrency?: number;
+  // When false the limit stays at maxConcurrency; Retry-After is still honored
+  adaptive?: boolean;
+  // Called when the limit changes or a request is throttled
+  onChange?: (state: AdaptiveLimiterState, throttled: boolean) => void;
+}
+
+// ========================================
+// Adaptive Limiter
+// ========================================
+
+/**
+ * Per-model request concurrency limit that adapts to provider throttling
+ * (AIMD): the limit halves on a 429 or 5xx reply and grows back by one after
+ * a limit's worth of successful requests. A Retry-After delay pauses every
+ * request of the model, not just the one that was throttled.
+ */
+export class AdaptiveLimiter {
+  private limit: number; // fractional while growing back
+  private maxLimit: number;
+  private minLimit: number;
+  private adaptive: boolean;
+  private onChange?: AdaptiveLimiterOptions["onChange"];
+
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private pausedUntil = 0;
+  private pauseTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastDecreaseAt = -Infinity;
+  private throttleCount = 0;
+
+  constructor(options: AdaptiveLimiterOptions) {
+    this.maxLimit = Math.max(1, options.maxConcurrency);
+    this.minLimit = Math.min(options.minConcurrency ?? 1, this.maxLimit);
+    this.limit = this.maxLimit;
+    this.adaptive = options.adaptive ?? true;
+    this.onChange = options.onChange;
+  }
+
+  /**
+   * Run a request once a slot is free
+   */
+  async run<T>(request: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    const startedAt = performance.now();
+
+    try {
+      const result = await request();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isThrottleError(error)) {
+        this.onThrottle(error, startedAt);
+      }
+      throw error;
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Current limit and throttle count
+   */
+  getState(): AdaptiveLimiterState {
+    return {
+      limit: Math.floor(this.limit),
+      maxLimit: this.maxLimit,
+      active: this.active,
+      throttleCount: this.throttleCount,
+    };
+  }
+
+  private acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Start queued requests while slots are free and no pause is in effect
+   */
+  private drain(): void {
+    const waitMs = this.pausedUntil - Date.now();
+    if (waitMs > 0) {
+      if (!this.pauseTimer) {
+        this.pauseTimer = setTimeout(() => {
+          this.pauseTimer = null;
+          this.drain();
+        }, waitMs);
+      }
+      return;
+    }
+
+    while (this.queue.length > 0 && this.active < Math.floor(this.limit)) {
+      this.active++;
+      this.queue.shift()!();
+    }
+  }
+
+  /**
+   * Additive increase: one more slot per limit's worth of successes
+   */
+  private onSuccess(): void {
+    if (!this.adaptive || this.limit >= this.maxLimit) {
+      return;
+    }
+
+    const before = Math.floor(this.limit);
+    this.limit = Math.min(this.maxLimit, this.limit + 1 / before);
+    if (Math.floor(this.limit) !== before) {
+      this.onChange?.(this.getState(), false);
+    }
+  }
+
+  /**
+   * Multiplicative decrease. Requests already in flight when the limit was
+   * cut report the same overload, so they do not cut it again.
+   */
+  private onThrottle(error: ProviderError, startedAt: number): void {
+    this.throttleCount++;
+
+    if (error.retryAfterMs !== undefined && error.retryAfterMs > 0) {
+      this.pausedUntil = Math.max(
+        this.pausedUntil,
+        Date.now() + error.retryAfterMs
+      );
+    }
+
+    if (this.adaptive && startedAt > this.lastDecreaseAt) {
+      this.limit = Math.max(this.minLimit, Math.floor(this.limit / 2));
+      this.lastDecreaseAt = performance.now();
+    }
+
+    this.onChange?.(this.getState(), true);
+  }
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+function isThrottleError(error: unknown): error is ProviderError {
+  return (
+    error instanceof ProviderError &&
+    (error.statusCode === 429 ||
+      (error.statusCode >= 500 && error.statusCode < 600))
+  );
+}
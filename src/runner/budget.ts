@@ -0,0 +1,88 @@
+import type { BudgetSettings } from "../schemas/config";
+
+// ========================================
+// Types
+// ========================================
+
+export interface RunSpend {
+  costUsd: number | null; // null once a step reported no cost
+  tokens: number;
+}
+
+// ========================================
+// Budget Tracker
+// ========================================
+
+/**
+ * Tracks spend across a suite invocation and decides when a run must stop.
+ *
+ * One tracker is shared by all workers of a suite. Caps are checked before
+ * each step, so requests already in flight can overshoot a cap slightly.
+ */
+export class BudgetTracker {
+  private settings: BudgetSettings;
+  private totalUsd = 0;
+  private usdByModel = new Map<string, number>();
+
+  constructor(settings: BudgetSettings = {}) {
+    this.settings = settings;
+  }
+
+  /**
+   * Add the reported cost of a request made for a contestant
+   */
+  addCost(modelKey: string, cost: number | null): void {
+    if (cost === null) {
+      return;
+    }
+    this.totalUsd += cost;
+    this.usdByModel.set(modelKey, (this.usdByModel.get(modelKey) ?? 0) + cost);
+  }
+
+  /**
+   * Spend so far: the whole suite, or one contestant
+   */
+  getSpentUsd(modelKey?: string): number {
+    return modelKey === undefined
+      ? this.totalUsd
+      : (this.usdByModel.get(modelKey) ?? 0);
+  }
+
+  /**
+   * Whether runs have a spend cap, which needs the cost of every step
+   */
+  hasRunCostCap(): boolean {
+    return this.settings.maxUsdPerRun !== undefined;
+  }
+
+  /**
+   * The cap a run has reached, or null if it may take another step
+   */
+  getExceededCap(modelKey: string, run: RunSpend): string | null {
+    const { maxTotalUsd, maxUsdPerModel, maxUsdPerRun, maxTokensPerRun } =
+      this.settings;
+
+    if (maxTotalUsd !== undefined && this.totalUsd >= maxTotalUsd) {
+      return `maxTotalUsd ($${maxTotalUsd}) reached: suite spent $${this.totalUsd.toFixed(4)}`;
+    }
+
+    const modelUsd = this.getSpentUsd(modelKey);
+    if (maxUsdPerModel !== undefined && modelUsd >= maxUsdPerModel) {
+      return `maxUsdPerModel ($${maxUsdPerModel}) reached: ${modelKey} spent $${modelUsd.toFixed(4)}`;
+    }
+
+    if (
+      maxUsdPerRun !== undefined &&
+      run.costUsd !== null &&
+      run.costUsd >= maxUsdPerRun
+    ) {
+      return `maxUsdPerRun ($${maxUsdPerRun}) reached: run spent $${run.costUsd.toFixed(4)}`;
+    }
+
+    if (maxTokensPerRun !== undefined && run.tokens >= maxTokensPerRun) {
+      return `maxTokensPerRun (${maxTokensPerRun}) reached: run used ${run.tokens} tokens`;
+    }
+
+    return null;
+  }
+}
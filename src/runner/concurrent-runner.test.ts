@@ -0,0 +1,630 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { ConcurrentRunner } from "./concurrent-runner";
+import { findCompletedRuns, findSpentUsdByModel } from "./resume";
+import { SuiteConfigSchema, type SuiteConfig } from "../schemas/config";
+import type { ConnectionsPuzzle, CrosswordPuzzle } from "../schemas/puzzles";
+import type { RunEvent } from "../dashboard/types";
+import { calculateModelStats } from "../leaderboard";
+
+const connectionsPuzzle: ConnectionsPuzzle = {
+  id: "connections-test",
+  source: "test",
+  date: "2023-06-12",
+  words: [
+    "HAIL",
+    "RAIN",
+    "SLEET",
+    "SNOW",
+    "BUCKS",
+    "HEAT",
+    "JAZZ",
+    "NETS",
+    "OPTION",
+    "RETURN",
+    "SHIFT",
+    "TAB",
+    "KAYAK",
+    "LEVEL",
+    "MOM",
+    "RACECAR",
+  ],
+  groups: [
+    {
+      level: "yellow",
+      category: "WET WEATHER",
+      words: ["HAIL", "RAIN", "SLEET", "SNOW"],
+    },
+    {
+      level: "green",
+      category: "NBA TEAMS",
+      words: ["BUCKS", "HEAT", "JAZZ", "NETS"],
+    },
+    {
+      level: "blue",
+      category: "KEYBOARD KEYS",
+      words: ["OPTION", "RETURN", "SHIFT", "TAB"],
+    },
+    {
+      level: "purple",
+      category: "PALINDROMES",
+      words: ["KAYAK", "LEVEL", "MOM", "RACECAR"],
+    },
+  ],
+};
+
+const crosswordPuzzle: CrosswordPuzzle = {
+  id: "xword-test",
+  source: "test",
+  date: "2023-06-12",
+  width: 2,
+  height: 2,
+  grid: [".", ".", ".", "."],
+  clues: {
+    across: [
+      { number: 1, clue: "First pair", length: 2, cells: [0, 1] },
+      { number: 3, clue: "Second pair", length: 2, cells: [2, 3] },
+    ],
+    down: [
+      { number: 1, clue: "Odd letters", length: 2, cells: [0, 2] },
+      { number: 2, clue: "Even letters", length: 2, cells: [1, 3] },
+    ],
+  },
+  solution: { grid: ["A", "B", "C", "D"] },
+};
+
+function mockSuite(overrides: Record<string, unknown> = {}): SuiteConfig {
+  return SuiteConfigSchema.parse({
+    name: "mock-test",
+    models: ["mock/oracle"],
+    puzzles: { type: "connections" },
+    maxSteps: 10,
+    providers: { mock: { type: "mock", latencyMs: 0 } },
+    ...overrides,
+  });
+}
+
+describe("ConcurrentRunner with the mock provider", () => {
+  let runsDir: string;
+
+  beforeEach(async () => {
+    runsDir = await mkdtemp(join(tmpdir(), "nyt-arena-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(runsDir, { recursive: true, force: true });
+  });
+
+  test("oracle solves connections puzzles", async () => {
+    const runner = new ConcurrentRunner(mockSuite({ repeats: 2 }), runsDir);
+    const results = await runner.runSuite([connectionsPuzzle]);
+
+    expect(results.length).toBe(2);
+    for (const { summary } of results) {
+      expect(summary.status).toBe("success");
+      expect(summary.stepsTaken).toBe(4);
+      expect(summary.provider).toBe("mock");
+      expect(summary.promptHash).toMatch(/^[0-9a-f]{12}$/);
+      expect(summary.usage.totalTokens).toBeGreaterThan(0);
+      expect(summary.costCreditsTotal).toBeGreaterThan(0);
+    }
+  });
+
+  test("oracle solves crossword puzzles", async () => {
+    const config = mockSuite({ puzzles: { type: "crossword" } });
+    const runner = new ConcurrentRunner(config, runsDir);
+    const [result] = await runner.runSuite([crosswordPuzzle]);
+
+    expect(result?.summary.status).toBe("success_clean");
+    expect(result?.summary.stepsTaken).toBe(3); // two fills + submit
+  });
+
+  test("chat mode carries a truncated message history", async () => {
+    const config = mockSuite({
+      conversationMode: "chat",
+      maxHistoryTurns: 1,
+    });
+    const [result] = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+
+    expect(result?.summary.conversationMode).toBe("chat");
+
+    const steps = (await Bun.file(result!.stepsPath).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    const roles = steps.map((step) =>
+      step.request.messages.map((m: { role: string }) => m.role).join(","),
+    );
+
+    expect(roles).toEqual([
+      "system,user",
+      "system,user,assistant,user",
+      "system,user,assistant,user,assistant,user",
+      "system,user,assistant,user,assistant,user",
+    ]);
+    expect(steps[1].request.messages[3].content).toContain(
+      "Result of your last action",
+    );
+  });
+
+  test("chat mode leaves a failed request out of the history", async () => {
+    // A local model whose second request fails outright
+    let requests = 0;
+    let groups = 0;
+    const server = Bun.serve({
+      port: 0,
+      fetch: () => {
+        if (++requests === 2) {
+          return Response.json(
+            { error: { message: "Bad request" } },
+            { status: 400 },
+          );
+        }
+        const action = {
+          task: "connections",
+          action: "submit_group",
+          words: connectionsPuzzle.groups[groups++ % 4]!.words,
+        };
+        return Response.json({
+          id: `cmpl-${requests}`,
+          model: "local/model",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: JSON.stringify(action) },
+              finish_reason: "stop",
+            },
+          ],
+        });
+      },
+    });
+
+    try {
+      const config = mockSuite({
+        models: [{ id: "local/model", provider: "local" }],
+        providers: {
+          local: {
+            type: "openai-compatible",
+            baseUrl: `http://localhost:${server.port}/v1`,
+          },
+        },
+        conversationMode: "chat",
+      });
+      const [result] = await new ConcurrentRunner(config, runsDir).runSuite([
+        connectionsPuzzle,
+      ]);
+
+      const steps = (await Bun.file(result!.stepsPath).text())
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(steps[1].error).toContain("API error");
+
+      const { messages } = steps[2].request;
+      expect(messages.map((m: { role: string }) => m.role)).toEqual([
+        "system",
+        "user",
+        "assistant",
+        "user",
+      ]);
+      expect(messages[3].content).toContain('"kind": "api_error"');
+      expect(result!.summary.status).toBe("success");
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("text observations report prompt savings", async () => {
+    const config = mockSuite({ observationFormat: "text" });
+    const [result] = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+
+    expect(result?.summary.status).toBe("success");
+    expect(result?.summary.observationFormat).toBe("text");
+    expect(result?.summary.promptSavings?.estimatedTokensSaved).toBeGreaterThan(0);
+
+    const [firstStep] = (await Bun.file(result!.stepsPath).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(firstStep.request.messages[1].content).toContain(
+      "Remaining words (16)",
+    );
+  });
+
+  test("the same model can run twice as named contestants", async () => {
+    const config = mockSuite({
+      models: [
+        { id: "mock/oracle", name: "oracle-cold" },
+        { id: "mock/oracle", name: "oracle-hot", temperature: 0.9 },
+        { id: "mock/random", enabled: false },
+      ],
+    });
+    const results = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+
+    expect(results.map((r) => r.summary.modelLabel).sort()).toEqual([
+      "oracle-cold",
+      "oracle-hot",
+    ]);
+    for (const { summary, stepsPath } of results) {
+      expect(summary.modelId).toBe("mock/oracle");
+      const [firstStep] = (await Bun.file(stepsPath).text())
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(firstStep.request.params.temperature).toBe(
+        summary.modelLabel === "oracle-hot" ? 0.9 : 0,
+      );
+    }
+  });
+
+  test("duplicate models need distinct names", async () => {
+    const config = mockSuite({ models: ["mock/oracle", "mock/oracle"] });
+    await expect(
+      new ConcurrentRunner(config, runsDir).runSuite([connectionsPuzzle]),
+    ).rejects.toThrow(/listed more than once/);
+  });
+
+  test("random player is reproducible", async () => {
+    const config = mockSuite({ models: ["mock/random"], repeats: 1 });
+    const first = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+    const second = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+
+    expect(first[0]?.summary.stepsTaken).toBe(second[0]?.summary.stepsTaken);
+    expect(first[0]?.summary.usage).toEqual(second[0]!.summary.usage);
+  });
+
+  test("scripted player replays its script, then gives up", async () => {
+    const scriptPath = join(runsDir, "script.json");
+    await writeFile(
+      scriptPath,
+      JSON.stringify({
+        "connections-test": [
+          {
+            task: "connections",
+            action: "submit_group",
+            words: ["HAIL", "RAIN", "SLEET", "SNOW"],
+          },
+          "not json",
+        ],
+      }),
+    );
+
+    const config = mockSuite({ models: [`mock/scripted:${scriptPath}`] });
+    const [result] = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+
+    expect(result?.summary.stepsTaken).toBe(3);
+    expect(result?.summary.invalidActions).toBe(1);
+    expect(result?.summary.metrics).toMatchObject({ groupsFound: 1 });
+  });
+
+  test("reasoning is requested and recorded when enabled", async () => {
+    const scriptPath = join(runsDir, "script.json");
+    await writeFile(
+      scriptPath,
+      JSON.stringify([
+        {
+          reasoning: "Four kinds of precipitation",
+          task: "connections",
+          action: "submit_group",
+          words: ["HAIL", "RAIN", "SLEET", "SNOW"],
+        },
+      ]),
+    );
+
+    const config = mockSuite({
+      models: [`mock/scripted:${scriptPath}`],
+      actionReasoning: true,
+    });
+    const [result] = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+
+    const [firstStep] = (await Bun.file(result!.stepsPath).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(
+      Object.keys(firstStep.request.responseFormat.schema.properties)[0],
+    ).toBe("reasoning");
+    expect(firstStep.reasoning).toBe("Four kinds of precipitation");
+    expect(firstStep.parsedAction).not.toHaveProperty("reasoning");
+    expect(firstStep.envFeedback.result).toBe("correct");
+  });
+
+  test("reasoning tokens add up in the run usage and leaderboard", async () => {
+    // A local reasoning model that solves one group per reply
+    let replies = 0;
+    const server = Bun.serve({
+      port: 0,
+      fetch: () => {
+        const group = connectionsPuzzle.groups[replies++ % 4]!;
+        const action = {
+          task: "connections",
+          action: "submit_group",
+          words: group.words,
+        };
+        return Response.json({
+          id: `cmpl-${replies}`,
+          model: "local/thinker",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: JSON.stringify(action) },
+              finish_reason: "stop",
+            },
+          ],
+          usage: {
+            prompt_tokens: 10,
+            completion_tokens: 8,
+            total_tokens: 18,
+            completion_tokens_details: { reasoning_tokens: 6 },
+          },
+        });
+      },
+    });
+
+    try {
+      const config = mockSuite({
+        models: [
+          {
+            id: "local/thinker",
+            provider: "local",
+            reasoning: { effort: "low" },
+          },
+        ],
+        providers: {
+          local: {
+            type: "openai-compatible",
+            baseUrl: `http://localhost:${server.port}/v1`,
+          },
+        },
+      });
+      const [result] = await new ConcurrentRunner(config, runsDir).runSuite([
+        connectionsPuzzle,
+      ]);
+
+      const { summary } = result!;
+      expect(summary.stepsTaken).toBe(4);
+      expect(summary.usage).toMatchObject({
+        completionTokens: 32,
+        reasoningTokens: 24,
+      });
+
+      const stats = calculateModelStats("local/thinker", [summary]);
+      expect(stats.reasoningTokens).toBe(24);
+      expect(stats.reasoningShare).toBe(75);
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("unusable replies are repaired within the step", async () => {
+    const scriptPath = join(runsDir, "script.json");
+    const action = {
+      task: "connections",
+      action: "submit_group",
+      words: ["HAIL", "RAIN", "SLEET", "SNOW"],
+    };
+    await writeFile(scriptPath, JSON.stringify([["not json", action]]));
+
+    const config = mockSuite({
+      models: [`mock/scripted:${scriptPath}`],
+      maxRepairAttempts: 1,
+    });
+    const [result] = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+
+    expect(result?.summary.metrics).toMatchObject({ groupsFound: 1 });
+    expect(result?.summary.parseFailures).toBe(0);
+    expect(result?.summary.repairAttempts).toBe(1);
+
+    const [firstStep] = (await Bun.file(result!.stepsPath).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(firstStep.repairs).toHaveLength(1);
+    expect(firstStep.repairs[0].error.kind).toBe("parse_error");
+    expect(firstStep.envFeedback.result).toBe("correct");
+  });
+
+  test("the last error is shown in the next prompt", async () => {
+    const scriptPath = join(runsDir, "script.json");
+    await writeFile(
+      scriptPath,
+      JSON.stringify([{ task: "connections", action: "submit_group" }]),
+    );
+
+    const config = mockSuite({ models: [`mock/scripted:${scriptPath}`] });
+    const [result] = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+
+    expect(result?.summary.parseFailures).toBeGreaterThan(0);
+    expect(result?.summary.ruleViolations).toBe(0);
+
+    const [firstStep, secondStep] = (await Bun.file(result!.stepsPath).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(firstStep.actionError.kind).toBe("schema_violation");
+    expect(JSON.stringify(secondStep.request.messages)).toContain(
+      "Reply does not match the action schema",
+    );
+  });
+
+  test("tool_calls protocol offers one tool per action", async () => {
+    const config = mockSuite({ actionProtocol: "tool_calls" });
+    const [result] = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+
+    expect(result?.summary.status).toBe("success");
+    expect(result?.summary.actionProtocol).toBe("tool_calls");
+
+    const [firstStep] = (await Bun.file(result!.stepsPath).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(firstStep.request.responseFormat).toBeUndefined();
+    expect(
+      firstStep.request.tools.map((tool: any) => tool.function.name),
+    ).toEqual(["submit_group", "give_up"]);
+    expect(firstStep.response.toolCalls[0].function.name).toBe("submit_group");
+    expect(firstStep.parsedAction.action).toBe("submit_group");
+  });
+
+  test("budget caps stop runs", async () => {
+    const config = mockSuite({
+      repeats: 2,
+      budget: { maxTokensPerRun: 1 },
+    });
+    const results = await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+
+    expect(results).toHaveLength(2);
+    for (const result of results) {
+      expect(result.summary.status).toBe("budget_exceeded");
+      expect(result.summary.stepsTaken).toBe(1);
+      expect(result.summary.budgetExceeded).toContain("maxTokensPerRun");
+    }
+  });
+
+  test("resuming a narrower selection counts only its pending runs", async () => {
+    const config = mockSuite({
+      models: ["mock/oracle", "mock/random"],
+    });
+    const otherPuzzle = { ...connectionsPuzzle, id: "connections-other" };
+    await new ConcurrentRunner(config, runsDir).runSuite([
+      connectionsPuzzle,
+      otherPuzzle,
+    ]);
+
+    const [timestamp] = await readdir(join(runsDir, "mock-test"));
+    const suiteRunDir = join(runsDir, "mock-test", timestamp!);
+    const completed = await findCompletedRuns(suiteRunDir);
+    expect(completed.size).toBe(4);
+
+    const results = await new ConcurrentRunner(config, runsDir, {
+      resume: { timestamp: timestamp!, completed },
+    }).runSuite([connectionsPuzzle]);
+    expect(results).toHaveLength(0);
+
+    const suiteStarts = (await Bun.file(join(suiteRunDir, "events.jsonl")).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line))
+      .filter((entry) => entry.type === "suite_start");
+    expect(suiteStarts[1]).toMatchObject({
+      resumed: true,
+      totalRuns: 0,
+      runsByModel: { "mock/oracle": 0, "mock/random": 0 },
+    });
+  });
+
+  test("a resumed suite counts earlier spend against its caps", async () => {
+    await new ConcurrentRunner(mockSuite(), runsDir).runSuite([
+      connectionsPuzzle,
+    ]);
+    const [timestamp] = await readdir(join(runsDir, "mock-test"));
+    const suiteRunDir = join(runsDir, "mock-test", timestamp!);
+    const spent = await findSpentUsdByModel(suiteRunDir);
+    expect(spent.get("mock/oracle")).toBeGreaterThan(0);
+
+    // The first invocation alone used up the model's allowance
+    const config = mockSuite({
+      budget: { maxUsdPerModel: spent.get("mock/oracle") },
+    });
+    const otherPuzzle = { ...connectionsPuzzle, id: "connections-other" };
+    const [result] = await new ConcurrentRunner(config, runsDir, {
+      resume: {
+        timestamp: timestamp!,
+        completed: await findCompletedRuns(suiteRunDir),
+      },
+    }).runSuite([connectionsPuzzle, otherPuzzle]);
+
+    expect(result!.summary.puzzleId).toBe("connections-other");
+    expect(result!.summary.status).toBe("budget_exceeded");
+    expect(result!.summary.stepsTaken).toBe(0);
+    expect(result!.summary.budgetExceeded).toContain("maxUsdPerModel");
+  });
+
+  test("streamed replies record time to first token", async () => {
+    const config = mockSuite({
+      streaming: true,
+      providers: { mock: { type: "mock", latencyMs: 20 } },
+    });
+    const events: RunEvent[] = [];
+    const runner = new ConcurrentRunner(config, runsDir, {
+      onEvent: (event) => events.push(event),
+    });
+    const [result] = await runner.runSuite([connectionsPuzzle]);
+
+    const timing = result!.summary.streamTiming;
+    expect(timing?.steps).toBe(4);
+    expect(timing?.timeToFirstTokenMsTotal).toBeGreaterThan(0);
+    expect(timing?.generationMsTotal).toBeGreaterThan(0);
+    expect(timing?.completionTokens).toBe(
+      result!.summary.usage.completionTokens
+    );
+    expect(events.some((event) => event.type === "step_output")).toBe(true);
+  });
+
+  test("runs puzzles in parallel within the model and suite limits", async () => {
+    const config = mockSuite({
+      models: [
+        { id: "mock/oracle", concurrencyLimit: 3 },
+        { id: "mock/random", concurrencyLimit: 3 },
+      ],
+      maxConcurrentRuns: 4,
+      providers: { mock: { type: "mock", latencyMs: 20 } },
+    });
+    const puzzles = [1, 2, 3, 4].map((n) => ({
+      ...connectionsPuzzle,
+      id: `connections-${n}`,
+    }));
+
+    // Track overlapping runs from their start and complete events
+    const active = new Map<string, number>();
+    const peaks = new Map<string, number>();
+    const track = (key: string, delta: number) => {
+      const count = (active.get(key) ?? 0) + delta;
+      active.set(key, count);
+      peaks.set(key, Math.max(peaks.get(key) ?? 0, count));
+    };
+    const runner = new ConcurrentRunner(config, runsDir, {
+      onEvent: (event) => {
+        const delta =
+          event.type === "run_start" ? 1 : event.type === "run_complete" ? -1 : 0;
+        if (delta !== 0) {
+          track(event.modelId, delta);
+          track("suite", delta);
+        }
+      },
+    });
+    const results = await runner.runSuite(puzzles);
+
+    expect(results).toHaveLength(8);
+    expect(peaks.get("mock/oracle")).toBeGreaterThan(1);
+    expect(peaks.get("mock/oracle")).toBeLessThanOrEqual(3);
+    expect(peaks.get("mock/random")).toBeLessThanOrEqual(3);
+    expect(peaks.get("suite")).toBe(4);
+    expect(active.get("suite")).toBe(0);
+  });
+});
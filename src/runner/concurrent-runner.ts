@@ -11,17 +11,38 @@ import { Readable } from "stream";
 
 import { ConnectionsEnv } from "../environments/ConnectionsEnv";
 import { CrosswordEnv } from "../environments/CrosswordEnv";
+import { createModelProvider } from "../client/provider";
+import { resolveContestants, type Contestant } from "./contestants";
+import { BudgetTracker } from "./budget";
+import { AdaptiveLimiter } from "./adaptive-limiter";
+import { hashSeed } from "../utils/random";
+import { Conversation, estimatePromptSavings } from "./conversation";
+import { loadPromptSet, type PromptSet } from "./prompts";
 import {
-  OpenRouterClient,
-  createOpenRouterClient,
+  buildActionRequestFormat,
+  getActionReply,
+  type ActionRequestFormat,
+} from "./action-protocol";
+import {
+  getInvalidActionError,
+  parseAction,
+  type ParsedAction,
+} from "./action-parser";
+import {
+  ProviderError,
+  type ChatCompletionResult,
   type ChatMessage,
-} from "../client/openrouter";
+  type ModelProvider,
+  type RequestMetadata,
+} from "../client/types";
 import {
-  ConnectionsActionSchema,
   ConnectionsActionJsonSchema,
-  CrosswordActionSchema,
-  CrosswordActionJsonSchema,
-  CrosswordActionNoCheckJsonSchema,
+  ConnectionsActionTools,
+  getCrosswordActionJsonSchema,
+  getCrosswordActionTools,
+  withReasoningField,
+  withReasoningParameter,
+  type ActionTool,
   type ConnectionsAction,
   type CrosswordAction,
 } from "../schemas/actions";
@@ -30,9 +51,18 @@ import type {
   RunSummary,
   StepRecord,
   RunStatus,
+  ActionError,
 } from "../schemas/config";
 import type { ConnectionsPuzzle, CrosswordPuzzle } from "../schemas/puzzles";
 import type { RunEvent } from "../dashboard/types";
+import {
+  SUITE_SNAPSHOT_FILE,
+  countCompletedByModel,
+  findSpentUsdByModel,
+  runKey,
+  type ResumeState,
+} from "./resume";
+import { EVENT_LOG_FILE, EventLog } from "./event-log";
 
 // ========================================
 // Types
@@ -57,85 +87,153 @@ export interface RunResult {
 
 export interface ConcurrentRunnerOptions {
   onEvent?: (event: RunEvent) => void;
+  resume?: ResumeState;
 }
 
+// ========================================
+// Constants
+// ========================================
+
+/** Minimum time between partial output events of a streamed reply */
+const OUTPUT_EVENT_INTERVAL_MS = 100;
+
+/** Tail of a streamed reply carried by a partial output event */
+const PARTIAL_OUTPUT_CHARS = 200;
+
 // ========================================
 // Logger
 // ========================================
 
-const logger = pino({
-  name: "concurrent-runner",
-  level: process.env.LOG_LEVEL || "warn",
-});
+const logger = pino(
+  {
+    name: "concurrent-runner",
+    level: process.env.LOG_LEVEL || "warn",
+  },
+  pino.destination(2)
+);
 
 // ========================================
 // Worker Class - One per model
 // ========================================
 
 class ModelWorker {
-  private client: OpenRouterClient;
+  private client: ModelProvider;
+  private contestant: Contestant;
   private config: SuiteConfig;
-  private modelId: string;
-  private requestLimiter: ReturnType<typeof pLimit>;
-  private runsDir: string;
+  private requestLimiter: AdaptiveLimiter;
+  private runLimiter: ReturnType<typeof pLimit>;
+  private globalRunLimiter: ReturnType<typeof pLimit>;
+  private suiteRunDir: string;
+  private prompts: PromptSet;
+  private budget: BudgetTracker;
   private emitEvent: (event: RunEvent) => void;
 
   constructor(
-    modelId: string,
+    contestant: Contestant,
     config: SuiteConfig,
-    runsDir: string,
+    suiteRunDir: string,
+    puzzles: Puzzle[],
+    prompts: PromptSet,
+    globalRunLimiter: ReturnType<typeof pLimit>,
+    budget: BudgetTracker,
     emitEvent: (event: RunEvent) => void
   ) {
-    this.modelId = modelId;
+    this.contestant = contestant;
     this.config = config;
-    this.runsDir = runsDir;
+    this.suiteRunDir = suiteRunDir;
+    this.prompts = prompts;
+    this.globalRunLimiter = globalRunLimiter;
+    this.budget = budget;
     this.emitEvent = emitEvent;
 
-    // Create OpenRouter client
-    this.client = createOpenRouterClient({
-      defaultTemperature: config.openRouter.temperature,
-      defaultMaxTokens: config.openRouter.maxTokens,
-      defaultTopP: config.openRouter.topP,
-      includeUsage: config.openRouter.includeUsage,
+    // Create the client for the provider serving this model
+    this.client = createModelProvider(config, contestant.modelId, {
+      puzzles,
+      providerName: contestant.providerName,
     });
 
-    // Per-model request limiter
-    const modelConcurrency =
-      config.perModelConcurrency?.[modelId] || Math.ceil(config.maxConcurrentRequests / config.models.length);
-    this.requestLimiter = pLimit(modelConcurrency);
+    // Per-model request and run limiters. The request limit shrinks while
+    // the provider throttles this model.
+    this.requestLimiter = new AdaptiveLimiter({
+      maxConcurrency: contestant.concurrency,
+      adaptive: config.adaptiveConcurrency,
+      onChange: (state, throttled) =>
+        this.emitEvent({
+          type: "rate_limit",
+          modelId: contestant.key,
+          throttled,
+          concurrencyLimit: state.limit,
+          maxConcurrency: state.maxLimit,
+          throttleCount: state.throttleCount,
+          timestamp: Date.now(),
+        }),
+    });
+    this.runLimiter = pLimit(contestant.concurrency);
   }
 
   /**
-   * Process all puzzles assigned to this worker
+   * Process all puzzles assigned to this worker, skipping completed runs.
+   * Runs execute concurrently, bounded by the per-model limit and the
+   * suite-wide maxConcurrentRuns limit shared by all workers.
    */
-  async processPuzzles(puzzles: Puzzle[]): Promise<RunResult[]> {
-    const results: RunResult[] = [];
+  async processPuzzles(
+    puzzles: Puzzle[],
+    completed: Set<string> = new Set()
+  ): Promise<RunResult[]> {
+    const runPromises: Array<Promise<RunResult | null>> = [];
+
+    this.emitEvent({
+      type: "worker_start",
+      modelId: this.contestant.key,
+      timestamp: Date.now(),
+    });
 
     for (const puzzle of puzzles) {
       for (let repeat = 0; repeat < this.config.repeats; repeat++) {
-        try {
-          const result = await this.runSingleEvaluation(puzzle, repeat);
-          results.push(result);
-        } catch (error) {
-          logger.error(
-            { modelId: this.modelId, puzzleId: puzzle.id, error },
-            "Failed to run evaluation"
-          );
-          this.emitEvent({
-            type: "error",
-            modelId: this.modelId,
-            puzzleId: puzzle.id,
-            error: error instanceof Error ? error.message : String(error),
-            timestamp: Date.now(),
-          });
+        if (completed.has(runKey(this.contestant.key, puzzle.id, repeat))) {
+          continue;
         }
+
+        // Take the model slot first so a queued run never holds a global slot
+        const runId = nanoid();
+        runPromises.push(
+          this.runLimiter(() =>
+            this.globalRunLimiter(() =>
+              this.runSingleEvaluation(puzzle, repeat, runId).catch((error) => {
+                logger.error(
+                  {
+                    runId,
+                    modelId: this.contestant.key,
+                    puzzleId: puzzle.id,
+                    error,
+                  },
+                  "Failed to run evaluation"
+                );
+                // The run ends here: listeners count it as an errored run
+                this.emitEvent({
+                  type: "error",
+                  modelId: this.contestant.key,
+                  puzzleId: puzzle.id,
+                  runId,
+                  error: error instanceof Error ? error.message : String(error),
+                  timestamp: Date.now(),
+                });
+                return null;
+              })
+            )
+          )
+        );
       }
     }
 
+    const results = (await Promise.all(runPromises)).filter(
+      (result): result is RunResult => result !== null
+    );
+
     // Signal worker is done
     this.emitEvent({
       type: "worker_idle",
-      modelId: this.modelId,
+      modelId: this.contestant.key,
       timestamp: Date.now(),
     });
 
@@ -147,17 +245,14 @@ class ModelWorker {
    */
   private async runSingleEvaluation(
     puzzle: Puzzle,
-    repeatIndex: number
+    repeatIndex: number,
+    runId: string
   ): Promise<RunResult> {
-    const runId = nanoid();
     const task = "words" in puzzle ? "connections" : "crossword";
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
 
     const outputDir = join(
-      this.runsDir,
-      this.config.name,
-      timestamp,
-      this.modelId.replace(/\//g, "_"),
+      this.suiteRunDir,
+      this.contestant.key.replace(/\//g, "_"),
       puzzle.id,
       runId
     );
@@ -167,7 +262,7 @@ class ModelWorker {
     // Emit run start event
     this.emitEvent({
       type: "run_start",
-      modelId: this.modelId,
+      modelId: this.contestant.key,
       puzzleId: puzzle.id,
       runId,
       totalSteps: this.config.maxSteps,
@@ -177,7 +272,7 @@ class ModelWorker {
     logger.info(
       {
         runId,
-        modelId: this.modelId,
+        modelId: this.contestant.key,
         puzzleId: puzzle.id,
         task,
         repeat: repeatIndex,
@@ -188,7 +283,14 @@ class ModelWorker {
     const startedAt = new Date().toISOString();
     const steps: StepRecord[] = [];
     let status: RunStatus = "error";
+    let budgetExceeded: string | undefined; // the cap that stopped the run
     let invalidActions = 0;
+    let parseFailures = 0;
+    let ruleViolations = 0;
+    let repairAttempts = 0;
+    let strictReplies = 0;
+    let fixedReplies = 0;
+    let lastError: ActionError | null = null; // shown to the model next step
 
     // Initialize environment
     const env =
@@ -197,19 +299,33 @@ class ModelWorker {
     // Reset environment
     let observation: unknown;
     if (task === "connections") {
-      observation = (env as ConnectionsEnv).reset(puzzle as ConnectionsPuzzle);
+      observation = (env as ConnectionsEnv).reset(
+        puzzle as ConnectionsPuzzle,
+        hashSeed(`${puzzle.id}:${repeatIndex}`)
+      );
     } else {
       observation = (env as CrosswordEnv).reset(puzzle as CrosswordPuzzle, {
         allowChecks: this.config.crosswordRules.allowChecks,
         allowReveals: this.config.crosswordRules.allowReveals,
+        maxEntriesPerStep: this.config.crosswordRules.maxEntriesPerStep,
+        autocheck: this.config.crosswordRules.autocheck,
       });
     }
 
+    // Message history for the agent loop
+    const conversation = new Conversation(this.prompts.templates, {
+      mode: this.config.conversationMode,
+      maxHistoryTurns: this.config.maxHistoryTurns,
+      observationFormat: this.config.observationFormat,
+    });
+
     // Tracking
     let totalLatencyMs = 0;
     let totalPromptTokens = 0;
     let totalCompletionTokens = 0;
+    let totalReasoningTokens: number | undefined; // set once a step reports them
     let totalCost: number | null = 0;
+    let streamTiming: RunSummary["streamTiming"]; // set once a reply is streamed
 
     const runStartTime = Date.now();
     const runTimeout = this.config.runTimeoutMs;
@@ -223,70 +339,116 @@ class ModelWorker {
           break;
         }
 
+        // Check spend caps
+        budgetExceeded =
+          this.budget.getExceededCap(this.contestant.key, {
+            costUsd: totalCost,
+            tokens: totalPromptTokens + totalCompletionTokens,
+          }) ?? undefined;
+        if (budgetExceeded) {
+          status = "budget_exceeded";
+          break;
+        }
+
         // Emit step start
         this.emitEvent({
           type: "step_start",
-          modelId: this.modelId,
+          modelId: this.contestant.key,
           puzzleId: puzzle.id,
           runId,
           stepIndex,
           timestamp: Date.now(),
         });
 
-        // Build messages
-        const messages = this.buildMessages(task, observation);
+        // Build messages, telling the model why its last reply was rejected
+        const messages = conversation.buildMessages(
+          lastError ? { ...(observation as object), lastError } : observation
+        );
 
-        // Get JSON schema for structured output
+        // Get the action format for the suite's action protocol
         const jsonSchema = this.getJsonSchema(task);
+        const requestFormat = buildActionRequestFormat(
+          this.config.actionProtocol,
+          jsonSchema,
+          this.getActionTools(task)
+        );
 
         // Make API call with concurrency control
         const stepStartTime = Date.now();
-        let response: Awaited<
-          ReturnType<typeof this.client.chatCompletionWithRetry>
-        >;
-        let parsedAction: ConnectionsAction | CrosswordAction | null = null;
+        const metadata = { runId, puzzleId: puzzle.id, repeatIndex, stepIndex };
+        let response: ChatCompletionResult | null = null;
+        let replyText = ""; // the reply as JSON text, for parsing and history
+        let parsedAction: ParsedAction | null = null;
+        let reasoning: string | null = null;
         let error: string | null = null;
+        let actionError: ActionError | null = null;
+        let apiFailure: string | null = null; // no usable reply came back
+        let replyFixes: string[] | undefined;
+        const repairs: NonNullable<StepRecord["repairs"]> = [];
 
         try {
-          response = await this.requestLimiter(() =>
-            this.client.chatCompletionWithRetry(
-              {
-                model: this.modelId,
-                messages,
-                temperature: this.config.openRouter.temperature,
-                max_tokens: this.config.openRouter.maxTokens,
-                response_format: {
-                  type: "json_schema",
-                  json_schema: jsonSchema,
-                },
-              },
-              {
-                timeoutMs: this.config.stepTimeoutMs,
-                maxRetries: 3,
-              }
-            )
+          let reply = await this.requestAction(messages, requestFormat, metadata);
+          response = reply;
+          replyText = getActionReply(reply, task);
+          let parsed = parseAction(
+            replyText,
+            task,
+            this.config.lenientActionParsing
           );
 
-          // Parse action
-          try {
-            const rawAction = JSON.parse(response.content);
-            if (task === "connections") {
-              parsedAction = ConnectionsActionSchema.parse(rawAction);
+          // Ask for a fixed reply without spending a game step
+          while (!parsed.ok && repairs.length < this.config.maxRepairAttempts) {
+            repairs.push({
+              raw: replyText,
+              error: parsed.error,
+              latencyMs: reply.latencyMs,
+            });
+            repairAttempts++;
+
+            const repairMessages = conversation.buildRepairMessages(
+              replyText,
+              parsed.error
+            );
+            reply = await this.requestAction(repairMessages, requestFormat, {
+              ...metadata,
+              attempt: repairs.length,
+            });
+            response = this.mergeRepairResult(response, reply);
+            replyText = getActionReply(reply, task);
+            parsed = parseAction(
+              replyText,
+              task,
+              this.config.lenientActionParsing
+            );
+          }
+
+          reasoning = parsed.reasoning;
+          if (parsed.ok) {
+            parsedAction = parsed.action;
+            replyFixes = parsed.fixes;
+            if (parsed.fixes.length === 0 && repairs.length === 0) {
+              strictReplies++;
             } else {
-              parsedAction = CrosswordActionSchema.parse(rawAction);
+              fixedReplies++;
             }
-          } catch (parseError) {
-            error = `Failed to parse action: ${parseError}`;
+          } else {
+            actionError = parsed.error;
+            error = `Failed to parse action: ${parsed.error.message}`;
+            parseFailures++;
             invalidActions++;
           }
         } catch (apiError) {
-          error = `API error: ${apiError}`;
+          apiFailure = String(apiError);
+          error = `API error: ${apiFailure}`;
+          // Keep the usage of any replies received before the failure
           response = {
             id: "",
-            model: this.modelId,
+            model: this.contestant.modelId,
             content: "",
+            reasoning: null,
+            toolCalls: [],
             finishReason: "error",
-            usage: null,
+            usage: response?.usage ?? null,
             latencyMs: Date.now() - stepStartTime,
             raw: {} as any,
           };
@@ -299,30 +461,60 @@ class ModelWorker {
         const stepTokens = response.usage?.totalTokens || 0;
         const stepPromptTokens = response.usage?.promptTokens || 0;
         const stepCompletionTokens = response.usage?.completionTokens || 0;
+        const stepReasoningTokens = response.usage?.reasoningTokens;
         const stepCost = response.usage?.cost ?? null;
 
         if (response.usage) {
+          this.budget.addCost(this.contestant.key, stepCost);
           totalPromptTokens += stepPromptTokens;
           totalCompletionTokens += stepCompletionTokens;
+          if (stepReasoningTokens !== undefined) {
+            totalReasoningTokens = (totalReasoningTokens ?? 0) + stepReasoningTokens;
+          }
           if (stepCost !== null && totalCost !== null) {
             totalCost += stepCost;
           } else {
+            if (totalCost !== null && this.budget.hasRunCostCap()) {
+              logger.warn(
+                { runId, modelId: this.contestant.key, step: stepIndex },
+                "Step reported no cost: maxUsdPerRun is not enforced for the rest of the run"
+              );
+            }
             totalCost = null;
           }
         }
 
+        // Streamed replies separate waiting for the first token from
+        // generation
+        const { timeToFirstTokenMs, generationMs } = response;
+        if (timeToFirstTokenMs !== undefined && generationMs !== undefined) {
+          streamTiming ??= {
+            steps: 0,
+            timeToFirstTokenMsTotal: 0,
+            generationMsTotal: 0,
+            completionTokens: 0,
+          };
+          streamTiming.steps++;
+          streamTiming.timeToFirstTokenMsTotal += timeToFirstTokenMs;
+          streamTiming.generationMsTotal += generationMs;
+          streamTiming.completionTokens += stepCompletionTokens;
+        }
+
         // Emit step complete event
         this.emitEvent({
           type: "step_complete",
-          modelId: this.modelId,
+          modelId: this.contestant.key,
           puzzleId: puzzle.id,
           runId,
           stepIndex,
           tokens: stepTokens,
           promptTokens: stepPromptTokens,
           completionTokens: stepCompletionTokens,
+          reasoningTokens: stepReasoningTokens,
           cost: stepCost,
           latencyMs: stepLatencyMs,
+          timeToFirstTokenMs,
+          generationMs,
           timestamp: Date.now(),
         });
 
@@ -339,53 +531,80 @@ class ModelWorker {
             envFeedback = result.feedback;
 
             // Check if feedback indicates invalid action
-            if ((result.feedback as any).result === "invalid_action") {
+            actionError = getInvalidActionError(result.feedback);
+            if (actionError) {
+              ruleViolations++;
               invalidActions++;
-              if (invalidActions >= this.config.maxInvalidActions) {
-                status = "fail";
-                break;
-              }
             }
           } catch (envError) {
             error = `Environment error: ${envError}`;
+            actionError = { kind: "invalid_action", message: String(envError) };
+            ruleViolations++;
             invalidActions++;
           }
         }
+        if (apiFailure !== null) {
+          // Keep the failed request out of the chat history; the model hears
+          // about it through lastError instead
+          lastError = { kind: "api_error", message: apiFailure };
+        } else {
+          lastError = actionError;
+          // Carry the reply and its outcome into the next turn (chat mode)
+          conversation.recordReply(replyText, envFeedback ?? { error });
+        }
 
         // Record step
         const stepRecord: StepRecord = {
           stepIndex,
           observation,
           request: {
-            model: this.modelId,
+            model: this.contestant.modelId,
             messages,
             params: {
-              temperature: this.config.openRouter.temperature,
-              maxTokens: this.config.openRouter.maxTokens,
-              topP: this.config.openRouter.topP,
+              temperature: this.contestant.temperature,
+              maxTokens: this.contestant.maxTokens,
+              topP: this.contestant.topP,
+              reasoning: this.contestant.reasoning,
             },
-            responseFormat: jsonSchema,
+            responseFormat: requestFormat.response_format?.json_schema,
+            tools: requestFormat.tools,
           },
           response: {
-            raw: response.content,
+            raw: replyText,
             parsed: parsedAction,
+            reasoning: response.reasoning ?? undefined,
+            ...(response.toolCalls.length > 0 && {
+              toolCalls: response.toolCalls,
+            }),
           },
           parsedAction,
+          reasoning,
           envFeedback,
           usage: response.usage
             ? {
                 promptTokens: response.usage.promptTokens,
                 completionTokens: response.usage.completionTokens,
                 totalTokens: response.usage.totalTokens,
+                reasoningTokens: response.usage.reasoningTokens,
                 cost: response.usage.cost,
               }
             : null,
           latencyMs: stepLatencyMs,
+          timeToFirstTokenMs,
+          generationMs,
           error,
+          actionError,
+          replyFixes,
+          ...(repairs.length > 0 && { repairs }),
         };
 
         steps.push(stepRecord);
 
+        if (actionError && invalidActions >= this.config.maxInvalidActions) {
+          status = "fail";
+          break;
+        }
+
         // Check if done
         const isDone =
           task === "connections"
@@ -438,19 +657,39 @@ class ModelWorker {
       suiteName: this.config.name,
       startedAt,
       endedAt,
-      modelId: this.modelId,
+      modelId: this.contestant.modelId,
+      modelLabel: this.contestant.name,
       puzzleId: puzzle.id,
       task,
+      repeatIndex,
+      provider: this.contestant.providerName,
+      conversationMode: this.config.conversationMode,
+      promptHash: this.prompts.hash,
+      promptVersion: this.prompts.version,
+      observationFormat: this.config.observationFormat,
+      actionProtocol: this.config.actionProtocol,
+      promptSavings: estimatePromptSavings(
+        conversation.getPromptSizeStats(),
+        totalPromptTokens
+      ),
       status,
+      budgetExceeded,
       stepsTaken: steps.length,
       invalidActions,
+      parseFailures,
+      ruleViolations,
+      repairAttempts,
+      strictReplies,
+      fixedReplies,
       usage: {
         promptTokens: totalPromptTokens,
         completionTokens: totalCompletionTokens,
         totalTokens: totalPromptTokens + totalCompletionTokens,
+        reasoningTokens: totalReasoningTokens,
       },
       latencyMsTotal: totalLatencyMs,
       costCreditsTotal: totalCost,
+      streamTiming,
       metrics,
     };
 
@@ -471,13 +710,13 @@ class ModelWorker {
         ? "success"
         : status === "fail"
         ? "fail"
-        : status === "timeout"
-        ? "timeout"
+        : status === "timeout" || status === "budget_exceeded"
+        ? status
         : "error";
 
     this.emitEvent({
       type: "run_complete",
-      modelId: this.modelId,
+      modelId: this.contestant.key,
       puzzleId: puzzle.id,
       runId,
       status: runStatus,
@@ -490,7 +729,7 @@ class ModelWorker {
     logger.info(
       {
         runId,
-        modelId: this.modelId,
+        modelId: this.contestant.key,
         puzzleId: puzzle.id,
         status,
         steps: steps.length,
@@ -506,27 +745,128 @@ class ModelWorker {
   }
 
   /**
-   * Build messages for the LLM
+   * Request an action from the model with concurrency control. Every attempt,
+   * retries included, goes through the adaptive request limiter, and its
+   * start and any retry are reported as events.
    */
-  private buildMessages(
-    task: "connections" | "crossword",
-    observation: unknown
-  ): ChatMessage[] {
-    const systemMessage =
-      task === "connections"
-        ? CONNECTIONS_SYSTEM_PROMPT
-        : CROSSWORD_SYSTEM_PROMPT;
-
-    return [
+  private requestAction(
+    messages: ChatMessage[],
+    requestFormat: ActionRequestFormat,
+    metadata: RequestMetadata
+  ): Promise<ChatCompletionResult> {
+    let attempts = 0;
+    return this.client.chatCompletionWithRetry(
       {
-        role: "system",
-        content: systemMessage,
+        model: this.contestant.modelId,
+        messages,
+        temperature: this.contestant.temperature,
+        max_tokens: this.contestant.maxTokens,
+        top_p: this.contestant.topP,
+        reasoning: this.contestant.reasoning,
+        ...requestFormat,
+        metadata,
       },
       {
-        role: "user",
-        content: `Current game state:\n\n${JSON.stringify(observation, null, 2)}`,
-      },
-    ];
+        timeoutMs: this.config.stepTimeoutMs,
+        maxRetries: 3,
+        stream: this.config.streaming,
+        onPartialOutput: this.createOutputReporter(metadata),
+        schedule: (attempt) => {
+          const queuedAt = Date.now();
+          return this.requestLimiter.run(() => {
+            this.emitEvent({
+              type: "request_start",
+              modelId: this.contestant.key,
+              puzzleId: metadata.puzzleId,
+              runId: metadata.runId,
+              stepIndex: metadata.stepIndex,
+              attempt: attempts++,
+              queueMs: Date.now() - queuedAt,
+              timestamp: Date.now(),
+            });
+            return attempt();
+          });
+        },
+        onRetry: ({ attempt, delayMs, error }) =>
+          this.emitEvent({
+            type: "request_retry",
+            modelId: this.contestant.key,
+            puzzleId: metadata.puzzleId,
+            runId: metadata.runId,
+            stepIndex: metadata.stepIndex,
+            attempt,
+            delayMs,
+            statusCode:
+              error instanceof ProviderError ? error.statusCode : undefined,
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: Date.now(),
+          }),
+      }
+    );
+  }
+
+  /**
+   * Report the partial output of a streamed reply to the dashboard, at most
+   * every OUTPUT_EVENT_INTERVAL_MS
+   */
+  private createOutputReporter(
+    metadata: RequestMetadata
+  ): (text: string) => void {
+    let lastEmit = 0;
+    return (text) => {
+      const now = Date.now();
+      if (now - lastEmit < OUTPUT_EVENT_INTERVAL_MS) {
+        return;
+      }
+      lastEmit = now;
+      this.emitEvent({
+        type: "step_output",
+        modelId: this.contestant.key,
+        puzzleId: metadata.puzzleId,
+        runId: metadata.runId,
+        stepIndex: metadata.stepIndex,
+        partialOutput: text.slice(-PARTIAL_OUTPUT_CHARS),
+        timestamp: now,
+      });
+    };
+  }
+
+  /**
+   * Fold a repair reply into the step's response: the repaired reply is used,
+   * usage, latency and generation time cover every attempt, and the time to
+   * first token is the first attempt's
+   */
+  private mergeRepairResult(
+    previous: ChatCompletionResult,
+    repaired: ChatCompletionResult
+  ): ChatCompletionResult {
+    const a = previous.usage;
+    const b = repaired.usage;
+    const usage =
+      a && b
+        ? {
+            promptTokens: a.promptTokens + b.promptTokens,
+            completionTokens: a.completionTokens + b.completionTokens,
+            totalTokens: a.totalTokens + b.totalTokens,
+            reasoningTokens:
+              a.reasoningTokens !== undefined || b.reasoningTokens !== undefined
+                ? (a.reasoningTokens ?? 0) + (b.reasoningTokens ?? 0)
+                : undefined,
+            cost: a.cost !== null && b.cost !== null ? a.cost + b.cost : null,
+          }
+        : (a ?? b);
+
+    return {
+      ...repaired,
+      usage,
+      latencyMs: previous.latencyMs + repaired.latencyMs,
+      timeToFirstTokenMs: previous.timeToFirstTokenMs,
+      generationMs:
+        previous.generationMs !== undefined &&
+        repaired.generationMs !== undefined
+          ? previous.generationMs + repaired.generationMs
+          : undefined,
+    };
   }
 
   /**
@@ -535,15 +875,28 @@ class ModelWorker {
   private getJsonSchema(
     task: "connections" | "crossword"
   ): { name: string; strict: boolean; schema: Record<string, unknown> } {
-    if (task === "connections") {
-      return ConnectionsActionJsonSchema;
-    }
+    const jsonSchema =
+      task === "connections"
+        ? ConnectionsActionJsonSchema
+        : getCrosswordActionJsonSchema(this.config.crosswordRules);
 
-    if (this.config.crosswordRules.allowChecks) {
-      return CrosswordActionJsonSchema;
-    }
+    return this.config.actionReasoning
+      ? withReasoningField(jsonSchema)
+      : jsonSchema;
+  }
+
+  /**
+   * Get the action tools for the tool_calls protocol
+   */
+  private getActionTools(task: "connections" | "crossword"): ActionTool[] {
+    const tools =
+      task === "connections"
+        ? ConnectionsActionTools
+        : getCrosswordActionTools(this.config.crosswordRules);
 
-    return CrosswordActionNoCheckJsonSchema;
+    return this.config.actionReasoning
+      ? tools.map(withReasoningParameter)
+      : tools;
   }
 
   /**
@@ -584,11 +937,38 @@ export class ConcurrentRunner extends EventEmitter {
   private config: SuiteConfig;
   private runsDir: string;
   private workers: Map<string, ModelWorker> = new Map();
+  private resume: ResumeState | null;
+  private timestamp: string | null = null;
 
-  constructor(config: SuiteConfig, runsDir: string = "runs") {
+  constructor(
+    config: SuiteConfig,
+    runsDir: string = "runs",
+    options: ConcurrentRunnerOptions = {}
+  ) {
     super();
     this.config = config;
     this.runsDir = runsDir;
+    this.resume = options.resume ?? null;
+
+    if (options.onEvent) {
+      this.on("event", options.onEvent);
+    }
+  }
+
+  /**
+   * Directory holding all runs of this suite invocation
+   */
+  getSuiteRunDir(): string {
+    return join(this.runsDir, this.config.name, this.getTimestamp());
+  }
+
+  private getTimestamp(): string {
+    if (!this.timestamp) {
+      this.timestamp =
+        this.resume?.timestamp ??
+        new Date().toISOString().replace(/[:.]/g, "-");
+    }
+    return this.timestamp;
   }
 
   /**
@@ -596,52 +976,126 @@ export class ConcurrentRunner extends EventEmitter {
    */
   async runSuite(puzzles: Puzzle[]): Promise<RunResult[]> {
     const startTime = Date.now();
+    const suiteRunDir = this.getSuiteRunDir();
+    const completed = this.resume?.completed ?? new Set<string>();
+    const contestants = resolveContestants(this.config);
 
     logger.info(
       {
         suiteName: this.config.name,
-        models: this.config.models.length,
+        models: contestants.length,
         puzzles: puzzles.length,
         repeats: this.config.repeats,
         totalRuns:
-          this.config.models.length * puzzles.length * this.config.repeats,
+          contestants.length * puzzles.length * this.config.repeats,
+        alreadyCompleted: completed.size,
+        suiteRunDir,
       },
-      "Starting concurrent benchmark suite"
+      this.resume
+        ? "Resuming concurrent benchmark suite"
+        : "Starting concurrent benchmark suite"
     );
 
-    // Create a worker for each model
+    // Snapshot the suite config so the invocation can be resumed later
+    await mkdir(suiteRunDir, { recursive: true });
+    const snapshotFile = Bun.file(join(suiteRunDir, SUITE_SNAPSHOT_FILE));
+    if (!(await snapshotFile.exists())) {
+      await writeFile(
+        join(suiteRunDir, SUITE_SNAPSHOT_FILE),
+        JSON.stringify(this.config, null, 2)
+      );
+    }
+
+    // Log every event of this invocation (except streamed output) next to
+    // the runs, and hand it to listeners
+    const eventLog = new EventLog(join(suiteRunDir, EVENT_LOG_FILE));
     const emitEvent = (event: RunEvent) => {
+      if (event.type !== "step_output") {
+        eventLog.append(event);
+      }
       this.emit("event", event);
     };
 
-    for (const modelId of this.config.models) {
+    // Prompt templates shared by all workers
+    const prompts = await loadPromptSet(this.config, this.config.puzzles.type);
+
+    // Suite-wide run limit and spend caps shared by all workers
+    const globalRunLimiter = pLimit(this.config.maxConcurrentRuns);
+    const budget = new BudgetTracker(this.config.budget);
+    if (this.resume) {
+      // Spend from earlier invocations still counts against the caps
+      for (const [key, usd] of await findSpentUsdByModel(suiteRunDir)) {
+        budget.addCost(key, usd);
+      }
+    }
+
+    for (const contestant of contestants) {
       const worker = new ModelWorker(
-        modelId,
+        contestant,
         this.config,
-        this.runsDir,
+        suiteRunDir,
+        puzzles,
+        prompts,
+        globalRunLimiter,
+        budget,
         emitEvent
       );
-      this.workers.set(modelId, worker);
+      this.workers.set(contestant.key, worker);
     }
 
-    // Run all workers concurrently - each model processes all puzzles
-    const workerPromises = Array.from(this.workers.entries()).map(
-      ([modelId, worker]) => worker.processPuzzles(puzzles)
+    const totalRuns = contestants.length * puzzles.length * this.config.repeats;
+    const completedByModel = countCompletedByModel(
+      completed,
+      contestants.map((c) => c.key),
+      puzzles.map((p) => p.id),
+      this.config.repeats
     );
+    // Pending runs of this selection (completed runs outside it don't count)
+    const runsByModel = Object.fromEntries(
+      contestants.map((c) => [
+        c.key,
+        puzzles.length * this.config.repeats -
+          (completedByModel.get(c.key) ?? 0),
+      ])
+    );
+    eventLog.append({
+      type: "suite_start",
+      suiteName: this.config.name,
+      resumed: this.resume !== null,
+      models: contestants.map((c) => c.key),
+      totalRuns: Object.values(runsByModel).reduce((sum, n) => sum + n, 0),
+      runsByModel,
+      timestamp: Date.now(),
+    });
 
-    // Wait for all workers to complete
-    const workerResults = await Promise.all(workerPromises);
+    let results: RunResult[] = [];
+    try {
+      // Run all workers concurrently - each model processes all puzzles
+      const workerPromises = Array.from(this.workers.entries()).map(
+        ([modelId, worker]) => worker.processPuzzles(puzzles, completed)
+      );
 
-    // Flatten results
-    const results = workerResults.flat();
+      // Wait for all workers to complete
+      const workerResults = await Promise.all(workerPromises);
+
+      // Flatten results
+      results = workerResults.flat();
+    } finally {
+      eventLog.append({
+        type: "suite_complete",
+        suiteName: this.config.name,
+        completedRuns: results.length,
+        timestamp: Date.now(),
+      });
+      await eventLog.close();
+    }
 
     const duration = Date.now() - startTime;
     logger.info(
       {
         suiteName: this.config.name,
         completedRuns: results.length,
-        totalRuns:
-          this.config.models.length * puzzles.length * this.config.repeats,
+        totalRuns,
         durationMs: duration,
       },
       "Concurrent benchmark suite complete"
@@ -651,54 +1105,14 @@ export class ConcurrentRunner extends EventEmitter {
   }
 }
 
-// ========================================
-// System Prompts
-// ========================================
-
-const CONNECTIONS_SYSTEM_PROMPT = `You are an expert puzzle solver playing NYT Connections.
-
-Your task is to identify groups of 4 related words from the 16 given words.
-You must respond with a valid JSON action.
-
-IMPORTANT:
-- Analyze the words carefully before guessing.
-- Look for subtle connections - words can be tricky.
-- Pay attention to "one away" feedback if you get it.
-- You have only 4 mistakes allowed.
-
-Respond ONLY with a JSON object for your action. Do not include any other text.
-
-Example actions:
-- Submit a group: {"task":"connections","action":"submit_group","words":["WORD1","WORD2","WORD3","WORD4"]}
-- Give up: {"task":"connections","action":"give_up"}`;
-
-const CROSSWORD_SYSTEM_PROMPT = `You are an expert crossword solver playing an NYT-style crossword puzzle.
-
-Your task is to fill in the crossword grid based on the clues provided.
-You must respond with a valid JSON action.
-
-IMPORTANT:
-- Read clues carefully and consider crossing letters.
-- Answers should be uppercase letters only.
-- You can check entries to verify correctness (if allowed).
-- Submit only when confident the puzzle is complete.
-
-Respond ONLY with a JSON object for your action. Do not include any other text.
-
-Example actions:
-- Fill entry: {"task":"crossword","action":"fill_entry","direction":"across","number":1,"answer":"HELLO"}
-- Clear entry: {"task":"crossword","action":"clear_entry","direction":"across","number":1}
-- Check entry: {"task":"crossword","action":"check_entry","direction":"across","number":1}
-- Submit puzzle: {"task":"crossword","action":"submit_puzzle"}
-- Give up: {"task":"crossword","action":"give_up"}`;
-
 // ========================================
 // Export factory function
 // ========================================
 
 export function createConcurrentRunner(
   config: SuiteConfig,
-  runsDir?: string
+  runsDir?: string,
+  options?: ConcurrentRunnerOptions
 ): ConcurrentRunner {
-  return new ConcurrentRunner(config, runsDir);
+  return new ConcurrentRunner(config, runsDir, options);
 }
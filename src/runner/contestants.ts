@@ -0,0 +1,102 @@
+import { getProviderName, getReasoningSettings } from "../client/provider";
+import type {
+  ModelConfig,
+  ReasoningSettings,
+  SuiteConfig,
+} from "../schemas/config";
+
+// ========================================
+// Types
+// ========================================
+
+/**
+ * A model entry of a suite with all of its settings resolved
+ */
+export interface Contestant {
+  key: string; // unique within the suite: the display name, or the model ID
+  modelId: string;
+  name?: string; // display name from the suite config
+  providerName: string;
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+  reasoning?: ReasoningSettings;
+  concurrency: number; // max concurrent runs and requests
+}
+
+// ========================================
+// Resolution
+// ========================================
+
+/**
+ * Resolve the enabled models of a suite into contestants.
+ *
+ * Entries may be model IDs or model configs. Per-model records
+ * (modelProviders, perModelConcurrency, perModelReasoning) are looked up by
+ * display name first, then by model ID; settings in the entry itself win.
+ */
+export function resolveContestants(config: SuiteConfig): Contestant[] {
+  const entries: ModelConfig[] = config.models
+    .map((entry) =>
+      typeof entry === "string" ? { id: entry, enabled: true } : entry,
+    )
+    .filter((entry) => entry.enabled);
+
+  const defaultConcurrency = Math.ceil(
+    config.maxConcurrentRequests / Math.max(1, entries.length),
+  );
+
+  const contestants: Contestant[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const key = entry.name ?? entry.id;
+    if (seen.has(key)) {
+      throw new Error(
+        `Model "${key}" is listed more than once. Give each entry a unique "name".`,
+      );
+    }
+    seen.add(key);
+
+    const reasoning = {
+      ...getReasoningSettings(config, entry.id),
+      ...(entry.name !== undefined && config.perModelReasoning?.[entry.name]),
+      ...entry.reasoning,
+    };
+
+    contestants.push({
+      key,
+      modelId: entry.id,
+      name: entry.name,
+      providerName:
+        entry.provider ??
+        lookup(config.modelProviders, entry) ??
+        getProviderName(config, entry.id),
+      temperature: entry.temperature ?? config.openRouter.temperature,
+      maxTokens: entry.maxTokens ?? config.openRouter.maxTokens,
+      topP: entry.topP ?? config.openRouter.topP,
+      reasoning: Object.keys(reasoning).length > 0 ? reasoning : undefined,
+      concurrency:
+        entry.concurrencyLimit ??
+        lookup(config.perModelConcurrency, entry) ??
+        defaultConcurrency,
+    });
+  }
+
+  return contestants;
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * Look up a per-model record entry by display name, then by model ID
+ */
+function lookup<T>(
+  record: Record<string, T> | undefined,
+  entry: ModelConfig,
+): T | undefined {
+  const byName = entry.name !== undefined ? record?.[entry.name] : undefined;
+  return byName ?? record?.[entry.id];
+}
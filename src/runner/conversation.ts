@@ -0,0 +1,206 @@
+import type { ChatMessage } from "../client/types";
+import type { ActionError } from "../schemas/config";
+import {
+  renderFeedback,
+  type ObservationFormat,
+} from "../environments/renderers";
+import {
+  buildPromptVariables,
+  renderTemplate,
+  type PromptTemplates,
+} from "./prompts";
+
+// ========================================
+// Types
+// ========================================
+
+export type ConversationMode = "stateless" | "chat";
+
+export interface ConversationOptions {
+  mode: ConversationMode;
+  maxHistoryTurns?: number; // chat mode: most recent exchanges kept
+  observationFormat?: ObservationFormat; // defaults to json
+}
+
+export interface PromptSizeStats {
+  sentChars: number; // prompt characters actually sent
+  jsonChars: number; // the same prompts with JSON-rendered observations
+}
+
+// ========================================
+// Conversation
+// ========================================
+
+/**
+ * Builds the messages sent to the model at each step of a run.
+ *
+ * In stateless mode every step is a fresh system + user prompt. In chat mode
+ * the opening user turn and the model's first reply are pinned, and every
+ * later step adds a follow-up turn (environment feedback and current state),
+ * followed by the model's reply. When maxHistoryTurns is set, only that many
+ * of the most recent exchanges are kept after the pinned ones.
+ *
+ * With a non-JSON observation format, a shadow conversation rendered as JSON
+ * is kept alongside so prompt-size savings can be reported.
+ */
+export class Conversation {
+  private templates: PromptTemplates;
+  private options: ConversationOptions;
+  private opening: ChatMessage[] = [];
+  private exchanges: ChatMessage[][] = [];
+  private pendingUser: ChatMessage | null = null;
+  private lastMessages: ChatMessage[] = [];
+  private lastFeedback: unknown = null;
+  private format: ObservationFormat;
+  private jsonBaseline: Conversation | null = null;
+  private stats: PromptSizeStats = { sentChars: 0, jsonChars: 0 };
+
+  constructor(templates: PromptTemplates, options: ConversationOptions) {
+    this.templates = templates;
+    this.options = options;
+    this.format = options.observationFormat ?? "json";
+
+    if (this.format !== "json") {
+      this.jsonBaseline = new Conversation(templates, {
+        ...options,
+        observationFormat: "json",
+      });
+    }
+  }
+
+  /**
+   * Prompt characters sent so far, and what JSON observations would have cost
+   */
+  getPromptSizeStats(): PromptSizeStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Messages for the next request, given the current observation
+   */
+  buildMessages(observation: unknown): ChatMessage[] {
+    const messages = this.render(observation);
+    this.lastMessages = messages;
+    this.countSent(messages, this.jsonBaseline?.buildMessages(observation));
+    return messages;
+  }
+
+  /**
+   * Messages asking the model to fix a reply to the last built messages that
+   * could not be played. The exchange is not kept in the chat history.
+   */
+  buildRepairMessages(reply: string, error: ActionError): ChatMessage[] {
+    const messages: ChatMessage[] = [
+      ...this.lastMessages,
+      { role: "assistant", content: reply },
+      {
+        role: "user",
+        content: renderTemplate(this.templates.repair, {
+          error: error.message,
+          errorKind: error.kind,
+        }),
+      },
+    ];
+    this.lastMessages = messages;
+    this.countSent(
+      messages,
+      this.jsonBaseline?.buildRepairMessages(reply, error),
+    );
+    return messages;
+  }
+
+  /**
+   * Add sent messages (and their JSON-observation equivalent) to the stats
+   */
+  private countSent(
+    messages: ChatMessage[],
+    jsonMessages: ChatMessage[] | undefined,
+  ): void {
+    const sentChars = countChars(messages);
+    this.stats.sentChars += sentChars;
+    this.stats.jsonChars += jsonMessages ? countChars(jsonMessages) : sentChars;
+  }
+
+  /**
+   * Render the messages for the next request
+   */
+  private render(observation: unknown): ChatMessage[] {
+    const variables = buildPromptVariables(observation, this.format);
+    const system: ChatMessage = {
+      role: "system",
+      content: renderTemplate(this.templates.system, variables),
+    };
+
+    if (this.options.mode === "stateless" || this.opening.length === 0) {
+      const user: ChatMessage = {
+        role: "user",
+        content: renderTemplate(this.templates.user, variables),
+      };
+      this.pendingUser = user;
+      return [system, user];
+    }
+
+    const user: ChatMessage = {
+      role: "user",
+      content: renderTemplate(this.templates.followUp, {
+        ...variables,
+        feedback: renderFeedback(this.lastFeedback, this.format),
+      }),
+    };
+    this.pendingUser = user;
+
+    const maxTurns = this.options.maxHistoryTurns;
+    const kept =
+      maxTurns === undefined
+        ? this.exchanges
+        : this.exchanges.slice(Math.max(0, this.exchanges.length - maxTurns));
+
+    return [system, ...this.opening, ...kept.flat(), user];
+  }
+
+  /**
+   * Record the model's reply to the last built messages and the feedback it
+   * earned (environment feedback, or the error that prevented acting on it)
+   */
+  recordReply(reply: string, feedback: unknown): void {
+    this.jsonBaseline?.recordReply(reply, feedback);
+
+    if (this.options.mode === "stateless" || !this.pendingUser) {
+      return;
+    }
+
+    const assistant: ChatMessage = { role: "assistant", content: reply };
+    if (this.opening.length === 0) {
+      this.opening = [this.pendingUser, assistant];
+    } else {
+      this.exchanges.push([this.pendingUser, assistant]);
+    }
+
+    this.pendingUser = null;
+    this.lastFeedback = feedback;
+  }
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * Estimate the prompt tokens saved compared with JSON observations, assuming
+ * tokens scale with characters
+ */
+export function estimatePromptSavings(
+  stats: PromptSizeStats,
+  promptTokens: number,
+): PromptSizeStats & { estimatedTokensSaved: number } {
+  const estimatedTokensSaved =
+    stats.sentChars > 0
+      ? Math.round(promptTokens * (stats.jsonChars / stats.sentChars - 1))
+      : 0;
+
+  return { ...stats, estimatedTokensSaved };
+}
+
+function countChars(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => sum + m.content.length, 0);
+}
@@ -0,0 +1,30 @@
+import { describe, test, expect } from "bun:test";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { resolveContestants } from "./contestants";
+import { estimateSuiteCost } from "./cost-estimate";
+import { SuiteConfigSchema } from "../schemas/config";
+
+describe("estimateSuiteCost", () => {
+  test("prices scripted mock models like the other mock models", async () => {
+    const config = SuiteConfigSchema.parse({
+      name: "mock-test",
+      models: ["mock/oracle", "mock/scripted:scripts/give-up.json"],
+      puzzles: { type: "connections" },
+      providers: { mock: { type: "mock", latencyMs: 0 } },
+    });
+    const contestants = resolveContestants(config);
+
+    const { models } = await estimateSuiteCost(
+      config,
+      contestants,
+      new Map(contestants.map((contestant) => [contestant.key, 1])),
+      join(tmpdir(), "nyt-arena-no-runs"),
+    );
+
+    const [oracle, scripted] = models;
+    expect(oracle!.pricing).not.toBeNull();
+    expect(scripted!.pricing).toEqual(oracle!.pricing);
+  });
+});
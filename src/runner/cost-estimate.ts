@@ -0,0 +1,172 @@
+import { getModelListId } from "../client/mock";
+import { createModelProvider } from "../client/provider";
+import type { ModelInfo } from "../client/types";
+import type { RunSummary, SuiteConfig } from "../schemas/config";
+import type { Contestant } from "./contestants";
+
+// ========================================
+// Types
+// ========================================
+
+export interface ModelCostEstimate {
+  key: string;
+  modelId: string;
+  pendingRuns: number;
+  // Where the tokens-per-run averages come from: earlier runs of this model,
+  // earlier runs of any model on the same task, or nothing
+  historySource: "model" | "task" | "none";
+  historyRuns: number;
+  promptTokensPerRun: number | null;
+  completionTokensPerRun: number | null;
+  pricing: { prompt: number; completion: number } | null; // USD per token
+  estimatedUsd: number | null; // null without history or pricing
+}
+
+export interface SuiteCostEstimate {
+  models: ModelCostEstimate[];
+  totalUsd: number | null; // null if any model could not be estimated
+}
+
+// ========================================
+// Estimation
+// ========================================
+
+/**
+ * Estimate what the pending runs of a suite will cost, from average tokens
+ * per run in earlier summaries under runsDir and per-token model pricing
+ * reported by each provider's getModels.
+ */
+export async function estimateSuiteCost(
+  config: SuiteConfig,
+  contestants: Contestant[],
+  pendingRuns: Map<string, number>,
+  runsDir: string,
+): Promise<SuiteCostEstimate> {
+  const history = (await collectSummaries(runsDir)).filter(
+    (summary) => summary.task === config.puzzles.type,
+  );
+  const taskAverage = averageTokens(history);
+  const catalogs = new Map<string, Promise<ModelInfo[]>>();
+
+  const models: ModelCostEstimate[] = [];
+  for (const contestant of contestants) {
+    const modelHistory = history.filter(
+      (summary) => summary.modelId === contestant.modelId,
+    );
+    const average =
+      modelHistory.length > 0 ? averageTokens(modelHistory) : taskAverage;
+    const historySource =
+      modelHistory.length > 0 ? "model" : history.length > 0 ? "task" : "none";
+
+    const pricing = await getPricing(config, contestant, catalogs);
+    const runs = pendingRuns.get(contestant.key) ?? 0;
+
+    models.push({
+      key: contestant.key,
+      modelId: contestant.modelId,
+      pendingRuns: runs,
+      historySource,
+      historyRuns:
+        modelHistory.length > 0 ? modelHistory.length : history.length,
+      promptTokensPerRun: average?.prompt ?? null,
+      completionTokensPerRun: average?.completion ?? null,
+      pricing,
+      estimatedUsd:
+        average && pricing
+          ? runs *
+            (average.prompt * pricing.prompt +
+              average.completion * pricing.completion)
+          : null,
+    });
+  }
+
+  const totalUsd = models.every((model) => model.estimatedUsd !== null)
+    ? models.reduce((sum, model) => sum + model.estimatedUsd!, 0)
+    : null;
+
+  return { models, totalUsd };
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * Per-token pricing of a contestant's model, from its provider's model list.
+ * Each provider's list is fetched once; failures mean unknown pricing.
+ */
+async function getPricing(
+  config: SuiteConfig,
+  contestant: Contestant,
+  catalogs: Map<string, Promise<ModelInfo[]>>,
+): Promise<ModelCostEstimate["pricing"]> {
+  let catalog = catalogs.get(contestant.providerName);
+  if (!catalog) {
+    catalog = (async () => {
+      try {
+        const client = createModelProvider(config, contestant.modelId, {
+          providerName: contestant.providerName,
+        });
+        return await client.getModels();
+      } catch {
+        return [];
+      }
+    })();
+    catalogs.set(contestant.providerName, catalog);
+  }
+
+  const listId = getModelListId(contestant.modelId);
+  const model = (await catalog).find((info) => info.id === listId);
+  if (!model?.pricing) {
+    return null;
+  }
+
+  const prompt = Number(model.pricing.prompt);
+  const completion = Number(model.pricing.completion);
+  return Number.isFinite(prompt) && Number.isFinite(completion)
+    ? { prompt, completion }
+    : null;
+}
+
+function averageTokens(
+  summaries: RunSummary[],
+): { prompt: number; completion: number } | null {
+  if (summaries.length === 0) {
+    return null;
+  }
+  const prompt = summaries.reduce((sum, s) => sum + s.usage.promptTokens, 0);
+  const completion = summaries.reduce(
+    (sum, s) => sum + s.usage.completionTokens,
+    0,
+  );
+  return {
+    prompt: prompt / summaries.length,
+    completion: completion / summaries.length,
+  };
+}
+
+/**
+ * Every readable summary.json under a runs directory
+ */
+async function collectSummaries(runsDir: string): Promise<RunSummary[]> {
+  const summaries: RunSummary[] = [];
+  const glob = new Bun.Glob("**/summary.json");
+
+  try {
+    for await (const path of glob.scan({ cwd: runsDir, absolute: true })) {
+      try {
+        const summary: RunSummary = await Bun.file(path).json();
+        // Runs cut short by a budget cap would drag the averages down
+        if (summary.status !== "budget_exceeded") {
+          summaries.push(summary);
+        }
+      } catch {
+        // Skip invalid summaries
+      }
+    }
+  } catch {
+    // runsDir may not exist
+  }
+
+  return summaries;
+}
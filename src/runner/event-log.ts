@@ -0,0 +1,89 @@
+import { createWriteStream, type WriteStream } from "fs";
+
+import type { RunEvent } from "../dashboard/types";
+
+// ========================================
+// Constants
+// ========================================
+
+/** Event log written to each suite run directory */
+export const EVENT_LOG_FILE = "events.jsonl";
+
+// ========================================
+// Types
+// ========================================
+
+/**
+ * Start and end of one suite invocation. A resumed suite appends a new pair
+ * to the same log.
+ */
+export interface SuiteEvent {
+  type: "suite_start" | "suite_complete";
+  suiteName: string;
+  resumed?: boolean; // suite_start of a resumed invocation
+  models?: string[]; // suite_start: contestant keys
+  totalRuns?: number; // suite_start: runs scheduled by this invocation
+  runsByModel?: Record<string, number>; // suite_start: totalRuns per contestant
+  completedRuns?: number; // suite_complete
+  timestamp: number;
+}
+
+export type EventLogEntry = RunEvent | SuiteEvent;
+
+export function isSuiteEvent(entry: EventLogEntry): entry is SuiteEvent {
+  return entry.type === "suite_start" || entry.type === "suite_complete";
+}
+
+// ========================================
+// Event Log
+// ========================================
+
+/**
+ * Append-only JSONL log of the events of a suite invocation
+ */
+export class EventLog {
+  private stream: WriteStream;
+
+  constructor(path: string) {
+    this.stream = createWriteStream(path, { flags: "a" });
+  }
+
+  /**
+   * Append one event
+   */
+  append(entry: EventLogEntry): void {
+    this.stream.write(JSON.stringify(entry) + "\n");
+  }
+
+  /**
+   * Flush pending writes and close the file
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.stream.once("error", reject);
+      this.stream.end(() => resolve());
+    });
+  }
+}
+
+/**
+ * Read an event log, skipping lines that are not valid JSON (such as a line
+ * cut short by a crash)
+ */
+export async function readEventLog(path: string): Promise<EventLogEntry[]> {
+  const text = await Bun.file(path).text();
+  const entries: EventLogEntry[] = [];
+
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as EventLogEntry);
+    } catch {
+      // Skip partial lines
+    }
+  }
+
+  return entries;
+}
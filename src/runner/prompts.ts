@@ -0,0 +1,157 @@
+import { createHash } from "crypto";
+import { join, resolve } from "path";
+
+import type { SuiteConfig } from "../schemas/config";
+import {
+  renderHistory,
+  renderObservation,
+  type ObservationFormat,
+} from "../environments/renderers";
+
+// ========================================
+// Types
+// ========================================
+
+export interface PromptTemplates {
+  system: string;
+  user: string; // first (or every, in stateless mode) user turn
+  followUp: string; // chat mode user turns after the first
+  repair: string; // sent after a reply that could not be played
+}
+
+export interface PromptSet {
+  templates: PromptTemplates;
+  hash: string; // short content hash of the templates in use
+  version?: string; // human label from the suite config
+}
+
+export type PromptVariables = Record<string, string>;
+
+// ========================================
+// Constants
+// ========================================
+
+/** Directory holding the built-in templates */
+export const DEFAULT_PROMPTS_DIR = join(import.meta.dir, "..", "..", "prompts");
+
+const DEFAULT_TEMPLATE_FILES = {
+  connectionsSystem: "connections-system.txt",
+  crosswordSystem: "crossword-system.txt",
+  user: "user.txt",
+  followUp: "chat-follow-up.txt",
+  repair: "repair.txt",
+};
+
+// ========================================
+// Loading
+// ========================================
+
+/**
+ * Load the prompt templates for a suite. Paths in the suite config are
+ * resolved against the working directory; unset templates use the defaults.
+ */
+export async function loadPromptSet(
+  config: SuiteConfig,
+  task: "connections" | "crossword",
+): Promise<PromptSet> {
+  const settings = config.prompts ?? {};
+  const defaultSystem =
+    task === "connections"
+      ? DEFAULT_TEMPLATE_FILES.connectionsSystem
+      : DEFAULT_TEMPLATE_FILES.crosswordSystem;
+
+  const templates: PromptTemplates = {
+    system: await readTemplate(settings.system, defaultSystem),
+    user: await readTemplate(settings.user, DEFAULT_TEMPLATE_FILES.user),
+    followUp: await readTemplate(
+      settings.followUp,
+      DEFAULT_TEMPLATE_FILES.followUp,
+    ),
+    repair: await readTemplate(settings.repair, DEFAULT_TEMPLATE_FILES.repair),
+  };
+
+  // Only hash what is actually sent, so stateless suites are unaffected by
+  // the follow-up template, and suites without repairs by the repair template
+  const hashed = [templates.system, templates.user];
+  if (config.conversationMode === "chat") {
+    hashed.push(templates.followUp);
+  }
+  if (config.maxRepairAttempts > 0) {
+    hashed.push(templates.repair);
+  }
+
+  return {
+    templates,
+    hash: hashPrompt(hashed),
+    version: settings.version,
+  };
+}
+
+/**
+ * Read a template file, dropping the trailing newline editors add
+ */
+async function readTemplate(
+  path: string | undefined,
+  defaultFile: string,
+): Promise<string> {
+  const templatePath = path
+    ? resolve(path)
+    : join(DEFAULT_PROMPTS_DIR, defaultFile);
+  const file = Bun.file(templatePath);
+
+  if (!(await file.exists())) {
+    throw new Error(`Prompt template not found: ${templatePath}`);
+  }
+
+  return (await file.text()).replace(/\r?\n$/, "");
+}
+
+/**
+ * Short, stable hash identifying a set of templates
+ */
+export function hashPrompt(parts: string[]): string {
+  return createHash("sha256").update(parts.join("\u0000")).digest("hex").slice(0, 12);
+}
+
+// ========================================
+// Rendering
+// ========================================
+
+/**
+ * Variables available to templates for an observation:
+ * {{task}}, {{rules}}, {{history}}, {{observation}} (the full observation)
+ * and {{state}} (without rules and history), rendered in the given format.
+ * {{feedback}} is added for chat follow-up turns, and {{error}} and
+ * {{errorKind}} for repair requests.
+ */
+export function buildPromptVariables(
+  observation: unknown,
+  format: ObservationFormat = "json",
+): PromptVariables {
+  const fields =
+    observation && typeof observation === "object"
+      ? (observation as Record<string, unknown>)
+      : {};
+  const { history, rules, ...state } = fields;
+
+  return {
+    task: typeof fields.task === "string" ? fields.task : "",
+    rules: typeof rules === "string" ? rules : "",
+    history: renderHistory(history, format),
+    observation: renderObservation(observation, format),
+    state: renderObservation(state, format),
+  };
+}
+
+/**
+ * Substitute {{name}} placeholders. Unknown placeholders are left as-is so
+ * typos are visible in the recorded requests.
+ */
+export function renderTemplate(
+  template: string,
+  variables: PromptVariables,
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? variables[name]! : match,
+  );
+}
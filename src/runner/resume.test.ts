@@ -0,0 +1,101 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { countCompletedByModel, findCompletedRuns, runKey } from "./resume";
+
+describe("findCompletedRuns", () => {
+  let suiteRunDir: string;
+
+  beforeEach(async () => {
+    suiteRunDir = await mkdtemp(join(tmpdir(), "nyt-arena-resume-"));
+  });
+
+  afterEach(async () => {
+    await rm(suiteRunDir, { recursive: true, force: true });
+  });
+
+  // Writes <model>/<puzzle>/<runId>/summary.json; a string is written as is
+  async function writeSummary(
+    runId: string,
+    summary: Record<string, unknown> | string,
+  ) {
+    const runDir = join(suiteRunDir, "model", "puzzle", runId);
+    await mkdir(runDir, { recursive: true });
+    await writeFile(
+      join(runDir, "summary.json"),
+      typeof summary === "string" ? summary : JSON.stringify(summary),
+    );
+  }
+
+  test("keys runs by contestant name and skips runs to redo", async () => {
+    await writeSummary("a", {
+      modelId: "mock/oracle",
+      puzzleId: "p1",
+      repeatIndex: 0,
+      status: "success",
+    });
+    await writeSummary("b", {
+      modelId: "mock/oracle",
+      modelLabel: "oracle-hot",
+      puzzleId: "p1",
+      repeatIndex: 0,
+      status: "fail",
+    });
+    await writeSummary("c", {
+      modelId: "mock/oracle",
+      puzzleId: "p2",
+      repeatIndex: 0,
+      status: "budget_exceeded",
+    });
+    await writeSummary("d", '{"modelId": "mock/oracle", "puzz');
+    await writeSummary("e", { status: "success" });
+    await mkdir(join(suiteRunDir, "model", "puzzle", "interrupted"));
+
+    const completed = await findCompletedRuns(suiteRunDir);
+
+    expect([...completed].sort()).toEqual(
+      [runKey("mock/oracle", "p1", 0), runKey("oracle-hot", "p1", 0)].sort(),
+    );
+  });
+
+  test("assigns free repeat slots to legacy summaries in start order", async () => {
+    const run = {
+      modelId: "mock/oracle",
+      modelLabel: "oracle-hot",
+      puzzleId: "p1",
+    };
+    await writeSummary("a", {
+      ...run,
+      repeatIndex: 0,
+      startedAt: "2024-01-01T00:00:05Z",
+    });
+    await writeSummary("b", { ...run, startedAt: "2024-01-01T00:00:02Z" });
+    await writeSummary("c", { ...run, startedAt: "2024-01-01T00:00:01Z" });
+
+    const completed = await findCompletedRuns(suiteRunDir);
+
+    expect([...completed].sort()).toEqual(
+      [0, 1, 2].map((repeat) => runKey("oracle-hot", "p1", repeat)).sort(),
+    );
+    expect(
+      countCompletedByModel(
+        completed,
+        ["oracle-hot", "mock/oracle"],
+        ["p1", "p2"],
+        2,
+      ),
+    ).toEqual(
+      new Map([
+        ["oracle-hot", 2],
+        ["mock/oracle", 0],
+      ]),
+    );
+  });
+
+  test("a missing directory has no completed runs", async () => {
+    const completed = await findCompletedRuns(join(suiteRunDir, "missing"));
+    expect(completed.size).toBe(0);
+  });
+});
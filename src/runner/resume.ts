@@ -0,0 +1,208 @@
+import { readdir, stat } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
+
+import { SuiteConfigSchema, type RunSummary, type SuiteConfig } from "../schemas/config";
+
+// ========================================
+// Types
+// ========================================
+
+export interface ResumeTarget {
+  runsDir: string;
+  suiteName: string;
+  timestamp: string;
+  suiteRunDir: string;
+}
+
+export interface ResumeState {
+  timestamp: string;
+  completed: Set<string>;
+}
+
+// ========================================
+// Constants
+// ========================================
+
+/** Snapshot of the resolved suite config written next to the runs */
+export const SUITE_SNAPSHOT_FILE = "suite.json";
+
+// ========================================
+// Helpers
+// ========================================
+
+/**
+ * Key identifying one scheduled evaluation within a suite invocation
+ */
+export function runKey(
+  modelId: string,
+  puzzleId: string,
+  repeatIndex: number,
+): string {
+  return `${modelId}\u0000${puzzleId}\u0000${repeatIndex}`;
+}
+
+/**
+ * Split a suite run directory (runs/<suite>/<timestamp>) into its parts
+ */
+export function parseSuiteRunDir(dir: string): ResumeTarget {
+  const suiteRunDir = resolve(dir);
+  const timestamp = basename(suiteRunDir);
+  const suiteDir = dirname(suiteRunDir);
+
+  return {
+    runsDir: dirname(suiteDir),
+    suiteName: basename(suiteDir),
+    timestamp,
+    suiteRunDir,
+  };
+}
+
+/**
+ * Load the suite config snapshot stored in a suite run directory
+ */
+export async function loadSuiteSnapshot(
+  suiteRunDir: string,
+): Promise<SuiteConfig | null> {
+  const snapshotFile = Bun.file(join(suiteRunDir, SUITE_SNAPSHOT_FILE));
+  if (!(await snapshotFile.exists())) {
+    return null;
+  }
+  return SuiteConfigSchema.parse(await snapshotFile.json());
+}
+
+/**
+ * Read every summary.json in a suite run directory.
+ *
+ * Layout: <suiteRunDir>/<model>/<puzzle>/<runId>/summary.json. Runs without a
+ * summary were interrupted; unreadable and partial summaries are skipped.
+ */
+async function readRunSummaries(suiteRunDir: string): Promise<RunSummary[]> {
+  const summaries: RunSummary[] = [];
+
+  let models: string[];
+  try {
+    models = await readdir(suiteRunDir);
+  } catch {
+    return summaries;
+  }
+
+  for (const model of models) {
+    const modelPath = join(suiteRunDir, model);
+    if (!(await stat(modelPath)).isDirectory()) continue;
+
+    for (const puzzle of await readdir(modelPath)) {
+      const puzzlePath = join(modelPath, puzzle);
+      if (!(await stat(puzzlePath)).isDirectory()) continue;
+
+      for (const runId of await readdir(puzzlePath)) {
+        const runPath = join(puzzlePath, runId);
+        if (!(await stat(runPath)).isDirectory()) continue;
+
+        const summaryFile = Bun.file(join(runPath, "summary.json"));
+        if (!(await summaryFile.exists())) continue;
+
+        let summary: RunSummary;
+        try {
+          summary = await summaryFile.json();
+        } catch {
+          // Treat unreadable summaries as incomplete
+          continue;
+        }
+
+        if (!summary.modelId || !summary.puzzleId) continue; // partial summary
+        summaries.push(summary);
+      }
+    }
+  }
+
+  return summaries;
+}
+
+/**
+ * Scan a suite run directory for runs that already wrote a summary.json.
+ *
+ * Runs without a summary were interrupted and are scheduled again, as are
+ * runs stopped by a budget cap. Summaries written before repeatIndex was
+ * recorded are assigned repeat slots in start order.
+ */
+export async function findCompletedRuns(
+  suiteRunDir: string,
+): Promise<Set<string>> {
+  const completed = new Set<string>();
+  const legacy = new Map<string, RunSummary[]>();
+
+  for (const summary of await readRunSummaries(suiteRunDir)) {
+    // Runs stopped by a budget cap are scheduled again
+    if (summary.status === "budget_exceeded") continue;
+
+    // Runs belong to the contestant name, when the suite gave one
+    const contestant = summary.modelLabel ?? summary.modelId;
+    if (summary.repeatIndex !== undefined) {
+      completed.add(runKey(contestant, summary.puzzleId, summary.repeatIndex));
+    } else {
+      const key = `${contestant}\u0000${summary.puzzleId}`;
+      const existing = legacy.get(key) || [];
+      existing.push(summary);
+      legacy.set(key, existing);
+    }
+  }
+
+  for (const summaries of legacy.values()) {
+    summaries.sort(
+      (a, b) =>
+        new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime(),
+    );
+    let repeatIndex = 0;
+    for (const summary of summaries) {
+      const contestant = summary.modelLabel ?? summary.modelId;
+      while (completed.has(runKey(contestant, summary.puzzleId, repeatIndex))) {
+        repeatIndex++;
+      }
+      completed.add(runKey(contestant, summary.puzzleId, repeatIndex));
+    }
+  }
+
+  return completed;
+}
+
+/**
+ * Sum the spend recorded by the summaries in a suite run directory, per
+ * contestant, so a resumed suite keeps counting against its budget caps.
+ * Runs stopped by a budget cap are included: their spend was real.
+ */
+export async function findSpentUsdByModel(
+  suiteRunDir: string,
+): Promise<Map<string, number>> {
+  const spent = new Map<string, number>();
+  for (const summary of await readRunSummaries(suiteRunDir)) {
+    if (!summary.costCreditsTotal) continue;
+    const contestant = summary.modelLabel ?? summary.modelId;
+    spent.set(
+      contestant,
+      (spent.get(contestant) ?? 0) + summary.costCreditsTotal,
+    );
+  }
+  return spent;
+}
+
+/**
+ * Count completed runs per model for the given puzzle selection
+ */
+export function countCompletedByModel(
+  completed: Set<string>,
+  models: string[],
+  puzzleIds: string[],
+  repeats: number,
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const modelId of models) {
+    let count = 0;
+    for (const puzzleId of puzzleIds) {
+      for (let repeat = 0; repeat < repeats; repeat++) {
+        if (completed.has(runKey(modelId, puzzleId, repeat))) count++;
+      }
+    }
+    counts.set(modelId, count);
+  }
+  return counts;
+}
@@ -10,17 +10,37 @@ import { Readable } from "stream";
 
 import { ConnectionsEnv } from "../environments/ConnectionsEnv";
 import { CrosswordEnv } from "../environments/CrosswordEnv";
+import { createModelProvider } from "../client/provider";
+import { resolveContestants, type Contestant } from "./contestants";
+import { BudgetTracker } from "./budget";
+import { AdaptiveLimiter } from "./adaptive-limiter";
+import { hashSeed } from "../utils/random";
+import { Conversation, estimatePromptSavings } from "./conversation";
+import { loadPromptSet, type PromptSet } from "./prompts";
 import {
-  OpenRouterClient,
-  createOpenRouterClient,
-  type ChatMessage,
-} from "../client/openrouter";
+  buildActionRequestFormat,
+  getActionReply,
+  type ActionRequestFormat,
+} from "./action-protocol";
+import {
+  getInvalidActionError,
+  parseAction,
+  type ParsedAction,
+} from "./action-parser";
+import type {
+  ChatCompletionResult,
+  ChatMessage,
+  ModelProvider,
+  RequestMetadata,
+} from "../client/types";
 import {
-  ConnectionsActionSchema,
   ConnectionsActionJsonSchema,
-  CrosswordActionSchema,
-  CrosswordActionJsonSchema,
-  CrosswordActionNoCheckJsonSchema,
+  ConnectionsActionTools,
+  getCrosswordActionJsonSchema,
+  getCrosswordActionTools,
+  withReasoningField,
+  withReasoningParameter,
+  type ActionTool,
   type ConnectionsAction,
   type CrosswordAction,
 } from "../schemas/actions";
@@ -29,6 +49,7 @@ import type {
   RunSummary,
   StepRecord,
   RunStatus,
+  ActionError,
 } from "../schemas/config";
 import type { ConnectionsPuzzle, CrosswordPuzzle } from "../schemas/puzzles";
 
@@ -67,9 +88,13 @@ const logger = pino({
 // ========================================
 
 export class BenchmarkRunner {
-  private client: OpenRouterClient;
+  private clients = new Map<string, ModelProvider>();
+  private modelLimiters = new Map<string, AdaptiveLimiter>();
+  private puzzles: Puzzle[] = [];
+  private prompts!: PromptSet;
   private runLimiter: ReturnType<typeof pLimit>;
   private requestLimiter: ReturnType<typeof pLimit>;
+  private budget: BudgetTracker;
   private config: SuiteConfig;
   private runsDir: string;
 
@@ -77,17 +102,10 @@ export class BenchmarkRunner {
     this.config = config;
     this.runsDir = runsDir;
 
-    // Create OpenRouter client
-    this.client = createOpenRouterClient({
-      defaultTemperature: config.openRouter.temperature,
-      defaultMaxTokens: config.openRouter.maxTokens,
-      defaultTopP: config.openRouter.topP,
-      includeUsage: config.openRouter.includeUsage,
-    });
-
     // Create concurrency limiters
     this.runLimiter = pLimit(config.maxConcurrentRuns);
     this.requestLimiter = pLimit(config.maxConcurrentRequests);
+    this.budget = new BudgetTracker(config.budget);
   }
 
   /**
@@ -95,16 +113,19 @@ export class BenchmarkRunner {
    */
   async runSuite(puzzles: Puzzle[]): Promise<RunResult[]> {
     const results: RunResult[] = [];
+    this.puzzles = puzzles;
+    this.prompts = await loadPromptSet(this.config, this.config.puzzles.type);
     const startTime = Date.now();
+    const contestants = resolveContestants(this.config);
 
     logger.info(
       {
         suiteName: this.config.name,
-        models: this.config.models.length,
+        models: contestants.length,
         puzzles: puzzles.length,
         repeats: this.config.repeats,
         totalRuns:
-          this.config.models.length * puzzles.length * this.config.repeats,
+          contestants.length * puzzles.length * this.config.repeats,
       },
       "Starting benchmark suite"
     );
@@ -112,11 +133,11 @@ export class BenchmarkRunner {
     // Create all run tasks
     const runTasks: Array<() => Promise<RunResult>> = [];
 
-    for (const modelId of this.config.models) {
+    for (const contestant of contestants) {
       for (const puzzle of puzzles) {
         for (let repeat = 0; repeat < this.config.repeats; repeat++) {
           const task = () =>
-            this.runSingleEvaluation(modelId, puzzle, repeat);
+            this.runSingleEvaluation(contestant, puzzle, repeat);
           runTasks.push(task);
         }
       }
@@ -148,14 +169,50 @@ export class BenchmarkRunner {
     return results;
   }
 
+  /**
+   * Get (or lazily create) the provider client serving a model
+   */
+  private getClient(contestant: Contestant): ModelProvider {
+    let client = this.clients.get(contestant.key);
+    if (!client) {
+      client = createModelProvider(this.config, contestant.modelId, {
+        puzzles: this.puzzles,
+        providerName: contestant.providerName,
+      });
+      this.clients.set(contestant.key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Get or create the adaptive request limiter for a contestant
+   */
+  private getModelLimiter(contestant: Contestant): AdaptiveLimiter {
+    let limiter = this.modelLimiters.get(contestant.key);
+    if (!limiter) {
+      limiter = new AdaptiveLimiter({
+        maxConcurrency: contestant.concurrency,
+        adaptive: this.config.adaptiveConcurrency,
+        onChange: (state, throttled) =>
+          logger.warn(
+            { modelId: contestant.key, throttled, ...state },
+            throttled ? "Model throttled" : "Model request limit raised"
+          ),
+      });
+      this.modelLimiters.set(contestant.key, limiter);
+    }
+    return limiter;
+  }
+
   /**
    * Run a single model/puzzle evaluation
    */
   private async runSingleEvaluation(
-    modelId: string,
+    contestant: Contestant,
     puzzle: Puzzle,
     repeatIndex: number
   ): Promise<RunResult> {
+    const { modelId } = contestant;
     const runId = nanoid();
     const task = "words" in puzzle ? "connections" : "crossword";
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
@@ -164,7 +221,7 @@ export class BenchmarkRunner {
       this.runsDir,
       this.config.name,
       timestamp,
-      modelId.replace(/\//g, "_"),
+      contestant.key.replace(/\//g, "_"),
       puzzle.id,
       runId
     );
@@ -195,7 +252,14 @@ export class BenchmarkRunner {
     const startedAt = new Date().toISOString();
     const steps: StepRecord[] = [];
     let status: RunStatus = "error";
+    let budgetExceeded: string | undefined; // the cap that stopped the run
     let invalidActions = 0;
+    let parseFailures = 0;
+    let ruleViolations = 0;
+    let repairAttempts = 0;
+    let strictReplies = 0;
+    let fixedReplies = 0;
+    let lastError: ActionError | null = null; // shown to the model next step
 
     // Initialize environment
     const env =
@@ -204,19 +268,33 @@ export class BenchmarkRunner {
     // Reset environment
     let observation: unknown;
     if (task === "connections") {
-      observation = (env as ConnectionsEnv).reset(puzzle as ConnectionsPuzzle);
+      observation = (env as ConnectionsEnv).reset(
+        puzzle as ConnectionsPuzzle,
+        hashSeed(`${puzzle.id}:${repeatIndex}`)
+      );
     } else {
       observation = (env as CrosswordEnv).reset(puzzle as CrosswordPuzzle, {
         allowChecks: this.config.crosswordRules.allowChecks,
         allowReveals: this.config.crosswordRules.allowReveals,
+        maxEntriesPerStep: this.config.crosswordRules.maxEntriesPerStep,
+        autocheck: this.config.crosswordRules.autocheck,
       });
     }
 
+    // Message history for the agent loop
+    const conversation = new Conversation(this.prompts.templates, {
+      mode: this.config.conversationMode,
+      maxHistoryTurns: this.config.maxHistoryTurns,
+      observationFormat: this.config.observationFormat,
+    });
+
     // Tracking
     let totalLatencyMs = 0;
     let totalPromptTokens = 0;
     let totalCompletionTokens = 0;
+    let totalReasoningTokens: number | undefined; // set once a step reports them
     let totalCost: number | null = 0;
+    let streamTiming: RunSummary["streamTiming"]; // set once a reply is streamed
 
     const runStartTime = Date.now();
     const runTimeout = this.config.runTimeoutMs;
@@ -230,60 +308,113 @@ export class BenchmarkRunner {
           break;
         }
 
-        // Build messages
-        const messages = this.buildMessages(task, observation);
+        // Check spend caps
+        budgetExceeded =
+          this.budget.getExceededCap(contestant.key, {
+            costUsd: totalCost,
+            tokens: totalPromptTokens + totalCompletionTokens,
+          }) ?? undefined;
+        if (budgetExceeded) {
+          status = "budget_exceeded";
+          break;
+        }
+
+        // Build messages, telling the model why its last reply was rejected
+        const messages = conversation.buildMessages(
+          lastError ? { ...(observation as object), lastError } : observation
+        );
 
-        // Get JSON schema for structured output
+        // Get the action format for the suite's action protocol
         const jsonSchema = this.getJsonSchema(task);
+        const requestFormat = buildActionRequestFormat(
+          this.config.actionProtocol,
+          jsonSchema,
+          this.getActionTools(task)
+        );
 
         // Make API call with concurrency control
         const stepStartTime = Date.now();
-        let response: Awaited<
-          ReturnType<typeof this.client.chatCompletionWithRetry>
-        >;
-        let parsedAction: ConnectionsAction | CrosswordAction | null = null;
+        const metadata = { runId, puzzleId: puzzle.id, repeatIndex, stepIndex };
+        let response: ChatCompletionResult | null = null;
+        let replyText = ""; // the reply as JSON text, for parsing and history
+        let parsedAction: ParsedAction | null = null;
+        let reasoning: string | null = null;
         let error: string | null = null;
+        let actionError: ActionError | null = null;
+        let apiFailure: string | null = null; // no usable reply came back
+        let replyFixes: string[] | undefined;
+        const repairs: NonNullable<StepRecord["repairs"]> = [];
 
         try {
-          response = await this.requestLimiter(() =>
-            this.client.chatCompletionWithRetry(
-              {
-                model: modelId,
-                messages,
-                temperature: this.config.openRouter.temperature,
-                max_tokens: this.config.openRouter.maxTokens,
-                response_format: {
-                  type: "json_schema",
-                  json_schema: jsonSchema,
-                },
-              },
-              {
-                timeoutMs: this.config.stepTimeoutMs,
-                maxRetries: 3,
-              }
-            )
+          let reply = await this.requestAction(
+            contestant,
+            messages,
+            requestFormat,
+            metadata
+          );
+          response = reply;
+          replyText = getActionReply(reply, task);
+          let parsed = parseAction(
+            replyText,
+            task,
+            this.config.lenientActionParsing
           );
 
-          // Parse action
-          try {
-            const rawAction = JSON.parse(response.content);
-            if (task === "connections") {
-              parsedAction = ConnectionsActionSchema.parse(rawAction);
+          // Ask for a fixed reply without spending a game step
+          while (!parsed.ok && repairs.length < this.config.maxRepairAttempts) {
+            repairs.push({
+              raw: replyText,
+              error: parsed.error,
+              latencyMs: reply.latencyMs,
+            });
+            repairAttempts++;
+
+            const repairMessages = conversation.buildRepairMessages(
+              replyText,
+              parsed.error
+            );
+            reply = await this.requestAction(
+              contestant,
+              repairMessages,
+              requestFormat,
+              { ...metadata, attempt: repairs.length }
+            );
+            response = this.mergeRepairResult(response, reply);
+            replyText = getActionReply(reply, task);
+            parsed = parseAction(
+              replyText,
+              task,
+              this.config.lenientActionParsing
+            );
+          }
+
+          reasoning = parsed.reasoning;
+          if (parsed.ok) {
+            parsedAction = parsed.action;
+            replyFixes = parsed.fixes;
+            if (parsed.fixes.length === 0 && repairs.length === 0) {
+              strictReplies++;
             } else {
-              parsedAction = CrosswordActionSchema.parse(rawAction);
+              fixedReplies++;
             }
-          } catch (parseError) {
-            error = `Failed to parse action: ${parseError}`;
+          } else {
+            actionError = parsed.error;
+            error = `Failed to parse action: ${parsed.error.message}`;
+            parseFailures++;
             invalidActions++;
           }
         } catch (apiError) {
-          error = `API error: ${apiError}`;
+          apiFailure = String(apiError);
+          error = `API error: ${apiFailure}`;
+          // Keep the usage of any replies received before the failure
           response = {
             id: "",
             model: modelId,
             content: "",
+            reasoning: null,
+            toolCalls: [],
             finishReason: "error",
-            usage: null,
+            usage: response?.usage ?? null,
             latencyMs: Date.now() - stepStartTime,
             raw: {} as any,
           };
@@ -294,15 +425,43 @@ export class BenchmarkRunner {
 
         // Update usage tracking
         if (response.usage) {
+          this.budget.addCost(contestant.key, response.usage.cost);
           totalPromptTokens += response.usage.promptTokens;
           totalCompletionTokens += response.usage.completionTokens;
+          if (response.usage.reasoningTokens !== undefined) {
+            totalReasoningTokens =
+              (totalReasoningTokens ?? 0) + response.usage.reasoningTokens;
+          }
           if (response.usage.cost !== null && totalCost !== null) {
             totalCost += response.usage.cost;
           } else {
+            if (totalCost !== null && this.budget.hasRunCostCap()) {
+              logger.warn(
+                { runId, modelId: contestant.key, step: stepIndex },
+                "Step reported no cost: maxUsdPerRun is not enforced for the rest of the run"
+              );
+            }
             totalCost = null;
           }
         }
 
+        // Streamed replies separate waiting for the first token from
+        // generation
+        const { timeToFirstTokenMs, generationMs } = response;
+        if (timeToFirstTokenMs !== undefined && generationMs !== undefined) {
+          streamTiming ??= {
+            steps: 0,
+            timeToFirstTokenMsTotal: 0,
+            generationMsTotal: 0,
+            completionTokens: 0,
+          };
+          streamTiming.steps++;
+          streamTiming.timeToFirstTokenMsTotal += timeToFirstTokenMs;
+          streamTiming.generationMsTotal += generationMs;
+          streamTiming.completionTokens +=
+            response.usage?.completionTokens ?? 0;
+        }
+
         // Execute action in environment
         let envFeedback: unknown = null;
         if (parsedAction && !error) {
@@ -316,18 +475,27 @@ export class BenchmarkRunner {
             envFeedback = result.feedback;
 
             // Check if feedback indicates invalid action
-            if ((result.feedback as any).result === "invalid_action") {
+            actionError = getInvalidActionError(result.feedback);
+            if (actionError) {
+              ruleViolations++;
               invalidActions++;
-              if (invalidActions >= this.config.maxInvalidActions) {
-                status = "fail";
-                break;
-              }
             }
           } catch (envError) {
             error = `Environment error: ${envError}`;
+            actionError = { kind: "invalid_action", message: String(envError) };
+            ruleViolations++;
             invalidActions++;
           }
         }
+        if (apiFailure !== null) {
+          // Keep the failed request out of the chat history; the model hears
+          // about it through lastError instead
+          lastError = { kind: "api_error", message: apiFailure };
+        } else {
+          lastError = actionError;
+          // Carry the reply and its outcome into the next turn (chat mode)
+          conversation.recordReply(replyText, envFeedback ?? { error });
+        }
 
         // Record step
         const stepRecord: StepRecord = {
@@ -337,32 +505,50 @@ export class BenchmarkRunner {
             model: modelId,
             messages,
             params: {
-              temperature: this.config.openRouter.temperature,
-              maxTokens: this.config.openRouter.maxTokens,
-              topP: this.config.openRouter.topP,
+              temperature: contestant.temperature,
+              maxTokens: contestant.maxTokens,
+              topP: contestant.topP,
+              reasoning: contestant.reasoning,
             },
-            responseFormat: jsonSchema,
+            responseFormat: requestFormat.response_format?.json_schema,
+            tools: requestFormat.tools,
           },
           response: {
-            raw: response.content,
+            raw: replyText,
             parsed: parsedAction,
+            reasoning: response.reasoning ?? undefined,
+            ...(response.toolCalls.length > 0 && {
+              toolCalls: response.toolCalls,
+            }),
           },
           parsedAction,
+          reasoning,
           envFeedback,
           usage: response.usage
             ? {
                 promptTokens: response.usage.promptTokens,
                 completionTokens: response.usage.completionTokens,
                 totalTokens: response.usage.totalTokens,
+                reasoningTokens: response.usage.reasoningTokens,
                 cost: response.usage.cost,
               }
             : null,
           latencyMs: stepLatencyMs,
+          timeToFirstTokenMs,
+          generationMs,
           error,
+          actionError,
+          replyFixes,
+          ...(repairs.length > 0 && { repairs }),
         };
 
         steps.push(stepRecord);
 
+        if (actionError && invalidActions >= this.config.maxInvalidActions) {
+          status = "fail";
+          break;
+        }
+
         // Check if done
         const isDone =
           task === "connections"
@@ -413,18 +599,38 @@ export class BenchmarkRunner {
       startedAt,
       endedAt,
       modelId,
+      modelLabel: contestant.name,
       puzzleId: puzzle.id,
       task,
+      repeatIndex,
+      provider: contestant.providerName,
+      conversationMode: this.config.conversationMode,
+      promptHash: this.prompts.hash,
+      promptVersion: this.prompts.version,
+      observationFormat: this.config.observationFormat,
+      actionProtocol: this.config.actionProtocol,
+      promptSavings: estimatePromptSavings(
+        conversation.getPromptSizeStats(),
+        totalPromptTokens
+      ),
       status,
+      budgetExceeded,
       stepsTaken: steps.length,
       invalidActions,
+      parseFailures,
+      ruleViolations,
+      repairAttempts,
+      strictReplies,
+      fixedReplies,
       usage: {
         promptTokens: totalPromptTokens,
         completionTokens: totalCompletionTokens,
         totalTokens: totalPromptTokens + totalCompletionTokens,
+        reasoningTokens: totalReasoningTokens,
       },
       latencyMsTotal: totalLatencyMs,
       costCreditsTotal: totalCost,
+      streamTiming,
       metrics,
     };
 
@@ -456,27 +662,74 @@ export class BenchmarkRunner {
   }
 
   /**
-   * Build messages for the LLM
+   * Request an action from a contestant's model with concurrency control.
+   * Every attempt takes a slot of the model's adaptive limiter, then one of
+   * the suite-wide request limiter.
    */
-  private buildMessages(
-    task: "connections" | "crossword",
-    observation: unknown
-  ): ChatMessage[] {
-    const systemMessage =
-      task === "connections"
-        ? CONNECTIONS_SYSTEM_PROMPT
-        : CROSSWORD_SYSTEM_PROMPT;
-
-    return [
+  private requestAction(
+    contestant: Contestant,
+    messages: ChatMessage[],
+    requestFormat: ActionRequestFormat,
+    metadata: RequestMetadata
+  ): Promise<ChatCompletionResult> {
+    const modelLimiter = this.getModelLimiter(contestant);
+    return this.getClient(contestant).chatCompletionWithRetry(
       {
-        role: "system",
-        content: systemMessage,
+        model: contestant.modelId,
+        messages,
+        temperature: contestant.temperature,
+        max_tokens: contestant.maxTokens,
+        top_p: contestant.topP,
+        reasoning: contestant.reasoning,
+        ...requestFormat,
+        metadata,
       },
       {
-        role: "user",
-        content: `Current game state:\n\n${JSON.stringify(observation, null, 2)}`,
-      },
-    ];
+        timeoutMs: this.config.stepTimeoutMs,
+        maxRetries: 3,
+        stream: this.config.streaming,
+        schedule: (attempt) =>
+          modelLimiter.run(() => this.requestLimiter(attempt)),
+      }
+    );
+  }
+
+  /**
+   * Fold a repair reply into the step's response: the repaired reply is used,
+   * usage, latency and generation time cover every attempt, and the time to
+   * first token is the first attempt's
+   */
+  private mergeRepairResult(
+    previous: ChatCompletionResult,
+    repaired: ChatCompletionResult
+  ): ChatCompletionResult {
+    const a = previous.usage;
+    const b = repaired.usage;
+    const usage =
+      a && b
+        ? {
+            promptTokens: a.promptTokens + b.promptTokens,
+            completionTokens: a.completionTokens + b.completionTokens,
+            totalTokens: a.totalTokens + b.totalTokens,
+            reasoningTokens:
+              a.reasoningTokens !== undefined || b.reasoningTokens !== undefined
+                ? (a.reasoningTokens ?? 0) + (b.reasoningTokens ?? 0)
+                : undefined,
+            cost: a.cost !== null && b.cost !== null ? a.cost + b.cost : null,
+          }
+        : (a ?? b);
+
+    return {
+      ...repaired,
+      usage,
+      latencyMs: previous.latencyMs + repaired.latencyMs,
+      timeToFirstTokenMs: previous.timeToFirstTokenMs,
+      generationMs:
+        previous.generationMs !== undefined &&
+        repaired.generationMs !== undefined
+          ? previous.generationMs + repaired.generationMs
+          : undefined,
+    };
   }
 
   /**
@@ -485,15 +738,28 @@ export class BenchmarkRunner {
   private getJsonSchema(
     task: "connections" | "crossword"
   ): { name: string; strict: boolean; schema: Record<string, unknown> } {
-    if (task === "connections") {
-      return ConnectionsActionJsonSchema;
-    }
+    const jsonSchema =
+      task === "connections"
+        ? ConnectionsActionJsonSchema
+        : getCrosswordActionJsonSchema(this.config.crosswordRules);
 
-    if (this.config.crosswordRules.allowChecks) {
-      return CrosswordActionJsonSchema;
-    }
+    return this.config.actionReasoning
+      ? withReasoningField(jsonSchema)
+      : jsonSchema;
+  }
+
+  /**
+   * Get the action tools for the tool_calls protocol
+   */
+  private getActionTools(task: "connections" | "crossword"): ActionTool[] {
+    const tools =
+      task === "connections"
+        ? ConnectionsActionTools
+        : getCrosswordActionTools(this.config.crosswordRules);
 
-    return CrosswordActionNoCheckJsonSchema;
+    return this.config.actionReasoning
+      ? tools.map(withReasoningParameter)
+      : tools;
   }
 
   /**
@@ -526,47 +792,6 @@ export class BenchmarkRunner {
   }
 }
 
-// ========================================
-// System Prompts
-// ========================================
-
-const CONNECTIONS_SYSTEM_PROMPT = `You are an expert puzzle solver playing NYT Connections.
-
-Your task is to identify groups of 4 related words from the 16 given words.
-You must respond with a valid JSON action.
-
-IMPORTANT:
-- Analyze the words carefully before guessing.
-- Look for subtle connections - words can be tricky.
-- Pay attention to "one away" feedback if you get it.
-- You have only 4 mistakes allowed.
-
-Respond ONLY with a JSON object for your action. Do not include any other text.
-
-Example actions:
-- Submit a group: {"task":"connections","action":"submit_group","words":["WORD1","WORD2","WORD3","WORD4"]}
-- Give up: {"task":"connections","action":"give_up"}`;
-
-const CROSSWORD_SYSTEM_PROMPT = `You are an expert crossword solver playing an NYT-style crossword puzzle.
-
-Your task is to fill in the crossword grid based on the clues provided.
-You must respond with a valid JSON action.
-
-IMPORTANT:
-- Read clues carefully and consider crossing letters.
-- Answers should be uppercase letters only.
-- You can check entries to verify correctness (if allowed).
-- Submit only when confident the puzzle is complete.
-
-Respond ONLY with a JSON object for your action. Do not include any other text.
-
-Example actions:
-- Fill entry: {"task":"crossword","action":"fill_entry","direction":"across","number":1,"answer":"HELLO"}
-- Clear entry: {"task":"crossword","action":"clear_entry","direction":"across","number":1}
-- Check entry: {"task":"crossword","action":"check_entry","direction":"across","number":1}
-- Submit puzzle: {"task":"crossword","action":"submit_puzzle"}
-- Give up: {"task":"crossword","action":"give_up"}`;
-
 // ========================================
 // Export factory function
 // ========================================
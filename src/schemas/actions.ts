@@ -40,6 +40,20 @@ export const CrosswordFillEntryActionSchema = z.object({
   answer: z.string(),
 });
 
+export const CrosswordFillEntriesActionSchema = z.object({
+  task: z.literal("crossword"),
+  action: z.literal("fill_entries"),
+  entries: z
+    .array(
+      z.object({
+        direction: z.enum(["across", "down"]),
+        number: z.number(),
+        answer: z.string(),
+      }),
+    )
+    .min(1),
+});
+
 export const CrosswordClearEntryActionSchema = z.object({
   task: z.literal("crossword"),
   action: z.literal("clear_entry"),
@@ -54,6 +68,37 @@ export const CrosswordCheckEntryActionSchema = z.object({
   number: z.number(),
 });
 
+export const CrosswordCheckCellActionSchema = z.object({
+  task: z.literal("crossword"),
+  action: z.literal("check_cell"),
+  row: z.number(), // 1-based, as in the r<row>c<col> cell labels
+  col: z.number(),
+});
+
+export const CrosswordCheckPuzzleActionSchema = z.object({
+  task: z.literal("crossword"),
+  action: z.literal("check_puzzle"),
+});
+
+export const CrosswordRevealCellActionSchema = z.object({
+  task: z.literal("crossword"),
+  action: z.literal("reveal_cell"),
+  row: z.number(), // 1-based, as in the r<row>c<col> cell labels
+  col: z.number(),
+});
+
+export const CrosswordRevealEntryActionSchema = z.object({
+  task: z.literal("crossword"),
+  action: z.literal("reveal_entry"),
+  direction: z.enum(["across", "down"]),
+  number: z.number(),
+});
+
+export const CrosswordRevealPuzzleActionSchema = z.object({
+  task: z.literal("crossword"),
+  action: z.literal("reveal_puzzle"),
+});
+
 export const CrosswordSubmitPuzzleActionSchema = z.object({
   task: z.literal("crossword"),
   action: z.literal("submit_puzzle"),
@@ -67,8 +112,14 @@ export const CrosswordGiveUpActionSchema = z.object({
 // Full crossword action schema (all actions)
 export const CrosswordActionSchema = z.discriminatedUnion("action", [
   CrosswordFillEntryActionSchema,
+  CrosswordFillEntriesActionSchema,
   CrosswordClearEntryActionSchema,
   CrosswordCheckEntryActionSchema,
+  CrosswordCheckCellActionSchema,
+  CrosswordCheckPuzzleActionSchema,
+  CrosswordRevealCellActionSchema,
+  CrosswordRevealEntryActionSchema,
+  CrosswordRevealPuzzleActionSchema,
   CrosswordSubmitPuzzleActionSchema,
   CrosswordGiveUpActionSchema,
 ]);
@@ -76,6 +127,7 @@ export const CrosswordActionSchema = z.discriminatedUnion("action", [
 // Crossword action schema without checks (for no-check suite)
 export const CrosswordActionNoCheckSchema = z.discriminatedUnion("action", [
   CrosswordFillEntryActionSchema,
+  CrosswordFillEntriesActionSchema,
   CrosswordClearEntryActionSchema,
   CrosswordSubmitPuzzleActionSchema,
   CrosswordGiveUpActionSchema,
@@ -84,18 +136,63 @@ export const CrosswordActionNoCheckSchema = z.discriminatedUnion("action", [
 export type CrosswordFillEntryAction = z.infer<
   typeof CrosswordFillEntryActionSchema
 >;
+export type CrosswordFillEntriesAction = z.infer<
+  typeof CrosswordFillEntriesActionSchema
+>;
 export type CrosswordClearEntryAction = z.infer<
   typeof CrosswordClearEntryActionSchema
 >;
 export type CrosswordCheckEntryAction = z.infer<
   typeof CrosswordCheckEntryActionSchema
 >;
+export type CrosswordCheckCellAction = z.infer<
+  typeof CrosswordCheckCellActionSchema
+>;
+export type CrosswordCheckPuzzleAction = z.infer<
+  typeof CrosswordCheckPuzzleActionSchema
+>;
+export type CrosswordRevealCellAction = z.infer<
+  typeof CrosswordRevealCellActionSchema
+>;
+export type CrosswordRevealEntryAction = z.infer<
+  typeof CrosswordRevealEntryActionSchema
+>;
+export type CrosswordRevealPuzzleAction = z.infer<
+  typeof CrosswordRevealPuzzleActionSchema
+>;
 export type CrosswordSubmitPuzzleAction = z.infer<
   typeof CrosswordSubmitPuzzleActionSchema
 >;
 export type CrosswordGiveUpAction = z.infer<typeof CrosswordGiveUpActionSchema>;
 export type CrosswordAction = z.infer<typeof CrosswordActionSchema>;
 
+// ========================================
+// Crossword Action Rules
+// ========================================
+
+/**
+ * Suite rules deciding which optional crossword actions are offered
+ */
+export interface CrosswordActionRules {
+  allowChecks: boolean;
+  allowReveals: boolean;
+}
+
+const CROSSWORD_CHECK_ACTIONS = ["check_cell", "check_entry", "check_puzzle"];
+const CROSSWORD_REVEAL_ACTIONS = ["reveal_cell", "reveal_entry", "reveal_puzzle"];
+
+/**
+ * Whether a crossword action is allowed under the given rules
+ */
+export function isCrosswordActionAllowed(
+  name: string,
+  rules: CrosswordActionRules,
+): boolean {
+  if (CROSSWORD_CHECK_ACTIONS.includes(name)) return rules.allowChecks;
+  if (CROSSWORD_REVEAL_ACTIONS.includes(name)) return rules.allowReveals;
+  return true;
+}
+
 // ========================================
 // JSON Schema exports for OpenRouter structured outputs
 // ========================================
@@ -122,6 +219,22 @@ export const ConnectionsActionJsonSchema = {
   },
 };
 
+// One entry of a fill_entries action
+const FILL_ENTRY_ITEM = {
+  type: "object",
+  properties: {
+    direction: { type: "string", enum: ["across", "down"] },
+    number: { type: "number", description: "The clue number." },
+    answer: {
+      type: "string",
+      description:
+        "The answer to fill in (uppercase letters; a rebus square in brackets, e.g. HEA[RT]Y).",
+    },
+  },
+  required: ["direction", "number", "answer"],
+  additionalProperties: false,
+};
+
 export const CrosswordActionJsonSchema = {
   name: "crossword_action",
   strict: true,
@@ -133,8 +246,14 @@ export const CrosswordActionJsonSchema = {
         type: "string",
         enum: [
           "fill_entry",
+          "fill_entries",
           "clear_entry",
+          "check_cell",
           "check_entry",
+          "check_puzzle",
+          "reveal_cell",
+          "reveal_entry",
+          "reveal_puzzle",
           "submit_puzzle",
           "give_up",
         ],
@@ -142,17 +261,34 @@ export const CrosswordActionJsonSchema = {
       direction: {
         type: "string",
         enum: ["across", "down"],
-        description: "Required for fill_entry, clear_entry, check_entry.",
+        description:
+          "Required for fill_entry, clear_entry, check_entry, reveal_entry.",
       },
       number: {
         type: "number",
         description:
-          "The clue number. Required for fill_entry, clear_entry, check_entry.",
+          "The clue number. Required for fill_entry, clear_entry, check_entry, reveal_entry.",
       },
       answer: {
         type: "string",
         description:
-          "The answer to fill in (uppercase letters only). Required for fill_entry.",
+          "The answer to fill in (uppercase letters; a rebus square in brackets, e.g. HEA[RT]Y). Required for fill_entry.",
+      },
+      entries: {
+        type: "array",
+        items: FILL_ENTRY_ITEM,
+        description:
+          "Several entries to fill at once, applied only if all are valid. Required for fill_entries.",
+      },
+      row: {
+        type: "number",
+        description:
+          "The cell row, starting at 1. Required for check_cell, reveal_cell.",
+      },
+      col: {
+        type: "number",
+        description:
+          "The cell column, starting at 1. Required for check_cell, reveal_cell.",
       },
     },
     required: ["task", "action"],
@@ -160,33 +296,263 @@ export const CrosswordActionJsonSchema = {
   },
 };
 
-export const CrosswordActionNoCheckJsonSchema = {
-  name: "crossword_action",
-  strict: true,
-  schema: {
-    type: "object",
-    properties: {
-      task: { type: "string", enum: ["crossword"] },
-      action: {
-        type: "string",
-        enum: ["fill_entry", "clear_entry", "submit_puzzle", "give_up"],
+/**
+ * Crossword action JSON schema for a suite's rules: actions the suite does
+ * not allow (and the fields only they use) are left out
+ */
+export function getCrosswordActionJsonSchema(rules: CrosswordActionRules) {
+  const { row, col, ...properties } = CrosswordActionJsonSchema.schema.properties;
+  return {
+    ...CrosswordActionJsonSchema,
+    schema: {
+      ...CrosswordActionJsonSchema.schema,
+      properties: {
+        ...properties,
+        action: {
+          ...properties.action,
+          enum: properties.action.enum.filter((name) =>
+            isCrosswordActionAllowed(name, rules),
+          ),
+        },
+        ...((rules.allowChecks || rules.allowReveals) && { row, col }),
       },
-      direction: {
-        type: "string",
-        enum: ["across", "down"],
-        description: "Required for fill_entry, clear_entry.",
+    },
+  };
+}
+
+// Crossword action JSON schema without checks (for no-check suite)
+export const CrosswordActionNoCheckJsonSchema = getCrosswordActionJsonSchema({
+  allowChecks: false,
+  allowReveals: false,
+});
+
+// ========================================
+// Action Tools (tool_calls protocol)
+// ========================================
+
+/**
+ * One action exposed as a callable tool. The tool name is the action name,
+ * and the parameters are the action fields other than `task` and `action`.
+ */
+export interface ActionTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+const NO_PARAMETERS = {
+  type: "object",
+  properties: {},
+  additionalProperties: false,
+};
+
+const ENTRY_PROPERTIES = {
+  direction: { type: "string", enum: ["across", "down"] },
+  number: { type: "number", description: "The clue number." },
+};
+
+const CELL_PROPERTIES = {
+  row: { type: "number", description: "The cell row, starting at 1." },
+  col: { type: "number", description: "The cell column, starting at 1." },
+};
+
+export const ConnectionsActionTools: ActionTool[] = [
+  {
+    name: "submit_group",
+    description: "Submit four words you think share a connection.",
+    parameters: {
+      type: "object",
+      properties: {
+        words: {
+          type: "array",
+          items: { type: "string" },
+          minItems: 4,
+          maxItems: 4,
+          description: "Exactly 4 of the remaining words.",
+        },
       },
-      number: {
-        type: "number",
-        description: "The clue number. Required for fill_entry, clear_entry.",
+      required: ["words"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "give_up",
+    description: "Stop playing this puzzle.",
+    parameters: NO_PARAMETERS,
+  },
+];
+
+export const CrosswordActionTools: ActionTool[] = [
+  {
+    name: "fill_entry",
+    description: "Write an answer into an entry of the grid.",
+    parameters: {
+      type: "object",
+      properties: {
+        ...ENTRY_PROPERTIES,
+        answer: {
+          type: "string",
+          description: "The answer to fill in (uppercase letters; a rebus square in brackets, e.g. HEA[RT]Y).",
+        },
       },
-      answer: {
-        type: "string",
-        description:
-          "The answer to fill in (uppercase letters only). Required for fill_entry.",
+      required: ["direction", "number", "answer"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "fill_entries",
+    description:
+      "Write answers into several entries in one step. Nothing is filled if any of them is invalid.",
+    parameters: {
+      type: "object",
+      properties: {
+        entries: { type: "array", items: FILL_ENTRY_ITEM, minItems: 1 },
       },
+      required: ["entries"],
+      additionalProperties: false,
     },
-    required: ["task", "action"],
-    additionalProperties: false,
   },
+  {
+    name: "clear_entry",
+    description: "Erase the letters of an entry.",
+    parameters: {
+      type: "object",
+      properties: ENTRY_PROPERTIES,
+      required: ["direction", "number"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "check_cell",
+    description: "Check the letter of one filled cell against the solution.",
+    parameters: {
+      type: "object",
+      properties: CELL_PROPERTIES,
+      required: ["row", "col"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "check_entry",
+    description: "Check the letters of an entry against the solution.",
+    parameters: {
+      type: "object",
+      properties: ENTRY_PROPERTIES,
+      required: ["direction", "number"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "check_puzzle",
+    description: "Check every filled cell of the grid against the solution.",
+    parameters: NO_PARAMETERS,
+  },
+  {
+    name: "reveal_cell",
+    description:
+      "Reveal the solution letter of one cell. Revealed cells count against a clean solve.",
+    parameters: {
+      type: "object",
+      properties: CELL_PROPERTIES,
+      required: ["row", "col"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "reveal_entry",
+    description:
+      "Reveal the answer of an entry. Revealed cells count against a clean solve.",
+    parameters: {
+      type: "object",
+      properties: ENTRY_PROPERTIES,
+      required: ["direction", "number"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "reveal_puzzle",
+    description:
+      "Reveal the whole solution. The puzzle can then only be solved with reveals.",
+    parameters: NO_PARAMETERS,
+  },
+  {
+    name: "submit_puzzle",
+    description: "Submit the grid as your final answer.",
+    parameters: NO_PARAMETERS,
+  },
+  {
+    name: "give_up",
+    description: "Stop playing this puzzle.",
+    parameters: NO_PARAMETERS,
+  },
+];
+
+// Crossword tools without checks (for no-check suite)
+export const CrosswordActionNoCheckTools: ActionTool[] =
+  getCrosswordActionTools({ allowChecks: false, allowReveals: false });
+
+/**
+ * Crossword action tools allowed by a suite's rules
+ */
+export function getCrosswordActionTools(
+  rules: CrosswordActionRules,
+): ActionTool[] {
+  return CrosswordActionTools.filter((tool) =>
+    isCrosswordActionAllowed(tool.name, rules),
+  );
+}
+
+// ========================================
+// Reasoning Field
+// ========================================
+
+const REASONING_PROPERTY = {
+  type: "string",
+  description:
+    "Optional. Brief reasoning about the current state, written before choosing the action.",
 };
+
+/**
+ * Add an optional `reasoning` field to an action JSON schema. It is listed
+ * first so models write their reasoning before the action fields.
+ */
+export function withReasoningField<
+  T extends { name: string; strict: boolean; schema: Record<string, unknown> },
+>(jsonSchema: T): T {
+  const properties = jsonSchema.schema.properties as Record<string, unknown>;
+  return {
+    ...jsonSchema,
+    schema: {
+      ...jsonSchema.schema,
+      properties: { reasoning: REASONING_PROPERTY, ...properties },
+    },
+  };
+}
+
+/**
+ * Add the optional `reasoning` parameter to an action tool
+ */
+export function withReasoningParameter(tool: ActionTool): ActionTool {
+  const properties = tool.parameters.properties as Record<string, unknown>;
+  return {
+    ...tool,
+    parameters: {
+      ...tool.parameters,
+      properties: { reasoning: REASONING_PROPERTY, ...properties },
+    },
+  };
+}
+
+/**
+ * Read the `reasoning` field from a raw (unvalidated) action, if present.
+ * Action schemas strip it, so it never reaches the environment.
+ */
+export function extractReasoning(rawAction: unknown): string | null {
+  if (rawAction && typeof rawAction === "object") {
+    const reasoning = (rawAction as Record<string, unknown>).reasoning;
+    if (typeof reasoning === "string" && reasoning.trim() !== "") {
+      return reasoning.trim();
+    }
+  }
+  return null;
+}
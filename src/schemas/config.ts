@@ -4,24 +4,98 @@ import { z } from "zod";
 // Suite Configuration Schema
 // ========================================
 
+// Reasoning controls for reasoning models. Providers map these to their own
+// request fields and ignore them for models without reasoning support.
+const ReasoningSettingsSchema = z.object({
+  effort: z.enum(["minimal", "low", "medium", "high"]).optional(),
+  maxTokens: z.number().optional(), // reasoning token budget
+  exclude: z.boolean().optional(), // reason, but leave the text out of responses
+});
+
+export type ReasoningSettings = z.infer<typeof ReasoningSettingsSchema>;
+
 const OpenRouterSettingsSchema = z.object({
   includeUsage: z.boolean().optional().default(true),
   temperature: z.number().optional().default(0),
   maxTokens: z.number().optional().default(1024),
   topP: z.number().optional(),
+  reasoning: ReasoningSettingsSchema.optional(), // suite-wide default
+});
+
+const ProviderSettingsSchema = z.object({
+  type: z.enum(["openrouter", "openai-compatible", "mock"]),
+  baseUrl: z.string().optional(), // required for openai-compatible
+  apiKeyEnv: z.string().optional(), // environment variable holding the API key
+  headers: z.record(z.string(), z.string()).optional(),
+  latencyMs: z.number().optional(), // mock only: mean synthetic latency per request
+});
+
+export type ProviderSettings = z.infer<typeof ProviderSettingsSchema>;
+
+const PromptSettingsSchema = z.object({
+  version: z.string().optional(), // label for grouping runs (defaults to the prompt hash)
+  // Template files, relative to the working directory (built-in defaults when unset)
+  system: z.string().optional(),
+  user: z.string().optional(),
+  followUp: z.string().optional(), // chat mode turns after the first
+  repair: z.string().optional(), // repair requests after an unusable reply
+});
+
+// A suite contestant: a model with its own settings. The name identifies the
+// contestant, so the same model can be listed twice with different settings.
+export const ModelConfigSchema = z.object({
+  id: z.string(), // Model ID, as understood by its provider
+  name: z.string().optional(), // Display name (must be unique within a suite)
+  enabled: z.boolean().optional().default(true),
+  // Per-model overrides
+  temperature: z.number().optional(),
+  maxTokens: z.number().optional(),
+  topP: z.number().optional(),
+  reasoning: ReasoningSettingsSchema.optional(),
+  provider: z.string().optional(), // provider name, overrides modelProviders
+  concurrencyLimit: z.number().optional(),
 });
 
+// Spend caps, checked before every step. USD caps use the cost reported by
+// the provider, so they do not apply to providers that report none.
+const BudgetSettingsSchema = z.object({
+  maxTotalUsd: z.number().optional(), // whole suite invocation
+  maxUsdPerModel: z.number().optional(), // per contestant
+  maxUsdPerRun: z.number().optional(),
+  maxTokensPerRun: z.number().optional(),
+});
+
+export type BudgetSettings = z.infer<typeof BudgetSettingsSchema>;
+
+// Local cache of provider replies, keyed on the exact request body
+export const CacheSettingsSchema = z.object({
+  mode: z
+    .enum(["off", "read-write", "read-only", "replay-only"])
+    .optional()
+    .default("off"),
+  dir: z.string().optional().default(".cache/responses"),
+});
+
+export type CacheSettings = z.infer<typeof CacheSettingsSchema>;
+
 const CrosswordRulesSchema = z.object({
   allowChecks: z.boolean().optional().default(true),
   allowReveals: z.boolean().optional().default(false),
+  maxEntriesPerStep: z.number().optional().default(20), // entries per fill_entries action
+  autocheck: z.boolean().optional().default(false), // mark wrong letters as soon as they are filled
 });
 
 export const SuiteConfigSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
 
-  // Models to evaluate
-  models: z.array(z.string()), // OpenRouter model IDs
+  // Models to evaluate: model IDs, or model configs with per-model overrides
+  models: z.array(z.union([z.string(), ModelConfigSchema])),
+
+  // Model providers (models default to the built-in "openrouter" provider,
+  // or the built-in "mock" provider for mock/* model IDs)
+  providers: z.record(z.string(), ProviderSettingsSchema).optional(),
+  modelProviders: z.record(z.string(), z.string()).optional(), // model name or ID -> provider name
 
   // Puzzle selection
   puzzles: z.object({
@@ -47,10 +121,27 @@ export const SuiteConfigSchema = z.object({
   runTimeoutMs: z.number().optional().default(300000), // 5 minutes default
   stepTimeoutMs: z.number().optional().default(60000), // 1 minute default
 
+  // Agent loop
+  conversationMode: z.enum(["stateless", "chat"]).optional().default("stateless"),
+  maxHistoryTurns: z.number().optional(), // chat mode: most recent exchanges kept (all when unset)
+  prompts: PromptSettingsSchema.optional(),
+  observationFormat: z
+    .enum(["json", "compact_json", "text"])
+    .optional()
+    .default("json"),
+  actionReasoning: z.boolean().optional().default(false), // optional `reasoning` field in action schemas
+  actionProtocol: z
+    .enum(["json_schema", "tool_calls", "freeform_json"])
+    .optional()
+    .default("json_schema"),
+  lenientActionParsing: z.boolean().optional().default(false), // extract and repair malformed JSON replies
+  streaming: z.boolean().optional().default(false), // stream replies to time the first token
+
   // Concurrency
   maxConcurrentRuns: z.number().optional().default(5),
   maxConcurrentRequests: z.number().optional().default(10),
   perModelConcurrency: z.record(z.string(), z.number()).optional(),
+  adaptiveConcurrency: z.boolean().optional().default(true), // lower a model's request limit while it is throttled
 
   // OpenRouter settings
   openRouter: OpenRouterSettingsSchema.optional().default({
@@ -59,10 +150,15 @@ export const SuiteConfigSchema = z.object({
     maxTokens: 1024,
   }),
 
+  // Per-model reasoning settings, merged over openRouter.reasoning
+  perModelReasoning: z.record(z.string(), ReasoningSettingsSchema).optional(),
+
   // Crossword-specific rules (ignored for connections)
   crosswordRules: CrosswordRulesSchema.optional().default({
     allowChecks: true,
     allowReveals: false,
+    maxEntriesPerStep: 20,
+    autocheck: false,
   }),
 
   // Step trace storage
@@ -74,6 +170,13 @@ export const SuiteConfigSchema = z.object({
 
   // Invalid action handling
   maxInvalidActions: z.number().optional().default(5),
+  maxRepairAttempts: z.number().optional().default(0), // re-asks per step after an unusable reply
+
+  // Spend caps
+  budget: BudgetSettingsSchema.optional(),
+
+  // Response cache (record and replay provider replies)
+  cache: CacheSettingsSchema.optional(),
 });
 
 export type SuiteConfig = z.infer<typeof SuiteConfigSchema>;
@@ -89,6 +192,7 @@ export const RunStatusSchema = z.enum([
   "fail",
   "timeout",
   "error",
+  "budget_exceeded", // stopped by a budget cap
 ]);
 
 export type RunStatus = z.infer<typeof RunStatusSchema>;
@@ -102,6 +206,13 @@ export const CrosswordRunMetricsSchema = z.object({
   checkedCount: z.number(),
   percentCorrectFilled: z.number(),
   revealedCount: z.number(),
+  revealActions: z.number().optional(), // absent in older runs
+  revealPenalty: z.number().optional(), // share of the grid's cells revealed (0-1)
+  // checkedCount by granularity (absent in older runs, which only had entry checks)
+  cellChecks: z.number().optional(),
+  entryChecks: z.number().optional(),
+  puzzleChecks: z.number().optional(),
+  autocheckWrongCount: z.number().optional(), // wrong letters flagged by autocheck
 });
 
 export const RunSummarySchema = z.object({
@@ -111,21 +222,58 @@ export const RunSummarySchema = z.object({
   endedAt: z.string(),
 
   modelId: z.string(),
+  modelLabel: z.string().optional(), // display name of the contestant, when set
   puzzleId: z.string(),
   task: z.enum(["connections", "crossword"]),
+  repeatIndex: z.number().optional(), // absent in summaries from older runs
+  provider: z.string().optional(), // absent in summaries from older runs
+  conversationMode: z.enum(["stateless", "chat"]).optional(), // absent in summaries from older runs
+  promptHash: z.string().optional(), // absent in summaries from older runs
+  promptVersion: z.string().optional(),
+  observationFormat: z.enum(["json", "compact_json", "text"]).optional(),
+  actionProtocol: z
+    .enum(["json_schema", "tool_calls", "freeform_json"])
+    .optional(), // absent in older runs, which all used json_schema
+  // Prompt size compared with JSON observations (absent in older runs)
+  promptSavings: z
+    .object({
+      sentChars: z.number(),
+      jsonChars: z.number(),
+      estimatedTokensSaved: z.number(),
+    })
+    .optional(),
 
   status: RunStatusSchema,
+  budgetExceeded: z.string().optional(), // the cap that stopped the run
   stepsTaken: z.number(),
-  invalidActions: z.number(),
+  invalidActions: z.number(), // parseFailures + ruleViolations
+  // Breakdown of invalidActions and repair requests (absent in older runs)
+  parseFailures: z.number().optional(), // replies that were not a valid action
+  ruleViolations: z.number().optional(), // valid actions the game rejected
+  repairAttempts: z.number().optional(),
+  // Playable replies, split by whether they needed lenient fixes or repair
+  // requests (absent in older runs)
+  strictReplies: z.number().optional(),
+  fixedReplies: z.number().optional(),
 
   usage: z.object({
     promptTokens: z.number(),
     completionTokens: z.number(),
     totalTokens: z.number(),
+    reasoningTokens: z.number().optional(), // part of completionTokens (absent in older runs)
   }),
 
   latencyMsTotal: z.number(),
   costCreditsTotal: z.number().nullable(),
+  // Timings of streamed replies (absent when no reply was streamed)
+  streamTiming: z
+    .object({
+      steps: z.number(), // steps with a streamed reply
+      timeToFirstTokenMsTotal: z.number(),
+      generationMsTotal: z.number(),
+      completionTokens: z.number(), // generated during generationMsTotal
+    })
+    .optional(),
 
   // Task-specific metrics
   metrics: z.union([ConnectionsRunMetricsSchema, CrosswordRunMetricsSchema]),
@@ -139,6 +287,20 @@ export type CrosswordRunMetrics = z.infer<typeof CrosswordRunMetricsSchema>;
 // Step Record Schema
 // ========================================
 
+// Why a reply could not be played, as shown to the model on the next request.
+// api_error means no reply came back; it is never a step's actionError.
+export const ActionErrorSchema = z.object({
+  kind: z.enum([
+    "parse_error",
+    "schema_violation",
+    "invalid_action",
+    "api_error",
+  ]),
+  message: z.string(),
+});
+
+export type ActionError = z.infer<typeof ActionErrorSchema>;
+
 export const StepRecordSchema = z.object({
   stepIndex: z.number(),
   observation: z.unknown(), // The game state observation
@@ -154,27 +316,48 @@ export const StepRecordSchema = z.object({
       temperature: z.number().optional(),
       maxTokens: z.number().optional(),
       topP: z.number().optional(),
+      reasoning: ReasoningSettingsSchema.optional(),
     }),
-    responseFormat: z.unknown().optional(),
+    responseFormat: z.unknown().optional(), // json_schema protocol
+    tools: z.unknown().optional(), // tool_calls protocol
   }),
   response: z
     .object({
-      raw: z.string().optional(),
+      raw: z.string().optional(), // tool calls are recorded as the action JSON
       parsed: z.unknown().optional(),
+      reasoning: z.string().optional(), // reasoning text returned by the model
+      toolCalls: z.unknown().optional(), // tool calls as returned by the model
     })
     .optional(),
   parsedAction: z.unknown().nullable(),
+  reasoning: z.string().nullable().optional(), // with actionReasoning (absent in older runs)
   envFeedback: z.unknown(),
   usage: z
     .object({
       promptTokens: z.number(),
       completionTokens: z.number(),
       totalTokens: z.number(),
+      reasoningTokens: z.number().optional(),
       cost: z.number().nullable(),
     })
     .nullable(),
   latencyMs: z.number(),
+  // Streamed replies only: time to the first token and generation time
+  timeToFirstTokenMs: z.number().optional(),
+  generationMs: z.number().optional(),
   error: z.string().nullable(),
+  actionError: ActionErrorSchema.nullable().optional(), // absent in older runs
+  replyFixes: z.array(z.string()).optional(), // lenient parsing fixes; [] for strict replies
+  // Unusable replies that were sent back for repair within this step
+  repairs: z
+    .array(
+      z.object({
+        raw: z.string(),
+        error: ActionErrorSchema,
+        latencyMs: z.number(),
+      }),
+    )
+    .optional(),
 });
 
 export type StepRecord = z.infer<typeof StepRecordSchema>;
@@ -183,16 +366,6 @@ export type StepRecord = z.infer<typeof StepRecordSchema>;
 // Models Configuration
 // ========================================
 
-export const ModelConfigSchema = z.object({
-  id: z.string(), // OpenRouter model ID
-  name: z.string().optional(), // Display name
-  enabled: z.boolean().optional().default(true),
-  // Per-model overrides
-  temperature: z.number().optional(),
-  maxTokens: z.number().optional(),
-  concurrencyLimit: z.number().optional(),
-});
-
 export const ModelsConfigSchema = z.object({
   models: z.array(ModelConfigSchema),
 });
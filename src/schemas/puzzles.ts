@@ -50,8 +50,16 @@ export const CrosswordPuzzleSchema = z.object({
     down: z.array(CrosswordClueSchema),
   }),
   solution: z.object({
-    grid: z.array(z.string()), // "#" and uppercase letters
+    // "#" and uppercase letters; a rebus cell holds several letters ("HEART")
+    grid: z.array(z.string().regex(/^(#|[A-Z0-9]+)$/)),
   }),
+  // Themed squares, as linear indices (absent in older puzzles)
+  markup: z
+    .object({
+      circled: z.array(z.number()).optional(),
+      shaded: z.array(z.number()).optional(),
+    })
+    .optional(),
   metadata: z
     .object({
       author: z.string().optional(),
@@ -0,0 +1,53 @@
+import { describe, test, expect } from "bun:test";
+import { buildDashboardState } from "./index";
+import type { EventLogEntry } from "../runner/event-log";
+
+describe("buildDashboardState", () => {
+  test("shows the latest invocation of a resumed suite", () => {
+    const modelId = "mock/oracle";
+    const entries: EventLogEntry[] = [
+      {
+        type: "suite_start",
+        suiteName: "demo",
+        models: [modelId],
+        totalRuns: 3,
+        timestamp: 0,
+      },
+      { type: "run_start", modelId, runId: "a", puzzleId: "p1", timestamp: 10 },
+      { type: "run_complete", modelId, runId: "a", status: "success", timestamp: 20 },
+      {
+        type: "suite_start",
+        suiteName: "demo",
+        resumed: true,
+        models: [modelId],
+        totalRuns: 2,
+        runsByModel: { [modelId]: 2 },
+        timestamp: 100,
+      },
+      { type: "run_start", modelId, runId: "b", puzzleId: "p2", timestamp: 110 },
+      { type: "run_complete", modelId, runId: "b", status: "fail", timestamp: 120 },
+    ];
+
+    const state = buildDashboardState(entries)!;
+
+    expect(state).toMatchObject({
+      suiteName: "demo",
+      startTime: 100,
+      totalRuns: 2,
+      completedRuns: 1,
+      isComplete: false,
+    });
+    expect(state.workers.get(modelId)).toMatchObject({
+      totalRuns: 2,
+      completedRuns: 1,
+      successCount: 0,
+      failCount: 1,
+    });
+
+    const complete = buildDashboardState([
+      ...entries,
+      { type: "suite_complete", suiteName: "demo", timestamp: 130 },
+    ]);
+    expect(complete?.isComplete).toBe(true);
+  });
+});
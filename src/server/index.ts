@@ -0,0 +1,526 @@
+import { stat } from "fs/promises";
+import { dirname, join } from "path";
+
+import {
+  createInitialDashboardState,
+  createInitialWorkerState,
+  updateWorkerState,
+  type DashboardState,
+  type WorkerState,
+} from "../dashboard/types.js";
+import {
+  EVENT_LOG_FILE,
+  isSuiteEvent,
+  type EventLogEntry,
+} from "../runner/event-log.js";
+import type { RunSummary, StepRecord } from "../schemas/config.js";
+import { DASHBOARD_PAGE, REPLAY_PAGE } from "./pages.js";
+
+// ========================================
+// Constants
+// ========================================
+
+/** Minimum time between state pushes to browsers */
+const STATE_PUSH_INTERVAL_MS = 250;
+
+/** SSE comment sent to idle connections so proxies keep them open */
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+/** How often `serve` checks the event log for new entries */
+const EVENT_LOG_POLL_MS = 1000;
+
+/** Runs listed by /api/runs unless a limit is given */
+const DEFAULT_RUN_LIMIT = 50;
+
+/**
+ * Interface listened on unless another is given. The dashboard serves
+ * prompts, replies and solutions without authentication, so other machines
+ * only reach it with an explicit opt-in.
+ */
+export const DEFAULT_HOSTNAME = "127.0.0.1";
+
+// ========================================
+// Types
+// ========================================
+
+export interface DashboardServerOptions {
+  port: number;
+  hostname?: string; // DEFAULT_HOSTNAME unless given
+  runsDir: string; // where /api/runs and replays look for runs
+}
+
+/** DashboardState as sent over HTTP (JSON has no Map) */
+export interface SerializedDashboardState
+  extends Omit<DashboardState, "workers"> {
+  workers: WorkerState[];
+}
+
+export interface RunDetails {
+  summary: RunSummary;
+  steps: StepRecord[];
+}
+
+// ========================================
+// State
+// ========================================
+
+export function serializeDashboardState(
+  state: DashboardState
+): SerializedDashboardState {
+  return { ...state, workers: Array.from(state.workers.values()) };
+}
+
+/**
+ * Apply one event log entry to a dashboard state. A suite_start begins a new
+ * state, so a resumed suite shows its latest invocation.
+ */
+export function applyEventLogEntry(
+  state: DashboardState | null,
+  entry: EventLogEntry
+): DashboardState | null {
+  if (!isSuiteEvent(entry)) {
+    return state ? updateWorkerState(state, entry) : null;
+  }
+
+  if (entry.type === "suite_complete") {
+    return state ? { ...state, isComplete: true } : null;
+  }
+
+  // Logs written before runsByModel was recorded split the runs evenly
+  const models = entry.models ?? [];
+  const totalRuns = entry.totalRuns ?? 0;
+  const evenShare = Math.round(totalRuns / Math.max(1, models.length));
+  const initial = createInitialDashboardState(entry.suiteName, models, 0, 0);
+  const workers = new Map<string, WorkerState>();
+  for (const model of models) {
+    workers.set(
+      model,
+      createInitialWorkerState(model, entry.runsByModel?.[model] ?? evenShare)
+    );
+  }
+
+  return {
+    ...initial,
+    startTime: entry.timestamp,
+    workers,
+    totalRuns,
+    isComplete: false,
+  };
+}
+
+/**
+ * Rebuild the dashboard state of the latest invocation in an event log
+ */
+export function buildDashboardState(
+  entries: EventLogEntry[]
+): DashboardState | null {
+  return entries.reduce<DashboardState | null>(applyEventLogEntry, null);
+}
+
+// ========================================
+// Dashboard Server
+// ========================================
+
+/**
+ * HTTP view of a suite run: a JSON API, Server-Sent Events and a browser UI.
+ *
+ *   GET /                 live dashboard
+ *   GET /runs/:runId      replay of one run
+ *   GET /api/state        current DashboardState (null before a suite starts)
+ *   GET /api/events       SSE: "state" snapshots and every "run_event"
+ *   GET /api/runs         summaries of finished runs (?suite=, ?limit=)
+ *   GET /api/runs/:runId  summary and steps of one run
+ */
+export class DashboardServer {
+  private options: DashboardServerOptions;
+  private server: ReturnType<typeof Bun.serve> | null = null;
+  private state: DashboardState | null = null;
+  private clients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+  private encoder = new TextEncoder();
+  private lastPushAt = 0;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: DashboardServerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start listening and return the dashboard URL
+   */
+  start(): string {
+    this.server = Bun.serve({
+      port: this.options.port,
+      hostname: this.options.hostname ?? DEFAULT_HOSTNAME,
+      idleTimeout: 0, // SSE connections stay open
+      fetch: (request) => this.handleRequest(request),
+    });
+    this.keepAliveTimer = setInterval(
+      () => this.send(": keepalive\n\n"),
+      KEEPALIVE_INTERVAL_MS
+    );
+    return this.server.url.toString();
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = null;
+    }
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+    for (const client of this.clients) {
+      try {
+        client.close();
+      } catch {
+        // Already closed by the browser
+      }
+    }
+    this.clients.clear();
+    await this.server?.stop(true);
+    this.server = null;
+  }
+
+  /**
+   * Replace the state shown to browsers
+   */
+  setState(state: DashboardState | null): void {
+    this.state = state;
+    this.pushState();
+  }
+
+  /**
+   * Apply an event (or event log entry) and forward it to browsers
+   */
+  handleEvent(entry: EventLogEntry): void {
+    if (isSuiteEvent(entry)) {
+      this.setState(applyEventLogEntry(this.state, entry));
+      return;
+    }
+
+    this.state = applyEventLogEntry(this.state, entry);
+    this.send(formatSse("run_event", entry));
+    this.schedulePush();
+  }
+
+  /**
+   * Mark the suite as finished
+   */
+  markComplete(): void {
+    if (this.state) {
+      this.setState({ ...this.state, isComplete: true });
+    }
+  }
+
+  private async handleRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    if (request.method !== "GET") {
+      return Response.json({ error: "Method not allowed" }, { status: 405 });
+    }
+
+    if (path === "/") {
+      return htmlResponse(DASHBOARD_PAGE);
+    }
+    if (path === "/api/state") {
+      return Response.json(
+        this.state ? serializeDashboardState(this.state) : null
+      );
+    }
+    if (path === "/api/events") {
+      return this.openEventStream();
+    }
+    if (path === "/api/runs") {
+      const limit = parseInt(url.searchParams.get("limit") ?? "", 10);
+      const runs = await listRuns(this.options.runsDir, {
+        suiteName: url.searchParams.get("suite") ?? undefined,
+        limit: Number.isNaN(limit) ? DEFAULT_RUN_LIMIT : limit,
+      });
+      return Response.json(runs);
+    }
+
+    const replayMatch = path.match(/^\/runs\/([\w-]+)$/);
+    if (replayMatch) {
+      return htmlResponse(REPLAY_PAGE);
+    }
+
+    const runMatch = path.match(/^\/api\/runs\/([\w-]+)$/);
+    if (runMatch) {
+      const details = await loadRunDetails(this.options.runsDir, runMatch[1]!);
+      return details
+        ? Response.json(details)
+        : Response.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+
+  /**
+   * SSE stream starting with the current state
+   */
+  private openEventStream(): Response {
+    let controller: ReadableStreamDefaultController<Uint8Array>;
+    const stream = new ReadableStream<Uint8Array>({
+      start: (streamController) => {
+        controller = streamController;
+        this.clients.add(controller);
+        controller.enqueue(
+          this.encoder.encode(formatSse("state", this.serializedState()))
+        );
+      },
+      cancel: () => {
+        this.clients.delete(controller);
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  private serializedState(): SerializedDashboardState | null {
+    return this.state ? serializeDashboardState(this.state) : null;
+  }
+
+  /**
+   * Push the state now, or once the push interval has passed
+   */
+  private schedulePush(): void {
+    if (this.pushTimer) {
+      return;
+    }
+    const waitMs = this.lastPushAt + STATE_PUSH_INTERVAL_MS - Date.now();
+    if (waitMs <= 0) {
+      this.pushState();
+      return;
+    }
+    this.pushTimer = setTimeout(() => this.pushState(), waitMs);
+  }
+
+  private pushState(): void {
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = null;
+    }
+    this.lastPushAt = Date.now();
+    this.send(formatSse("state", this.serializedState()));
+  }
+
+  private send(message: string): void {
+    const bytes = this.encoder.encode(message);
+    for (const client of this.clients) {
+      try {
+        client.enqueue(bytes);
+      } catch {
+        this.clients.delete(client);
+      }
+    }
+  }
+}
+
+// ========================================
+// Event Log Following
+// ========================================
+
+/**
+ * Most recently written event log under a runs directory
+ * (<runsDir>/<suite>/<timestamp>/events.jsonl)
+ */
+export async function findLatestSuiteRun(
+  runsDir: string
+): Promise<string | null> {
+  let latest: { dir: string; mtimeMs: number } | null = null;
+
+  try {
+    const glob = new Bun.Glob(`*/*/${EVENT_LOG_FILE}`);
+    for await (const file of glob.scan({ cwd: runsDir })) {
+      const info = await stat(join(runsDir, file));
+      if (!latest || info.mtimeMs > latest.mtimeMs) {
+        latest = { dir: join(runsDir, dirname(file)), mtimeMs: info.mtimeMs };
+      }
+    }
+  } catch {
+    // runsDir may not exist yet
+  }
+
+  return latest?.dir ?? null;
+}
+
+/**
+ * Feed a suite run's event log to the server as it grows. Without a fixed
+ * suite run directory the newest one under runsDir is followed, switching
+ * when another suite starts. Returns a function that stops following.
+ */
+export function followEventLog(
+  server: DashboardServer,
+  runsDir: string,
+  suiteRunDir?: string
+): () => void {
+  let current: string | null = null;
+  let offset = 0;
+  let partialLine = "";
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) {
+      return;
+    }
+    polling = true;
+
+    try {
+      const dir = suiteRunDir ?? (await findLatestSuiteRun(runsDir));
+      if (dir !== current) {
+        current = dir;
+        offset = 0;
+        partialLine = "";
+        server.setState(null);
+      }
+      if (!current) {
+        return;
+      }
+
+      const file = Bun.file(join(current, EVENT_LOG_FILE));
+      const size = (await file.exists()) ? file.size : 0;
+      if (size <= offset) {
+        return;
+      }
+
+      const lines = (
+        partialLine + (await file.slice(offset, size).text())
+      ).split("\n");
+      offset = size;
+      partialLine = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          server.handleEvent(JSON.parse(line) as EventLogEntry);
+        } catch {
+          // Skip corrupt lines
+        }
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  void poll();
+  const timer = setInterval(() => void poll(), EVENT_LOG_POLL_MS);
+  return () => clearInterval(timer);
+}
+
+// ========================================
+// Run Files
+// ========================================
+
+interface ListRunsOptions {
+  suiteName?: string;
+  limit?: number;
+}
+
+/**
+ * Summaries of finished runs, newest first
+ * (<runsDir>/<suite>/<timestamp>/<model>/<puzzle>/<runId>/summary.json)
+ */
+export async function listRuns(
+  runsDir: string,
+  options: ListRunsOptions = {}
+): Promise<RunSummary[]> {
+  const glob = new Bun.Glob("*/*/*/*/*/summary.json");
+  const runs: RunSummary[] = [];
+
+  try {
+    for await (const file of glob.scan({ cwd: runsDir })) {
+      try {
+        const summary: RunSummary = await Bun.file(join(runsDir, file)).json();
+        if (!options.suiteName || summary.suiteName === options.suiteName) {
+          runs.push(summary);
+        }
+      } catch {
+        // Skip summaries being written or corrupt
+      }
+    }
+  } catch {
+    // runsDir may not exist yet
+  }
+
+  runs.sort(
+    (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+  );
+  return runs.slice(0, options.limit ?? runs.length);
+}
+
+async function loadRunDetails(
+  runsDir: string,
+  runId: string
+): Promise<RunDetails | null> {
+  const glob = new Bun.Glob(`*/*/*/*/${runId}/summary.json`);
+
+  for await (const file of glob.scan({ cwd: runsDir })) {
+    const runPath = join(runsDir, dirname(file));
+    try {
+      return {
+        summary: await Bun.file(join(runPath, "summary.json")).json(),
+        steps: await loadSteps(runPath),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+async function loadSteps(runPath: string): Promise<StepRecord[]> {
+  let content: string | null = null;
+
+  const stepsFile = Bun.file(join(runPath, "steps.jsonl"));
+  const gzFile = Bun.file(join(runPath, "steps.jsonl.gz"));
+  if (await stepsFile.exists()) {
+    content = await stepsFile.text();
+  } else if (await gzFile.exists()) {
+    const compressed = new Uint8Array(await gzFile.arrayBuffer());
+    content = new TextDecoder().decode(Bun.gunzipSync(compressed));
+  }
+
+  return (content ?? "")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+// ========================================
+// Utility Functions
+// ========================================
+
+function formatSse(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function htmlResponse(html: string): Response {
+  return new Response(html, {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+// ========================================
+// Export factory function
+// ========================================
+
+export function createDashboardServer(
+  options: DashboardServerOptions
+): DashboardServer {
+  return new DashboardServer(options);
+}
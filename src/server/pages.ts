@@ -0,0 +1,334 @@
+// ========================================
+// Browser UI
+// ========================================
+
+// Self-contained pages (no build step): the dashboard follows /api/events,
+// the replay page loads /api/runs/:runId.
+
+const STYLE = `
+  :root { color-scheme: dark; --fg: #e6e6e6; --muted: #8b949e; --bg: #0d1117;
+    --panel: #161b22; --border: #30363d; --green: #3fb950; --red: #f85149;
+    --yellow: #d29922; --blue: #58a6ff; --cyan: #39c5cf; }
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 24px; background: var(--bg); color: var(--fg);
+    font: 14px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace; }
+  a { color: var(--blue); text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  h1 { font-size: 18px; margin: 0; }
+  h2 { font-size: 14px; margin: 0 0 8px; color: var(--cyan); }
+  header { display: flex; gap: 16px; align-items: baseline; flex-wrap: wrap; }
+  section { background: var(--panel); border: 1px solid var(--border);
+    border-radius: 6px; padding: 12px 16px; margin-top: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--border);
+    vertical-align: top; white-space: nowrap; }
+  th { color: var(--muted); font-weight: normal; }
+  pre { margin: 4px 0; white-space: pre-wrap; word-break: break-word; }
+  button { background: var(--panel); color: var(--fg); border: 1px solid var(--border);
+    border-radius: 4px; padding: 4px 12px; font: inherit; cursor: pointer; }
+  .muted { color: var(--muted); }
+  .success { color: var(--green); } .fail, .error { color: var(--red); }
+  .timeout, .budget_exceeded, .waiting { color: var(--yellow); } .running { color: var(--blue); }
+  .bar { height: 10px; background: var(--border); border-radius: 5px; overflow: hidden;
+    margin-top: 8px; }
+  .bar > div { height: 100%; background: var(--green); }
+  .stats { display: grid; grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+    gap: 4px 16px; }
+  .partial { color: var(--muted); white-space: pre-wrap; max-width: 60ch;
+    overflow: hidden; text-overflow: ellipsis; }
+  .step { border-left: 3px solid var(--border); padding: 4px 12px; margin: 8px 0; }
+  .step.current { border-left-color: var(--blue); }
+`;
+
+const HELPERS = `
+  const $ = (id) => document.getElementById(id);
+  const esc = (value) => String(value ?? "").replace(/[&<>"']/g, (c) =>
+    ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]);
+  function formatDuration(ms) {
+    if (ms < 1000) return ms.toFixed(0) + "ms";
+    if (ms < 60000) return (ms / 1000).toFixed(1) + "s";
+    return Math.floor(ms / 60000) + "m " + ((ms % 60000) / 1000).toFixed(0) + "s";
+  }
+  function formatTokens(n) {
+    if (n >= 1e6) return (n / 1e6).toFixed(1) + "M";
+    if (n >= 1e3) return (n / 1e3).toFixed(1) + "K";
+    return String(n);
+  }
+  function formatCost(cost) {
+    if (cost == null) return "-";
+    return "$" + cost.toFixed(cost < 0.01 ? 6 : 4);
+  }
+  const statusIcon = { success: "✓", fail: "✗", timeout: "⏱", budget_exceeded: "$", error: "⚠" };
+`;
+
+export const DASHBOARD_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>NYT Arena Dashboard</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>🎯 NYT Arena <span id="suite" class="muted">waiting for a suite…</span></h1>
+  <span id="status" class="muted"></span>
+  <span id="elapsed" class="muted"></span>
+</header>
+<div class="bar"><div id="progress" style="width: 0"></div></div>
+
+<section><h2>Global Statistics</h2><div id="stats" class="stats"></div></section>
+<section><h2>Model Workers</h2>
+  <table>
+    <thead><tr><th>Model</th><th>Status</th><th>Progress</th><th>W/L</th><th>Rate</th>
+      <th>Tokens</th><th>Tok/s</th><th>Cost</th><th>Limit</th><th>Active runs</th></tr></thead>
+    <tbody id="workers"></tbody>
+  </table>
+</section>
+<section><h2>Recent Activity</h2><div id="events"></div></section>
+<section><h2>Finished Runs</h2>
+  <table>
+    <thead><tr><th>Started</th><th>Model</th><th>Puzzle</th><th>Status</th><th>Steps</th>
+      <th>Tokens</th><th>Cost</th><th></th></tr></thead>
+    <tbody id="runs"></tbody>
+  </table>
+</section>
+
+<script>
+${HELPERS}
+  let state = null;
+  let connected = false;
+  let runsTimer = null;
+
+  function renderHeader() {
+    if (!state) {
+      $("suite").textContent = "waiting for a suite…";
+      $("status").textContent = connected ? "" : "disconnected, retrying…";
+      $("elapsed").textContent = "";
+      $("progress").style.width = "0";
+      return;
+    }
+    const end = state.isComplete
+      ? Math.max(state.startTime, ...state.workers.map((w) => w.lastUpdateTime))
+      : Date.now();
+    $("suite").textContent = state.suiteName;
+    $("status").textContent = !connected ? "disconnected, retrying…"
+      : state.isComplete ? "complete" : "running";
+    $("status").className = state.isComplete ? "success" : "running";
+    $("elapsed").textContent = "⏱ " + formatDuration(end - state.startTime);
+    const percent = state.totalRuns > 0 ? (state.completedRuns / state.totalRuns) * 100 : 0;
+    $("progress").style.width = percent.toFixed(1) + "%";
+  }
+
+  function render() {
+    renderHeader();
+    if (!state) {
+      $("stats").innerHTML = $("workers").innerHTML = $("events").innerHTML = "";
+      return;
+    }
+
+    const g = state.globalStats;
+    const stats = [
+      ["Progress", state.completedRuns + "/" + state.totalRuns],
+      ["✓ Solved", g.successCount], ["✗ Failed", g.failCount],
+      ["⏱ Timeout", g.timeoutCount], ["$ Over budget", g.budgetExceededCount],
+      ["⚠ Errors", g.errorCount],
+      ["Total tokens", formatTokens(g.totalTokens)],
+      ["Prompt / completion", formatTokens(g.promptTokens) + " / " + formatTokens(g.completionTokens)],
+      ["Tokens/sec", g.avgTokensPerSecond.toFixed(1)],
+      ["Total cost", formatCost(g.totalCost)],
+      ["API time", formatDuration(g.totalLatencyMs)],
+      ["Fastest solve", g.fastestSolve ? formatDuration(g.fastestSolve) : "-"],
+      ["Slowest solve", g.slowestSolve ? formatDuration(g.slowestSolve) : "-"],
+    ];
+    $("stats").innerHTML = stats
+      .map(([label, value]) => '<div><span class="muted">' + esc(label) + ":</span> " + esc(value) + "</div>")
+      .join("");
+
+    $("workers").innerHTML = state.workers.map((w) => {
+      const finished =
+        w.successCount + w.failCount + w.timeoutCount + w.budgetExceededCount + w.errorCount;
+      const rate = finished > 0 ? ((w.successCount / finished) * 100).toFixed(0) + "%" : "-";
+      const limit = w.concurrencyLimit != null
+        ? w.concurrencyLimit + "/" + w.maxConcurrency + (w.throttleCount ? " (" + w.throttleCount + "×)" : "")
+        : "-";
+      const active = w.activeRuns.map((run) =>
+        esc(run.puzzleId) + " step " + run.currentStep + "/" + run.totalSteps +
+        (run.partialOutput ? '<div class="partial">' + esc(run.partialOutput) + "</div>" : "")
+      ).join("<br>");
+      return "<tr><td>" + esc(w.modelId) + '</td><td class="' + esc(w.status) + '">' + esc(w.status) +
+        "</td><td>" + w.completedRuns + "/" + w.totalRuns +
+        "</td><td>" + w.successCount + "/" + (finished - w.successCount) +
+        "</td><td>" + rate + "</td><td>" + formatTokens(w.totalTokens) +
+        "</td><td>" + w.tokensPerSecond.toFixed(0) + "</td><td>" + formatCost(w.totalCost) +
+        "</td><td>" + limit + "</td><td>" + (active || '<span class="muted">-</span>') + "</td></tr>";
+    }).join("");
+
+    $("events").innerHTML = state.recentEvents.slice(0, 20).map((e) => {
+      const time = new Date(e.timestamp).toLocaleTimeString();
+      let text;
+      switch (e.type) {
+        case "run_complete":
+          text = '<span class="' + esc(e.status) + '">' + (statusIcon[e.status] || "•") + "</span> " +
+            esc(e.modelId) + " " + esc(e.status) + " " + esc(e.puzzleId) +
+            ' <a href="/runs/' + encodeURIComponent(e.runId) + '">replay</a>';
+          break;
+        case "run_start":
+          text = "▶ " + esc(e.modelId) + " started " + esc(e.puzzleId);
+          break;
+        case "step_complete":
+          text = "→ " + esc(e.modelId) + " step " + ((e.stepIndex || 0) + 1) +
+            " (" + (e.tokens || 0) + " tok) " + formatDuration(e.latencyMs || 0);
+          break;
+        case "request_retry":
+          text = '<span class="waiting">↻</span> ' + esc(e.modelId) + " retry " + e.attempt +
+            (e.statusCode ? " after " + e.statusCode : "");
+          break;
+        case "rate_limit":
+          text = (e.throttled ? '<span class="waiting">⏸</span> ' : "↑ ") + esc(e.modelId) +
+            " request limit " + e.concurrencyLimit + "/" + e.maxConcurrency;
+          break;
+        case "error":
+          text = '<span class="error">⚠</span> ' + esc(e.modelId) + " " + esc(e.error);
+          break;
+        default:
+          text = "• " + esc(e.modelId) + " " + esc(e.type);
+      }
+      return '<div><span class="muted">' + time + "</span> " + text + "</div>";
+    }).join("");
+  }
+
+  async function loadRuns() {
+    runsTimer = null;
+    const query = state ? "&suite=" + encodeURIComponent(state.suiteName) : "";
+    const runs = await fetch("/api/runs?limit=25" + query).then((r) => r.json());
+    $("runs").innerHTML = runs.map((run) =>
+      "<tr><td>" + esc(new Date(run.startedAt).toLocaleString()) +
+      "</td><td>" + esc(run.modelLabel || run.modelId) + "</td><td>" + esc(run.puzzleId) +
+      '</td><td class="' + esc(run.status) + '">' + esc(run.status) +
+      "</td><td>" + run.stepsTaken + "</td><td>" + formatTokens(run.usage.totalTokens) +
+      "</td><td>" + formatCost(run.costCreditsTotal) +
+      '</td><td><a href="/runs/' + encodeURIComponent(run.runId) + '">replay</a></td></tr>'
+    ).join("");
+  }
+
+  function scheduleLoadRuns() {
+    runsTimer ??= setTimeout(loadRuns, 1000);
+  }
+
+  const source = new EventSource("/api/events");
+  source.onopen = () => { connected = true; renderHeader(); };
+  source.onerror = () => { connected = false; renderHeader(); };
+  source.addEventListener("state", (message) => {
+    const previousSuite = state && state.suiteName;
+    state = JSON.parse(message.data);
+    render();
+    if (!state || state.suiteName !== previousSuite) scheduleLoadRuns();
+  });
+  source.addEventListener("run_event", (message) => {
+    if (JSON.parse(message.data).type === "run_complete") scheduleLoadRuns();
+  });
+
+  setInterval(renderHeader, 1000);
+  loadRuns();
+</script>
+</body>
+</html>
+`;
+
+export const REPLAY_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>NYT Arena Replay</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <a href="/">← dashboard</a>
+  <h1 id="title">Loading run…</h1>
+  <span id="status"></span>
+</header>
+<section><div id="summary" class="stats"></div></section>
+<section>
+  <button id="prev">◀ Prev</button>
+  <button id="play">▶ Play</button>
+  <button id="next">Next ▶</button>
+  <span id="position" class="muted"></span>
+  <div id="steps"></div>
+</section>
+
+<script>
+${HELPERS}
+  const runId = location.pathname.split("/").pop();
+  let steps = [];
+  let current = -1;
+  let timer = null;
+
+  function renderStep(step, index) {
+    const parts = ["<strong>Step " + (index + 1) + '</strong> <span class="muted">' +
+      formatDuration(step.latencyMs) +
+      (step.usage ? ", " + step.usage.totalTokens + " tok" : "") + "</span>"];
+    if (step.reasoning) parts.push('<pre class="muted">' + esc(step.reasoning) + "</pre>");
+    if (step.parsedAction) parts.push("<pre>" + esc(JSON.stringify(step.parsedAction)) + "</pre>");
+    if (step.error) parts.push('<pre class="error">' + esc(step.error) + "</pre>");
+    if (step.envFeedback != null) {
+      parts.push('<pre class="muted">' + esc(JSON.stringify(step.envFeedback, null, 2)) + "</pre>");
+    }
+    return '<div class="step' + (index === current ? " current" : "") + '">' + parts.join("") + "</div>";
+  }
+
+  function render() {
+    $("position").textContent = "step " + (current + 1) + " of " + steps.length;
+    $("steps").innerHTML = steps.slice(0, current + 1).map(renderStep).reverse().join("");
+  }
+
+  function go(index) {
+    current = Math.max(-1, Math.min(steps.length - 1, index));
+    render();
+  }
+
+  function togglePlay() {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    } else {
+      if (current >= steps.length - 1) current = -1;
+      timer = setInterval(() => {
+        go(current + 1);
+        if (current >= steps.length - 1) togglePlay();
+      }, 1000);
+    }
+    $("play").textContent = timer ? "⏸ Pause" : "▶ Play";
+  }
+
+  $("prev").onclick = () => go(current - 1);
+  $("next").onclick = () => go(current + 1);
+  $("play").onclick = togglePlay;
+
+  fetch("/api/runs/" + encodeURIComponent(runId))
+    .then((response) => response.ok ? response.json() : Promise.reject(response.statusText))
+    .then(({ summary, steps: loaded }) => {
+      steps = loaded;
+      document.title = "Replay " + summary.puzzleId + " · " + summary.modelId;
+      $("title").textContent = (summary.modelLabel || summary.modelId) + " · " + summary.puzzleId;
+      $("status").textContent = (statusIcon[summary.status] || "•") + " " + summary.status;
+      $("status").className = summary.status.startsWith("success") ? "success" : summary.status;
+      const duration = new Date(summary.endedAt).getTime() - new Date(summary.startedAt).getTime();
+      const fields = [
+        ["Started", new Date(summary.startedAt).toLocaleString()],
+        ["Duration", formatDuration(duration)],
+        ["Steps", summary.stepsTaken],
+        ["Tokens", formatTokens(summary.usage.totalTokens)],
+        ["Cost", formatCost(summary.costCreditsTotal)],
+        ["Suite", summary.suiteName],
+      ];
+      $("summary").innerHTML = fields
+        .map(([label, value]) => '<div><span class="muted">' + esc(label) + ":</span> " + esc(value) + "</div>")
+        .join("");
+      go(steps.length - 1);
+    })
+    .catch((error) => { $("title").textContent = "Run not found (" + error + ")"; });
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,59 @@
+import { describe, test, expect } from "bun:test";
+import { buildTimeline } from "./index";
+import type { EventLogEntry } from "../runner/event-log";
+
+describe("buildTimeline", () => {
+  test("rebuilds runs, retries and queue times per model", () => {
+    const modelId = "mock/oracle";
+    const entries: EventLogEntry[] = [
+      { type: "suite_start", suiteName: "demo", timestamp: 0 },
+      { type: "worker_start", modelId, timestamp: 0 },
+      { type: "run_start", modelId, runId: "a", puzzleId: "p1", timestamp: 10 },
+      { type: "request_start", modelId, runId: "a", queueMs: 4, timestamp: 14 },
+      { type: "request_retry", modelId, runId: "a", attempt: 1, timestamp: 30 },
+      { type: "request_start", modelId, runId: "a", queueMs: 0, timestamp: 40 },
+      { type: "step_complete", modelId, runId: "a", stepIndex: 0, timestamp: 60 },
+      { type: "run_complete", modelId, runId: "a", status: "success", timestamp: 70 },
+      { type: "run_start", modelId, runId: "b", puzzleId: "p2", timestamp: 20 },
+      { type: "worker_idle", modelId, timestamp: 80 },
+      { type: "suite_complete", suiteName: "demo", timestamp: 90 },
+    ];
+
+    const timeline = buildTimeline(entries);
+
+    expect(timeline).toMatchObject({
+      suiteName: "demo",
+      invocations: 1,
+      start: 0,
+      end: 90,
+    });
+    expect(timeline.models).toHaveLength(1);
+    expect(timeline.models[0]).toMatchObject({
+      start: 0,
+      end: 80,
+      requests: 2,
+      queueMsTotal: 4,
+      retries: 1,
+    });
+    expect(timeline.models[0]!.runs).toEqual([
+      {
+        runId: "a",
+        puzzleId: "p1",
+        start: 10,
+        end: 70,
+        status: "success",
+        steps: 1,
+        retries: [30],
+      },
+      {
+        runId: "b",
+        puzzleId: "p2",
+        start: 20,
+        end: null,
+        status: null,
+        steps: 0,
+        retries: [],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,355 @@
+import chalk from "chalk";
+import { stat } from "fs/promises";
+import { join } from "path";
+
+import type { RunEvent } from "../dashboard/types";
+import {
+  EVENT_LOG_FILE,
+  isSuiteEvent,
+  readEventLog,
+  type EventLogEntry,
+} from "../runner/event-log";
+
+// ========================================
+// Types
+// ========================================
+
+export interface TimelineRun {
+  runId: string;
+  puzzleId: string;
+  start: number;
+  end: number | null; // null if the log ends before the run does
+  status: RunEvent["status"] | null;
+  steps: number;
+  retries: number[]; // timestamps of retried requests
+}
+
+export interface TimelineModel {
+  modelId: string;
+  start: number | null; // worker start
+  end: number | null; // worker idle
+  runs: TimelineRun[];
+  requests: number;
+  queueMsTotal: number; // time requests waited for a slot
+  retries: number;
+  throttles: number;
+}
+
+export interface Timeline {
+  suiteName: string | null;
+  invocations: number; // suite_start entries (1 + resumes)
+  start: number;
+  end: number;
+  models: TimelineModel[];
+}
+
+interface TimelineOptions {
+  path: string; // suite run directory or events.jsonl
+  width?: number; // characters for the bars
+  model?: string; // only show this model
+}
+
+// ========================================
+// Timeline Construction
+// ========================================
+
+/**
+ * Rebuild the runs of each model from an event log
+ */
+export function buildTimeline(entries: EventLogEntry[]): Timeline {
+  const models = new Map<string, TimelineModel>();
+  const runs = new Map<string, TimelineRun>();
+  let suiteName: string | null = null;
+  let invocations = 0;
+
+  const getModel = (modelId: string): TimelineModel => {
+    let model = models.get(modelId);
+    if (!model) {
+      model = {
+        modelId,
+        start: null,
+        end: null,
+        runs: [],
+        requests: 0,
+        queueMsTotal: 0,
+        retries: 0,
+        throttles: 0,
+      };
+      models.set(modelId, model);
+    }
+    return model;
+  };
+
+  for (const entry of entries) {
+    if (isSuiteEvent(entry)) {
+      suiteName ??= entry.suiteName;
+      if (entry.type === "suite_start") {
+        invocations++;
+      }
+      continue;
+    }
+
+    const model = getModel(entry.modelId);
+    const run = entry.runId ? runs.get(entry.runId) : undefined;
+
+    switch (entry.type) {
+      case "worker_start":
+        model.start ??= entry.timestamp;
+        break;
+
+      case "worker_idle":
+        model.end = entry.timestamp;
+        break;
+
+      case "run_start": {
+        const started: TimelineRun = {
+          runId: entry.runId ?? "",
+          puzzleId: entry.puzzleId ?? "",
+          start: entry.timestamp,
+          end: null,
+          status: null,
+          steps: 0,
+          retries: [],
+        };
+        runs.set(started.runId, started);
+        model.runs.push(started);
+        break;
+      }
+
+      case "step_complete":
+        if (run) {
+          run.steps++;
+        }
+        break;
+
+      case "run_complete":
+        if (run) {
+          run.end = entry.timestamp;
+          run.status = entry.status ?? null;
+        }
+        break;
+
+      case "error": // the run threw
+        if (run) {
+          run.end = entry.timestamp;
+          run.status = "error";
+        }
+        break;
+
+      case "request_start":
+        model.requests++;
+        model.queueMsTotal += entry.queueMs ?? 0;
+        break;
+
+      case "request_retry":
+        model.retries++;
+        run?.retries.push(entry.timestamp);
+        break;
+
+      case "rate_limit":
+        if (entry.throttled) {
+          model.throttles++;
+        }
+        break;
+    }
+  }
+
+  let start = Infinity;
+  let end = -Infinity;
+  for (const entry of entries) {
+    start = Math.min(start, entry.timestamp);
+    end = Math.max(end, entry.timestamp);
+  }
+
+  return {
+    suiteName,
+    invocations,
+    start: entries.length > 0 ? start : 0,
+    end: entries.length > 0 ? end : 0,
+    models: Array.from(models.values()).sort((a, b) =>
+      a.modelId.localeCompare(b.modelId),
+    ),
+  };
+}
+
+// ========================================
+// Utility Functions
+// ========================================
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms.toFixed(0)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  const minutes = Math.floor(ms / 60000);
+  const seconds = ((ms % 60000) / 1000).toFixed(0);
+  return `${minutes}m ${seconds}s`;
+}
+
+function truncateText(text: string, maxWidth: number): string {
+  if (text.length <= maxWidth) return text;
+  return text.slice(0, maxWidth - 1) + "…";
+}
+
+function getStatusIcon(status: TimelineRun["status"]): string {
+  switch (status) {
+    case "success":
+      return chalk.green("✓");
+    case "fail":
+      return chalk.red("✗");
+    case "timeout":
+      return chalk.yellow("⏱");
+    case "budget_exceeded":
+      return chalk.yellow("$");
+    case "error":
+      return chalk.red("⚠");
+    default:
+      return chalk.gray("…");
+  }
+}
+
+function colorBar(status: TimelineRun["status"], text: string): string {
+  switch (status) {
+    case "success":
+      return chalk.green(text);
+    case "fail":
+    case "error":
+      return chalk.red(text);
+    case "timeout":
+    case "budget_exceeded":
+      return chalk.yellow(text);
+    default:
+      return chalk.gray(text);
+  }
+}
+
+/**
+ * One run as a bar on a line of `width` characters spanning the suite,
+ * with ↻ where requests were retried
+ */
+function renderBar(run: TimelineRun, timeline: Timeline, width: number): string {
+  const span = Math.max(1, timeline.end - timeline.start);
+  const column = (time: number) =>
+    Math.min(width - 1, Math.floor(((time - timeline.start) / span) * width));
+
+  const from = column(run.start);
+  const to = Math.max(from, column(run.end ?? timeline.end));
+  const cells = Array.from<unknown, string>({ length: width }, (_, i) =>
+    i >= from && i <= to ? "█" : " ",
+  );
+  for (const retry of run.retries) {
+    cells[column(retry)] = "↻";
+  }
+
+  return (
+    chalk.gray(cells.slice(0, from).join("")) +
+    colorBar(run.status, cells.slice(from, to + 1).join("")) +
+    cells.slice(to + 1).join("")
+  );
+}
+
+// ========================================
+// Timeline Display
+// ========================================
+
+/**
+ * Print a Gantt-style timeline of a suite run from its event log
+ */
+export async function showTimeline(options: TimelineOptions): Promise<void> {
+  const { width = 60, model: modelFilter } = options;
+
+  const isDir = await stat(options.path)
+    .then((info) => info.isDirectory())
+    .catch(() => false);
+  const logPath = isDir ? join(options.path, EVENT_LOG_FILE) : options.path;
+
+  if (!(await Bun.file(logPath).exists())) {
+    console.log(chalk.yellow(`\n  No event log found at ${logPath}\n`));
+    return;
+  }
+
+  const timeline = buildTimeline(await readEventLog(logPath));
+  const models = modelFilter
+    ? timeline.models.filter((model) => model.modelId === modelFilter)
+    : timeline.models;
+
+  if (models.length === 0) {
+    console.log(chalk.yellow("\n  No runs in the event log.\n"));
+    return;
+  }
+
+  const labelWidth = 24;
+  const duration = timeline.end - timeline.start;
+
+  console.log("");
+  console.log(
+    chalk.bold(`  ⏱  Timeline: ${timeline.suiteName ?? "suite"}`) +
+      chalk.gray(
+        `  (${formatDuration(duration)}` +
+          (timeline.invocations > 1
+            ? `, ${timeline.invocations} invocations`
+            : "") +
+          ")",
+      ),
+  );
+  console.log("");
+
+  // Time axis
+  const endLabel = formatDuration(duration);
+  console.log(
+    chalk.gray(
+      "  " +
+        " ".repeat(labelWidth) +
+        "0s".padEnd(width - endLabel.length) +
+        endLabel,
+    ),
+  );
+  console.log(
+    chalk.gray("  " + " ".repeat(labelWidth) + "┬" + "─".repeat(width - 2) + "┬"),
+  );
+
+  for (const model of models) {
+    const avgQueueMs =
+      model.requests > 0 ? model.queueMsTotal / model.requests : 0;
+    console.log(
+      "  " +
+        chalk.bold.white(model.modelId) +
+        chalk.gray(
+          `  ${model.runs.length} runs · ${model.requests} requests · ` +
+            `avg queue ${formatDuration(avgQueueMs)} · ` +
+            `${model.retries} retries · ${model.throttles} throttled`,
+        ),
+    );
+
+    for (const run of model.runs) {
+      const label = truncateText(
+        `${run.puzzleId} ${run.runId.slice(0, 6)}`,
+        labelWidth - 3,
+      );
+      const runDuration =
+        run.end !== null ? formatDuration(run.end - run.start) : "unfinished";
+      console.log(
+        "  " +
+          chalk.gray(("  " + label).padEnd(labelWidth)) +
+          renderBar(run, timeline, width) +
+          " " +
+          getStatusIcon(run.status) +
+          chalk.gray(` ${runDuration}, ${run.steps} steps`),
+      );
+    }
+    console.log("");
+  }
+
+  console.log(
+    chalk.gray("  ") +
+      chalk.green("█") +
+      chalk.gray(" solved  ") +
+      chalk.red("█") +
+      chalk.gray(" failed/error  ") +
+      chalk.yellow("█") +
+      chalk.gray(" timeout  ") +
+      chalk.gray("█ unfinished  ↻ retried request"),
+  );
+  console.log("");
+}
+
+// Export for CLI
+export { type TimelineOptions };
@@ -0,0 +1,21 @@
+import { describe, test, expect } from "bun:test";
+import { createSeededRandom, seededShuffle } from "./random";
+
+describe("createSeededRandom", () => {
+  test("stays in [0, 1) and repeats for a seed", () => {
+    const draw = (seed: number) =>
+      Array.from({ length: 100_000 }, createSeededRandom(seed));
+    const values = draw(42);
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...values)).toBeLessThan(1);
+    expect(draw(42)).toEqual(values);
+  });
+
+  test("shuffles never lose or duplicate elements", () => {
+    const items = Array.from({ length: 16 }, (_, i) => i);
+    for (let seed = 0; seed < 500; seed++) {
+      expect(seededShuffle(items, seed).sort((a, b) => a - b)).toEqual(items);
+    }
+  });
+});
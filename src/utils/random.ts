@@ -0,0 +1,45 @@
+// ========================================
+// Seeded Randomness
+// ========================================
+
+/**
+ * Create a deterministic random number generator returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  return () => {
+    // 32-bit multiply, so the product never loses precision
+    seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+    return seed / 0x80000000;
+  };
+}
+
+/**
+ * Hash a string into a non-negative 31-bit seed (FNV-1a)
+ */
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) & 0x7fffffff;
+}
+
+/**
+ * Return a shuffled copy of an array (Fisher-Yates with a seeded generator)
+ */
+export function seededShuffle<T>(array: T[], seed: number): T[] {
+  const result = [...array];
+  const random = createSeededRandom(seed);
+  let m = result.length;
+  let i: number;
+
+  while (m) {
+    i = Math.floor(random() * m--);
+    const t = result[m]!;
+    result[m] = result[i]!;
+    result[i] = t;
+  }
+
+  return result;
+}
@@ -197,6 +197,18 @@ function FinalStats({ summary }: { summary: RunSummary }) {
   );
 }
 
+function Reasoning({ text }: { text: string }) {
+  const maxChars = 600;
+  const shown = text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+
+  return (
+    <Box flexDirection="column" marginTop={1} paddingX={1} borderStyle="round" borderColor="#555">
+      <Text color="#7F8C8D">💭 Reasoning</Text>
+      <Text color="#BDC3C7">{shown}</Text>
+    </Box>
+  );
+}
+
 function Footer({ interactive }: { interactive: boolean }) {
   return (
     <Box marginTop={1}>
@@ -277,6 +289,9 @@ export function SingleGameVisualizer({
     return () => clearTimeout(timer);
   }, [currentStepIndex, isPaused, isComplete, interactive, speed, steps, summary.status]);
 
+  // Reasoning the model gave for the action just played (suites with actionReasoning)
+  const reasoning = steps[currentStepIndex]?.reasoning;
+
   return (
     <Box flexDirection="column" padding={1}>
       <Header summary={summary} isComplete={isComplete} />
@@ -290,6 +305,8 @@ export function SingleGameVisualizer({
           compact={false}
         />
       </Box>
+
+      {reasoning && <Reasoning text={reasoning} />}
       
       <ProgressBar current={currentStepIndex + 1} total={steps.length} />
       